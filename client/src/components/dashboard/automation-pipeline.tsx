@@ -3,7 +3,10 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Skeleton } from "@/components/ui/skeleton";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { usePipelineStream } from "@/hooks/use-pipeline-stream";
+import { apiRequest } from "@/lib/queryClient";
 import { 
   CheckCircle, 
   RotateCcw, 
@@ -11,7 +14,9 @@ import {
   Image, 
   Upload,
   Clock,
-  AlertCircle
+  AlertCircle,
+  ThumbsUp,
+  ThumbsDown
 } from "lucide-react";
 
 interface PipelineJob {
@@ -21,6 +26,8 @@ interface PipelineJob {
   status: string;
   progress: number;
   createdAt: string;
+  queuedFor?: string;
+  queuePosition?: number;
 }
 
 interface PipelineData {
@@ -30,12 +37,59 @@ interface PipelineData {
 }
 
 export function AutomationPipeline() {
+  const streaming = usePipelineStream();
   const { data: pipelineData, isLoading, error } = useQuery({
     queryKey: ['/api/dashboard/active-pipeline'],
-    refetchInterval: 1000, // Refresh every 1 second for real-time updates
+    refetchInterval: streaming ? false : 5000, // The stream pushes updates; poll only while it is down
     staleTime: 0, // Always refetch for latest data
     cacheTime: 0 // Don't cache to ensure fresh data
   });
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const approveMutation = useMutation({
+    mutationFn: (jobId: number) => apiRequest('POST', `/api/jobs/${jobId}/approve`),
+    onSuccess: () => {
+      toast({
+        title: "Video Approved",
+        description: "The video will be uploaded at its scheduled time.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to approve video: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: ({ jobId, reason }: { jobId: number; reason: string }) =>
+      apiRequest('POST', `/api/jobs/${jobId}/reject`, { reason }),
+    onSuccess: () => {
+      toast({
+        title: "Video Rejected",
+        description: "The video will not be uploaded.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to reject video: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleReject = (jobId: number) => {
+    const reason = window.prompt('Why is this video being rejected?');
+    if (reason && reason.trim()) {
+      rejectMutation.mutate({ jobId, reason: reason.trim() });
+    }
+  };
 
   if (isLoading) {
     return (
@@ -116,6 +170,7 @@ export function AutomationPipeline() {
   const getStatusBadge = (status: string) => {
     const statusMap = {
       'pending': { variant: 'secondary' as const, label: 'Pending' },
+      'queued': { variant: 'secondary' as const, label: 'Queued' },
       'script_generation': { variant: 'default' as const, label: 'Generating Script' },
       'audio_generation': { variant: 'default' as const, label: 'Generating Audio' },
       'video_creation': { variant: 'default' as const, label: 'Creating Video' },
@@ -123,10 +178,14 @@ export function AutomationPipeline() {
       'thumbnail_generation': { variant: 'default' as const, label: 'Generating Thumbnail' },
       'file_organization': { variant: 'default' as const, label: 'Uploading to Drive' },
       'scheduling_upload': { variant: 'default' as const, label: 'Scheduling Upload' },
+      'awaiting_review': { variant: 'secondary' as const, label: 'Awaiting Review' },
       'ready_for_upload': { variant: 'default' as const, label: 'Ready for Upload' },
       'uploading': { variant: 'default' as const, label: 'Uploading to YouTube' },
       'completed': { variant: 'default' as const, label: 'Completed' },
-      'failed': { variant: 'destructive' as const, label: 'Failed' }
+      'failed': { variant: 'destructive' as const, label: 'Failed' },
+      'cancelled': { variant: 'secondary' as const, label: 'Cancelled' },
+      'interrupted': { variant: 'secondary' as const, label: 'Interrupted' },
+      'rejected': { variant: 'destructive' as const, label: 'Rejected' }
     };
 
     const statusInfo = statusMap[status] || { variant: 'secondary' as const, label: status.replace('_', ' ').toUpperCase() };
@@ -190,7 +249,29 @@ export function AutomationPipeline() {
                   <p className="text-sm text-muted-foreground mb-2">
                     {job.videoType === 'long_form' ? 'Long-form video' : 'YouTube Short'} • 
                     Started {formatTimeAgo(job.createdAt)}
+                    {job.queuedFor && ` • Waiting for ${job.queuedFor} worker (#${job.queuePosition})`}
                   </p>
+                  {job.status === 'awaiting_review' && (
+                    <div className="flex items-center space-x-2 mb-2">
+                      <Button
+                        size="sm"
+                        onClick={() => approveMutation.mutate(job.id)}
+                        disabled={approveMutation.isPending || rejectMutation.isPending}
+                      >
+                        <ThumbsUp className="w-4 h-4 mr-2" />
+                        Approve
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleReject(job.id)}
+                        disabled={approveMutation.isPending || rejectMutation.isPending}
+                      >
+                        <ThumbsDown className="w-4 h-4 mr-2" />
+                        Reject
+                      </Button>
+                    </div>
+                  )}
                   {job.progress > 0 && job.progress < 100 && (
                     <div className="flex items-center space-x-3">
                       <div className="flex-1">
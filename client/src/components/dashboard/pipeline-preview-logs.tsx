@@ -4,13 +4,14 @@ import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { AlertCircle, CheckCircle, Clock, XCircle, Info, FileText, ExternalLink, Eye, Sparkles } from 'lucide-react';
+import { AlertCircle, CheckCircle, Clock, XCircle, Info, FileText, ExternalLink, Eye, Sparkles, RotateCcw } from 'lucide-react';
+import { usePipelineStream } from '@/hooks/use-pipeline-stream';
 
 interface PipelineLog {
   id: number;
-  job_id: number;
+  jobId: number;
   step: string;
-  status: 'starting' | 'completed' | 'error' | 'warning';
+  status: 'starting' | 'progress' | 'completed' | 'error' | 'warning';
   message: string;
   details: string;
   progress: number;
@@ -207,17 +208,19 @@ async function fetchPipelineLogs(): Promise<{ logs: PipelineLog[]; activeJobs: A
   }
 }
 
-export function PipelinePreviewLogs() {
+export function PipelinePreviewLogs({ selectedJobId }: { selectedJobId?: number }) {
+  const streaming = usePipelineStream();
   const { data, isLoading, error } = useQuery({
     queryKey: ['pipeline-logs'],
     queryFn: fetchPipelineLogs,
-    refetchInterval: 2000,
+    refetchInterval: streaming ? false : 5000, // New log lines arrive over the stream
     staleTime: 1000,
     retry: 3,
     retryDelay: 1000,
   });
 
-  const logs = data?.logs || [];
+  const allLogs = data?.logs || [];
+  const logs = selectedJobId ? allLogs.filter(log => log.jobId === selectedJobId) : allLogs;
   const activeJobs = data?.activeJobs || [];
   const hasActiveJobs = activeJobs.length > 0;
 
@@ -225,6 +228,8 @@ export function PipelinePreviewLogs() {
     switch (status) {
       case 'starting':
         return <Clock className="h-4 w-4 text-blue-500" />;
+      case 'progress':
+        return <RotateCcw className="h-4 w-4 text-orange-500" />;
       case 'completed':
         return <CheckCircle className="h-4 w-4 text-green-500" />;
       case 'error':
@@ -239,6 +244,7 @@ export function PipelinePreviewLogs() {
   const getStatusBadge = (status: string) => {
     const variants = {
       starting: 'bg-blue-100 text-blue-800 border-blue-200',
+      progress: 'bg-orange-100 text-orange-800 border-orange-200',
       completed: 'bg-green-100 text-green-800 border-green-200',
       error: 'bg-red-100 text-red-800 border-red-200',
       warning: 'bg-yellow-100 text-yellow-800 border-yellow-200',
@@ -344,8 +350,13 @@ export function PipelinePreviewLogs() {
                             {formatStep(log.step)}
                           </span>
                           {getStatusBadge(log.status)}
+                          {log.metadata?.attempt && log.metadata?.maxAttempts > 1 && (
+                            <Badge variant="outline" className="text-xs">
+                              Attempt {log.metadata.attempt}/{log.metadata.maxAttempts}
+                            </Badge>
+                          )}
                           <span className="text-xs text-muted-foreground">
-                            Job #{log.job_id}
+                            Job #{log.jobId}
                           </span>
                         </div>
                         <p className="text-sm text-foreground mb-1">
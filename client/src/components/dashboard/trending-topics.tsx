@@ -55,12 +55,16 @@ export function TrendingTopics({ onRefresh }: TrendingTopicsProps) {
   });
 
   const generateContentMutation = useMutation({
-    mutationFn: ({ topicId, videoType }: { topicId: number; videoType: 'long_form' | 'short' }) =>
-      apiRequest('POST', '/api/content/generate', { topicId, videoType }),
-    onSuccess: () => {
+    mutationFn: async ({ topicId, videoType }: { topicId: number; videoType: 'long_form' | 'short' }) => {
+      const response = await apiRequest('POST', '/api/content/generate', { topicId, videoType });
+      return response.json();
+    },
+    onSuccess: (result: { duplicate?: boolean; message?: string }) => {
       toast({
-        title: "Content Generation Started",
-        description: "The automation pipeline has started creating content for this topic.",
+        title: result.duplicate ? "Job Already Exists" : "Content Generation Started",
+        description: result.duplicate
+          ? result.message
+          : "The automation pipeline has started creating content for this topic.",
       });
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard'] });
     },
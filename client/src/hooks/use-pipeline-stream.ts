@@ -0,0 +1,135 @@
+import { useEffect, useState } from "react";
+import { queryClient } from "@/lib/queryClient";
+
+// Caches that hold /api/dashboard/active-pipeline
+const ACTIVE_PIPELINE_KEYS = [["/api/dashboard/active-pipeline"], ["active-pipeline"]];
+const FINAL_STATUSES = ["completed", "failed", "cancelled", "rejected"];
+const MAX_CACHED_LOGS = 50; // same as /api/pipeline/logs
+
+// Pipeline events after which the activity feed and upload schedule have changed
+const LIFECYCLE_EVENTS = [
+  "JobCreated",
+  "JobCompleted",
+  "JobFailed",
+  "JobCancelled",
+  "JobAwaitingReview",
+  "JobReviewed",
+  "VideoPublished",
+  "UploadFailed",
+  "TopicsDiscovered",
+  "DailyRunCompleted",
+];
+
+interface JobSnapshot {
+  id: number;
+  status: string;
+  progress: number;
+  [key: string]: any;
+}
+
+interface LogLine {
+  id: number;
+  [key: string]: any;
+}
+
+interface StreamConnection {
+  source: EventSource;
+  subscribers: number;
+  listeners: Set<(connected: boolean) => void>;
+  connected: boolean;
+}
+
+// One EventSource per URL, shared by every mounted component that asks for it
+const connections = new Map<string, StreamConnection>();
+
+function applyJobSnapshot(job: JobSnapshot) {
+  for (const queryKey of [...ACTIVE_PIPELINE_KEYS, ["pipeline-logs"]]) {
+    const listKey = queryKey[0] === "pipeline-logs" ? "activeJobs" : "active";
+    const cached = queryClient.getQueryData<Record<string, any>>(queryKey);
+    if (!cached) continue;
+
+    const jobs: JobSnapshot[] = cached[listKey] || [];
+    const known = jobs.some((existing) => existing.id === job.id);
+
+    // New or finished jobs change the list itself - let the server rebuild it
+    if (!known || FINAL_STATUSES.includes(job.status)) {
+      queryClient.invalidateQueries({ queryKey });
+      continue;
+    }
+
+    queryClient.setQueryData(queryKey, {
+      ...cached,
+      [listKey]: jobs.map((existing) =>
+        existing.id === job.id ? { ...existing, status: job.status, progress: job.progress } : existing,
+      ),
+    });
+  }
+}
+
+function applyLogLine(log: LogLine) {
+  queryClient.setQueryData<{ logs: LogLine[]; activeJobs: JobSnapshot[] }>(["pipeline-logs"], (cached) => {
+    if (!cached || cached.logs.some((existing) => existing.id === log.id)) {
+      return cached;
+    }
+    return { ...cached, logs: [log, ...cached.logs].slice(0, MAX_CACHED_LOGS) };
+  });
+}
+
+function openConnection(url: string): StreamConnection {
+  const source = new EventSource(url);
+  const connection: StreamConnection = { source, subscribers: 0, listeners: new Set(), connected: false };
+
+  const setConnected = (connected: boolean) => {
+    connection.connected = connected;
+    connection.listeners.forEach((listener) => listener(connected));
+  };
+
+  source.addEventListener("ready", () => setConnected(true));
+  // EventSource reconnects by itself; until then the components fall back to polling
+  source.addEventListener("error", () => setConnected(false));
+
+  source.addEventListener("job", (message) => {
+    applyJobSnapshot(JSON.parse((message as MessageEvent).data));
+  });
+  source.addEventListener("log", (message) => {
+    applyLogLine(JSON.parse((message as MessageEvent).data));
+  });
+  source.addEventListener("pipeline", (message) => {
+    const event = JSON.parse((message as MessageEvent).data);
+    if (LIFECYCLE_EVENTS.includes(event.type)) {
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/recent-activity"] });
+      queryClient.invalidateQueries({ queryKey: ["scheduled-videos"] });
+    }
+  });
+
+  return connection;
+}
+
+// Keeps the pipeline caches up to date from /api/pipeline/stream.
+// Returns whether the stream is connected, so callers can poll only while it isn't.
+export function usePipelineStream(jobId?: number) {
+  const url = jobId !== undefined ? `/api/pipeline/stream?jobId=${jobId}` : "/api/pipeline/stream";
+  const [connected, setConnected] = useState(() => connections.get(url)?.connected ?? false);
+
+  useEffect(() => {
+    let connection = connections.get(url);
+    if (!connection) {
+      connection = openConnection(url);
+      connections.set(url, connection);
+    }
+    connection.subscribers++;
+    connection.listeners.add(setConnected);
+    setConnected(connection.connected);
+
+    return () => {
+      connection!.subscribers--;
+      connection!.listeners.delete(setConnected);
+      if (connection!.subscribers === 0) {
+        connection!.source.close();
+        connections.delete(url);
+      }
+    };
+  }, [url]);
+
+  return connected;
+}
@@ -7,6 +7,32 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Loader2, RefreshCw, Play, TrendingUp, Trash2, ExternalLink, Eye, X } from 'lucide-react';
 
+type TopicSignal = 'coverage' | 'credibility' | 'recency' | 'quality' | 'momentum' | 'channelFit';
+
+interface TopicScore {
+  total: number;
+  priority: string;
+  signals: Record<TopicSignal, { value: number; weight: number; points: number; detail: string }>;
+  storyId: string;
+  scoredAt: string;
+}
+
+const SIGNAL_LABELS: Record<TopicSignal, string> = {
+  coverage: 'Source coverage',
+  credibility: 'Source credibility',
+  recency: 'Recency',
+  quality: 'Content quality',
+  momentum: 'Keyword momentum',
+  channelFit: 'Channel fit'
+};
+
+interface StorySource {
+  title: string;
+  url: string | null;
+  domain: string;
+  publishedAt: string | null;
+}
+
 interface TrendingTopic {
   id: number;
   title: string;
@@ -21,6 +47,10 @@ interface TrendingTopic {
     sourceUrl?: string;
     timestamp?: string;
     contentType?: string;
+    publishDateFormatted?: string;
+    timeframe?: string;
+    score?: TopicScore;
+    sources?: StorySource[];
   };
 }
 
@@ -251,6 +281,16 @@ export default function TrendingTopicsPage() {
                       </Badge>
                       <Badge variant="outline">{topic.category}</Badge>
                       <Badge variant="secondary">{topic.source}</Badge>
+                      {topic.trending_data?.score && (
+                        <Badge variant="outline" className="bg-purple-50 text-purple-700 border-purple-200">
+                          Score {topic.trending_data.score.total}
+                        </Badge>
+                      )}
+                      {(topic.trending_data?.sources?.length || 0) > 1 && (
+                        <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">
+                          {topic.trending_data!.sources!.length} sources
+                        </Badge>
+                      )}
                       <span className="text-sm text-muted-foreground">
                         {topic.searchVolume.toLocaleString()} searches
                       </span>
@@ -378,6 +418,66 @@ export default function TrendingTopicsPage() {
                 </div>
               )}
 
+              {/* Every outlet covering a clustered story */}
+              {(viewingTopic.trending_data?.sources?.length || 0) > 1 && (
+                <div className="space-y-2">
+                  <h3 className="text-lg font-semibold">
+                    Sources ({viewingTopic.trending_data!.sources!.length})
+                  </h3>
+                  <ul className="space-y-1 text-sm">
+                    {viewingTopic.trending_data!.sources!.map((source, index) => (
+                      <li key={index} className="flex items-center gap-2">
+                        <Badge variant="secondary" className="shrink-0">{source.domain}</Badge>
+                        {source.url ? (
+                          <a
+                            href={source.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-blue-600 hover:text-blue-800 truncate"
+                          >
+                            {source.title}
+                          </a>
+                        ) : (
+                          <span className="truncate">{source.title}</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Score breakdown */}
+              {viewingTopic.trending_data?.score && (
+                <div className="space-y-3">
+                  <h3 className="text-lg font-semibold">
+                    Score breakdown: {viewingTopic.trending_data.score.total}/100
+                  </h3>
+                  <div className="space-y-2">
+                    {(Object.keys(SIGNAL_LABELS) as TopicSignal[]).map((signal) => {
+                      const entry = viewingTopic.trending_data?.score?.signals[signal];
+                      if (!entry) return null;
+                      return (
+                        <div key={signal} className="text-sm">
+                          <div className="flex justify-between">
+                            <span className="font-medium">{SIGNAL_LABELS[signal]}</span>
+                            <span className="text-muted-foreground">
+                              {entry.points} / {Math.round(entry.weight * 100)} pts
+                            </span>
+                          </div>
+                          <div className="h-1.5 bg-muted rounded-full overflow-hidden my-1">
+                            <div
+                              className="h-full bg-purple-500"
+                              style={{ width: `${Math.round(entry.value * 100)}%` }}
+                            />
+                          </div>
+                          <p className="text-xs text-muted-foreground">{entry.detail}</p>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
               {/* Full content */}
               <div className="space-y-3">
                 <h3 className="text-lg font-semibold">Full Content</h3>
@@ -5,6 +5,7 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Loader2, Video, Clock, CheckCircle, AlertCircle } from 'lucide-react';
 import { PipelinePreviewLogs } from '@/components/dashboard/pipeline-preview-logs';
+import { usePipelineStream } from '@/hooks/use-pipeline-stream';
 import { useState } from 'react';
 
 interface ContentJob {
@@ -16,10 +17,13 @@ interface ContentJob {
   createdAt: string;
   scheduledTime?: string;
   youtubeId?: string;
+  queuedFor?: string;
+  queuePosition?: number;
 }
 
 export default function VideoPipelinePage() {
   const [selectedJobId, setSelectedJobId] = useState<number | undefined>();
+  const streaming = usePipelineStream();
 
   const { data: pipeline, isLoading } = useQuery({
     queryKey: ['active-pipeline'],
@@ -28,7 +32,7 @@ export default function VideoPipelinePage() {
       if (!response.ok) throw new Error('Failed to fetch pipeline');
       return response.json();
     },
-    refetchInterval: 1000, // Faster refresh for real-time updates
+    refetchInterval: streaming ? false : 5000, // The stream pushes updates; poll only while it is down
     staleTime: 0, // Always refetch for latest data
     cacheTime: 0 // Don't cache to ensure fresh data
   });
@@ -37,6 +41,8 @@ export default function VideoPipelinePage() {
     switch (status) {
       case 'completed': return <CheckCircle className="h-4 w-4 text-green-500" />;
       case 'failed': return <AlertCircle className="h-4 w-4 text-red-500" />;
+      case 'cancelled': return <AlertCircle className="h-4 w-4 text-gray-500" />;
+      case 'interrupted': return <Clock className="h-4 w-4 text-orange-500" />;
       case 'processing': return <Loader2 className="h-4 w-4 animate-spin text-blue-500" />;
       default: return <Clock className="h-4 w-4 text-yellow-500" />;
     }
@@ -46,6 +52,8 @@ export default function VideoPipelinePage() {
     switch (status) {
       case 'completed': return 'bg-green-500';
       case 'failed': return 'bg-red-500';
+      case 'cancelled': return 'bg-gray-500';
+      case 'interrupted': return 'bg-orange-500';
       case 'processing': return 'bg-blue-500';
       default: return 'bg-yellow-500';
     }
@@ -97,6 +105,7 @@ export default function VideoPipelinePage() {
                       <Progress value={job.progress} className="mb-2" />
                       <p className="text-sm text-muted-foreground">
                         {job.progress}% complete
+                        {job.queuedFor && ` • queued for ${job.queuedFor} worker (#${job.queuePosition})`}
                       </p>
                       {selectedJobId === job.id ? (
                         <p className="text-xs text-primary mt-2">
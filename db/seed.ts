@@ -42,6 +42,7 @@ async function createTables() {
       CREATE TABLE IF NOT EXISTS content_jobs (
         id SERIAL PRIMARY KEY,
         topic_id INTEGER REFERENCES trending_topics(id),
+        parent_job_id INTEGER REFERENCES content_jobs(id) ON DELETE SET NULL,
         video_type TEXT NOT NULL,
         title TEXT NOT NULL,
         script TEXT,
@@ -49,17 +50,90 @@ async function createTables() {
         thumbnail_path TEXT,
         drive_url TEXT,
         youtube_id TEXT,
+        channel_id TEXT,
+        selection_reason TEXT,
+        idempotency_key TEXT UNIQUE,
         status TEXT NOT NULL DEFAULT 'pending',
         progress INTEGER NOT NULL DEFAULT 0,
         scheduled_time TIMESTAMP,
         published_at TIMESTAMP,
         metadata JSONB,
+        checkpoints JSONB,
+        owner_instance TEXT,
+        heartbeat_at TIMESTAMP,
         error_message TEXT,
         created_at TIMESTAMP NOT NULL DEFAULT NOW(),
         updated_at TIMESTAMP NOT NULL DEFAULT NOW()
       );
     `);
 
+    // Pipeline worker queue table
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS pipeline_queue (
+        id SERIAL PRIMARY KEY,
+        job_id INTEGER NOT NULL UNIQUE REFERENCES content_jobs(id) ON DELETE CASCADE,
+        stage TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'waiting',
+        owner_instance TEXT,
+        enqueued_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        started_at TIMESTAMP
+      );
+    `);
+
+    // Leases held by instances for scheduled tasks and uploads
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS automation_leases (
+        name TEXT PRIMARY KEY,
+        owner TEXT NOT NULL,
+        acquired_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        expires_at TIMESTAMP NOT NULL
+      );
+    `);
+
+    // Earlier versions of regenerated job artifacts
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS job_artifact_versions (
+        id SERIAL PRIMARY KEY,
+        job_id INTEGER NOT NULL REFERENCES content_jobs(id) ON DELETE CASCADE,
+        artifact TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        data JSONB NOT NULL,
+        reason TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        UNIQUE (job_id, artifact, version)
+      );
+    `);
+
+    // Outbound webhook subscriptions and their delivery log
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+        id SERIAL PRIMARY KEY,
+        url TEXT NOT NULL,
+        events JSONB NOT NULL,
+        secret TEXT NOT NULL,
+        description TEXT,
+        is_active BOOLEAN NOT NULL DEFAULT true,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id SERIAL PRIMARY KEY,
+        subscription_id INTEGER NOT NULL REFERENCES webhook_subscriptions(id) ON DELETE CASCADE,
+        event_type TEXT NOT NULL,
+        payload JSONB NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        response_status INTEGER,
+        error TEXT,
+        next_attempt_at TIMESTAMP,
+        delivered_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+
     // System stats table
     await client.query(`
       CREATE TABLE IF NOT EXISTS system_stats (
@@ -76,6 +150,57 @@ async function createTables() {
       );
     `);
 
+    // Content categories table
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS content_categories (
+        id SERIAL PRIMARY KEY,
+        slug TEXT NOT NULL UNIQUE,
+        name TEXT NOT NULL,
+        is_active BOOLEAN NOT NULL DEFAULT true,
+        search_queries JSONB NOT NULL,
+        keywords JSONB NOT NULL,
+        boost_keywords JSONB NOT NULL DEFAULT '[]',
+        target_sites JSONB NOT NULL DEFAULT '[]',
+        title_prefixes JSONB NOT NULL DEFAULT '[]',
+        base_search_volume INTEGER NOT NULL DEFAULT 100000,
+        youtube_category_id TEXT NOT NULL DEFAULT '28',
+        tags JSONB NOT NULL DEFAULT '[]',
+        colors JSONB NOT NULL,
+        background_keywords JSONB NOT NULL DEFAULT '[]',
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+
+    // Keyword trends table
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS keyword_trends (
+        id SERIAL PRIMARY KEY,
+        date TEXT NOT NULL,
+        keyword TEXT NOT NULL,
+        count INTEGER NOT NULL,
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        UNIQUE (date, keyword)
+      );
+    `);
+
+    // Topic fingerprints table - near-duplicate detection across analysis runs
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS topic_fingerprints (
+        id SERIAL PRIMARY KEY,
+        topic_id INTEGER,
+        title TEXT NOT NULL,
+        source_url TEXT,
+        title_signature JSONB NOT NULL,
+        content_signature JSONB,
+        status TEXT NOT NULL,
+        matched_ref TEXT,
+        matched_title TEXT,
+        similarity REAL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+    `);
+
     // Activity logs table
     await client.query(`
       CREATE TABLE IF NOT EXISTS activity_logs (
@@ -149,7 +274,82 @@ async function seedInitialData() {
       { key: 'content_language', value: 'en-IN', description: 'Content language and voice locale' },
       { key: 'video_quality', value: '1080p', description: 'Default video quality for generation' },
       { key: 'thumbnail_style', value: 'clickbait', description: 'Thumbnail generation style' },
-      { key: 'google_drive_folder', value: 'YouTube_Automation', description: 'Google Drive folder for storing videos' }
+      { key: 'google_drive_folder', value: 'YouTube_Automation', description: 'Google Drive folder for storing videos' },
+      { key: 'worker_pool_concurrency', value: JSON.stringify({ llm: 4, tts: 2, render: 1, upload: 2 }), description: 'Maximum concurrent pipeline steps per stage (JSON)' },
+      {
+        key: 'pipeline_definition',
+        value: JSON.stringify({
+          steps: [
+            { id: 'script_generation', dependsOn: [] },
+            { id: 'audio_generation', dependsOn: ['script_generation'] },
+            { id: 'video_creation', dependsOn: ['audio_generation'], options: { timeoutMinutes: 15 } },
+            { id: 'video_processing', dependsOn: ['video_creation'] },
+            { id: 'thumbnail_generation', dependsOn: ['script_generation'] },
+            { id: 'file_organization', dependsOn: ['video_processing', 'thumbnail_generation'] },
+            { id: 'upload_scheduling', dependsOn: ['file_organization'] }
+          ],
+          variants: [
+            { videoType: 'short', steps: { video_creation: { options: { timeoutMinutes: 10 } } } }
+          ]
+        }),
+        description: 'Pipeline steps, their dependencies and per video type/channel options (JSON)'
+      },
+      { key: 'trending_sources', value: JSON.stringify({ googleSearch: { enabled: true }, feeds: [], sitemaps: [], fixtures: { enabled: false, directory: 'fixtures/trending' }, maxArticlesPerSource: 5 }), description: 'Trending topic sources: Custom Search, RSS/Atom feeds, news sitemaps and local fixtures (JSON)' },
+      {
+        key: 'topic_scoring',
+        value: JSON.stringify({
+          weights: { coverage: 0.25, credibility: 0.2, recency: 0.15, quality: 0.15, momentum: 0.15, channelFit: 0.1 },
+          thresholds: { high: 60, medium: 35 },
+          recencyHalfLifeHours: 24,
+          momentumBaselineDays: 7,
+          storySimilarity: 0.5
+        }),
+        description: 'Topic scoring model: signal weights, priority thresholds, recency half-life and keyword momentum window (JSON)'
+      },
+      {
+        key: 'near_duplicates',
+        value: JSON.stringify({ lookbackDays: 7, publishedVideoDays: 90, titleThreshold: 0.7, contentThreshold: 0.5 }),
+        description: 'Near-duplicate topic detection: days of earlier topics and published videos to compare against, title and content similarity thresholds (JSON)'
+      },
+      {
+        key: 'story_clustering',
+        value: JSON.stringify({ enabled: true, minSharedEntities: 2, entityTextSimilarity: 0.3, textSimilarity: 0.6, maxBriefSources: 6, maxBriefWords: 1800 }),
+        description: 'Story clustering: shared entities and text similarity that make articles one story, size of the combined multi-source brief (JSON)'
+      },
+      { key: 'job_recovery', value: JSON.stringify({ enabled: true, staleAfterSeconds: 180, maxRecoveries: 2, defaultAction: 'resume', steps: { youtube_upload: 'fail' } }), description: 'Recovery of jobs interrupted by a restart: stale heartbeat threshold and action per step (JSON)' },
+      { key: 'review_gate', value: JSON.stringify({ videoTypes: { long_form: false, short: false }, channels: {} }), description: 'Require human approval before YouTube upload, per video type or channel (JSON)' },
+      {
+        key: 'production_plan',
+        value: JSON.stringify({
+          slots: [
+            { name: 'daily-long-form', videoType: 'long_form', count: 1, selection: { priorities: ['high', 'medium'], minSearchVolume: 0, deriveFromLongForm: false } },
+            { name: 'daily-short', videoType: 'short', count: 1, selection: { priorities: ['high', 'medium'], minSearchVolume: 0, deriveFromLongForm: false } }
+          ]
+        }),
+        description: 'Videos to create per day, per channel and category, with a topic selection rule per slot (JSON)'
+      },
+      {
+        key: 'topic_selection',
+        value: JSON.stringify({ default: 'priority', channels: {}, freshnessHalfLifeHours: 24, recentCoverageDays: 7 }),
+        description: 'Topic selection strategy for the daily run, per channel: priority, freshness_weighted, category_round_robin, avoid_recently_covered or highest_quality_source (JSON)'
+      },
+      {
+        key: 'notifications',
+        value: JSON.stringify({
+          enabled: false,
+          timezone: 'Asia/Kolkata',
+          email: { enabled: false, host: 'localhost', port: 1025, secure: false, rejectUnauthorized: true, from: 'YouTube Automation <automation@localhost>', to: [] },
+          chat: { enabled: false, textField: 'text' },
+          rules: [
+            { events: ['*'], statuses: ['error'], channels: ['email', 'chat'] },
+            { events: ['HealthChecked'], statuses: ['warning'], channels: ['email', 'chat'] },
+            { events: ['VideoPublished'], channels: ['chat'] }
+          ],
+          quietHours: { enabled: false, start: '23:00', end: '07:00', allowStatuses: ['error'] },
+          digest: { enabled: false, time: '21:00', channels: ['email'] }
+        }),
+        description: 'Email (SMTP) and chat webhook notifications: per-event rules, quiet hours and a daily digest (JSON)'
+      }
     ];
 
     for (const setting of settings) {
@@ -163,6 +363,174 @@ async function seedInitialData() {
       `, [setting.key, setting.value, setting.description]);
     }
 
+    // Space & science niche; existing rows are left alone so edits made through the API survive a re-seed
+    const spaceBoost = ['nasa', 'spacex', 'mars', 'breakthrough', 'discovery'];
+    const spaceTags = ['science', 'space', 'research', 'discovery', 'study'];
+    const categories = [
+      {
+        slug: 'space_news', name: 'Space News',
+        searchQueries: ['space news NASA SpaceX Mars moon'],
+        keywords: ['space', 'nasa', 'spacex', 'rocket', 'mars', 'moon', 'satellite', 'astronaut'],
+        targetSites: ['nasa.gov', 'space.com', 'spacenews.com'],
+        titlePrefixes: ['🚀 BREAKING SPACE:', '🌟 SPACE DISCOVERY:', '🛸 NASA BREAKTHROUGH:'],
+        baseSearchVolume: 150000,
+        tags: [...spaceTags, 'nasa', 'spacex', 'rocket launch'],
+        colors: { background: ['#0b1d3a', '#1f4e99', '#3a7bd5'], text: '#FFFFFF', accent: '#00D4FF', highlight: '#FFD700', shadow: '#000000' },
+        backgroundKeywords: ['rocket', 'launch', 'space', 'satellite', 'earth orbit']
+      },
+      {
+        slug: 'space_facts', name: 'Space Facts',
+        searchQueries: ['space facts astronomy solar system planets'],
+        keywords: ['space', 'astronomy', 'universe', 'galaxy', 'planet', 'solar system', 'star'],
+        targetSites: ['astronomy.com', 'universetoday.com', 'space.com'],
+        titlePrefixes: ['🌌 AMAZING SPACE FACT:', '⭐ COSMIC DISCOVERY:', '🚀 SPACE SCIENCE:'],
+        baseSearchVolume: 120000,
+        tags: [...spaceTags, 'space facts', 'solar system', 'planets'],
+        colors: { background: ['#1a1040', '#4b2a8c', '#7b4fd6'], text: '#FFFFFF', accent: '#FF6B9D', highlight: '#C5A3FF', shadow: '#000000' },
+        backgroundKeywords: ['planets', 'solar system', 'stars', 'galaxy', 'night sky']
+      },
+      {
+        slug: 'space_astronomy', name: 'Astronomy',
+        searchQueries: ['space astronomy telescope exoplanets cosmic'],
+        keywords: ['telescope', 'astronomy', 'cosmic', 'exoplanet', 'galaxy', 'universe'],
+        targetSites: ['astronomy.com', 'universetoday.com', 'nasa.gov'],
+        titlePrefixes: ['🔭 ASTRONOMICAL DISCOVERY:', '🌟 TELESCOPE BREAKTHROUGH:', '🌌 COSMIC PHENOMENON:'],
+        baseSearchVolume: 100000,
+        tags: [...spaceTags, 'astronomy', 'telescope', 'exoplanet'],
+        colors: { background: ['#0d0d2b', '#2e1a5e', '#5b3a9e'], text: '#FFFFFF', accent: '#FFB347', highlight: '#FFD700', shadow: '#000000' },
+        backgroundKeywords: ['nebula', 'telescope', 'galaxy', 'deep space', 'observatory']
+      },
+      {
+        slug: 'earth_space_science', name: 'Earth Science',
+        searchQueries: ['earth science geology climate atmosphere'],
+        keywords: ['earth', 'climate', 'geology', 'atmosphere', 'space'],
+        targetSites: ['nasa.gov', 'nationalgeographic.com', 'phys.org'],
+        titlePrefixes: ['🌍 EARTH FROM SPACE:', '🌎 PLANETARY SCIENCE:', '🌍 SPACE EARTH CONNECTION:'],
+        baseSearchVolume: 90000,
+        tags: [...spaceTags, 'earth science', 'climate', 'geology'],
+        colors: { background: ['#0f3b2e', '#1e6f5c', '#29a17a'], text: '#FFFFFF', accent: '#FFD93D', highlight: '#6BCF7F', shadow: '#000000' },
+        backgroundKeywords: ['earth from space', 'mountains', 'volcano', 'atmosphere', 'ocean']
+      },
+      {
+        slug: 'general_science_facts', name: 'General Science',
+        searchQueries: ['science physics chemistry biology discovery'],
+        keywords: ['science', 'physics', 'chemistry', 'biology', 'research', 'discovery'],
+        targetSites: ['sciencenews.org', 'newscientist.com', 'sciencedaily.com'],
+        titlePrefixes: ['🧬 SCIENCE BREAKTHROUGH:', '⚗️ SCIENTIFIC DISCOVERY:', '🔬 RESEARCH BREAKTHROUGH:'],
+        baseSearchVolume: 110000,
+        tags: [...spaceTags, 'physics', 'chemistry', 'biology'],
+        colors: { background: ['#2d3748', '#38a169', '#68d391'], text: '#FFFFFF', accent: '#FF6B9D', highlight: '#C5A3FF', shadow: '#000000' },
+        backgroundKeywords: ['science', 'laboratory', 'research', 'microscope', 'discovery']
+      },
+      {
+        slug: 'nature_environment_cosmic', name: 'Nature & Environment',
+        searchQueries: ['environment nature universe cosmic ecology'],
+        keywords: ['environment', 'nature', 'cosmic', 'universe', 'space', 'ecology'],
+        targetSites: ['nationalgeographic.com', 'smithsonianmag.com', 'phys.org'],
+        titlePrefixes: ['🌿 COSMIC NATURE:', '🌱 SPACE ENVIRONMENT:', '🌺 UNIVERSAL CONNECTION:'],
+        baseSearchVolume: 80000,
+        tags: [...spaceTags, 'nature', 'environment', 'ecology'],
+        colors: { background: ['#1b4332', '#56AB2F', '#A8E6CF'], text: '#FFFFFF', accent: '#FFD93D', highlight: '#6BCF7F', shadow: '#000000' },
+        backgroundKeywords: ['nature', 'forest', 'aurora', 'landscape', 'wildlife']
+      }
+    ];
+
+    // Slugs that topics and jobs from before the space niche still carry. They keep the YouTube
+    // category, tags and look they were created with but are inactive, so nothing new is searched.
+    const legacyCategories = [
+      {
+        slug: 'technology', name: 'Technology', youtubeCategoryId: '28', // Science & Technology
+        keywords: ['technology', 'tech', 'innovation', 'digital', 'ai'],
+        tags: ['tech', 'innovation', 'digital', 'ai', 'startup'],
+        colors: { background: ['#1a365d', '#2b77e6', '#4299e1'], text: '#FFFFFF', accent: '#00D4FF', highlight: '#FFD700', shadow: '#000000' },
+        backgroundKeywords: ['technology', 'innovation', 'digital', 'future', 'AI', 'computer']
+      },
+      {
+        slug: 'science', name: 'Science', youtubeCategoryId: '28', // Science & Technology
+        keywords: ['science', 'research', 'discovery', 'study'],
+        tags: ['science', 'research', 'discovery', 'space', 'study'],
+        colors: { background: ['#2d3748', '#38a169', '#68d391'], text: '#FFFFFF', accent: '#FF6B9D', highlight: '#C5A3FF', shadow: '#000000' },
+        backgroundKeywords: ['science', 'research', 'laboratory', 'discovery', 'space', 'nature']
+      },
+      {
+        slug: 'business', name: 'Business', youtubeCategoryId: '25', // News & Politics
+        keywords: ['business', 'economy', 'startup', 'funding', 'investment'],
+        tags: ['startup', 'funding', 'economy', 'business', 'investment'],
+        colors: { background: ['#1a202c', '#e53e3e', '#fc8181'], text: '#FFFFFF', accent: '#00FF87', highlight: '#FFD700', shadow: '#000000' },
+        backgroundKeywords: ['business', 'finance', 'corporate', 'economy', 'growth', 'success']
+      },
+      {
+        slug: 'news', name: 'News', youtubeCategoryId: '22', // People & Blogs
+        keywords: ['news', 'breaking', 'world'],
+        tags: ['update', 'information', 'facts', 'knowledge', 'learn'],
+        colors: { background: ['#2c5282', '#3182ce', '#63b3ed'], text: '#FFFFFF', accent: '#00D4FF', highlight: '#FFD700', shadow: '#000000' },
+        backgroundKeywords: ['news', 'media', 'journalism', 'world', 'global', 'breaking']
+      },
+      {
+        slug: 'sports', name: 'Sports', youtubeCategoryId: '17', // Sports
+        keywords: ['sports', 'cricket', 'football', 'match'],
+        tags: ['cricket', 'football', 'ipl', 'sports', 'match'],
+        colors: { background: ['#FF416C', '#FF4B2B'], text: '#FFFFFF', accent: '#00FF87', highlight: '#FFD700', shadow: '#000000' },
+        backgroundKeywords: ['sports', 'action', 'dynamic', 'stadium']
+      },
+      {
+        slug: 'politics', name: 'Politics', youtubeCategoryId: '25', // News & Politics
+        keywords: ['politics', 'government', 'policy', 'election', 'minister'],
+        tags: ['government', 'policy', 'election', 'politics', 'minister'],
+        colors: { background: ['#FC466B', '#3F5EFB'], text: '#FFFFFF', accent: '#FFD700', highlight: '#00FF87', shadow: '#000000' },
+        backgroundKeywords: ['government', 'politics', 'news', 'serious']
+      },
+      {
+        slug: 'health', name: 'Health', youtubeCategoryId: '26', // Howto & Style
+        keywords: ['health', 'medical', 'wellness', 'healthcare'],
+        tags: ['health', 'medical', 'wellness', 'healthcare', 'doctor'],
+        colors: { background: ['#FDBB2D', '#22C1C3'], text: '#FFFFFF', accent: '#FF6B6B', highlight: '#4ECDC4', shadow: '#000000' },
+        backgroundKeywords: ['healthcare', 'medical', 'wellness', 'clean']
+      },
+      {
+        slug: 'environment', name: 'Environment', youtubeCategoryId: '28', // Science & Technology
+        keywords: ['environment', 'climate', 'sustainability', 'nature'],
+        tags: ['climate', 'environment', 'green', 'sustainability', 'nature'],
+        colors: { background: ['#56AB2F', '#A8E6CF'], text: '#FFFFFF', accent: '#FFD93D', highlight: '#6BCF7F', shadow: '#000000' },
+        backgroundKeywords: ['nature', 'environment', 'green', 'sustainability']
+      }
+    ];
+
+    const categoryRows = [
+      ...categories.map(category => ({ ...category, isActive: true, youtubeCategoryId: '28', boostKeywords: spaceBoost })),
+      ...legacyCategories.map(category => ({
+        ...category,
+        isActive: false,
+        searchQueries: [] as string[],
+        boostKeywords: [] as string[],
+        targetSites: [] as string[],
+        titlePrefixes: ['🔥 TRENDING:'],
+        baseSearchVolume: 100000
+      }))
+    ];
+
+    for (const category of categoryRows) {
+      await client.query(`
+        INSERT INTO content_categories (slug, name, is_active, search_queries, keywords, boost_keywords, target_sites, title_prefixes, base_search_volume, youtube_category_id, tags, colors, background_keywords)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+        ON CONFLICT (slug) DO NOTHING;
+      `, [
+        category.slug,
+        category.name,
+        category.isActive,
+        JSON.stringify(category.searchQueries),
+        JSON.stringify(category.keywords),
+        JSON.stringify(category.boostKeywords),
+        JSON.stringify(category.targetSites),
+        JSON.stringify(category.titlePrefixes),
+        category.baseSearchVolume,
+        category.youtubeCategoryId,
+        JSON.stringify(category.tags),
+        JSON.stringify(category.colors),
+        JSON.stringify(category.backgroundKeywords)
+      ]);
+    }
+
     // Insert current system stats
     const today = new Date().toISOString().split('T')[0];
     await client.query(`
@@ -0,0 +1,271 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { storage } from '../storage';
+import { pipelineEvents } from '../services/event-bus';
+import { contentGenerator } from '../services/content-generator';
+import { automationPipeline } from './pipeline';
+import type {
+  ContentJob,
+  PipelineStep,
+  JobArtifact,
+  JobArtifactSnapshot,
+  JobArtifactVersion,
+  JobCheckpoints
+} from '@shared/schema';
+import { jobMetadata } from '@shared/schema';
+
+interface ArtifactDefinition {
+  steps: PipelineStep[]; // steps that produce the artifact
+  fields: Array<'script' | 'title' | 'videoPath' | 'thumbnailPath'>;
+  metadataKeys: string[];
+  dependents: PipelineStep[]; // steps that consume it and must run again
+}
+
+export const JOB_ARTIFACTS: Record<JobArtifact, ArtifactDefinition> = {
+  script: {
+    steps: ['script_generation'],
+    fields: ['script'],
+    metadataKeys: [],
+    dependents: ['audio_generation', 'video_creation', 'video_processing', 'file_organization', 'upload_scheduling']
+  },
+  audio: {
+    steps: ['audio_generation'],
+    fields: [],
+    metadataKeys: ['narrationVoice'],
+    dependents: ['video_creation', 'video_processing', 'file_organization', 'upload_scheduling']
+  },
+  video: {
+    steps: ['video_creation', 'video_processing'],
+    fields: ['videoPath'],
+    metadataKeys: [],
+    dependents: ['file_organization', 'upload_scheduling']
+  },
+  thumbnail: {
+    steps: ['thumbnail_generation'],
+    fields: ['thumbnailPath'],
+    metadataKeys: [],
+    dependents: ['file_organization', 'upload_scheduling']
+  },
+  metadata: {
+    steps: [],
+    fields: ['title'],
+    metadataKeys: ['youtubeDescription', 'youtubeTags'],
+    // The title is drawn on the thumbnail
+    dependents: ['thumbnail_generation', 'file_organization', 'upload_scheduling']
+  }
+};
+
+export interface RegenerateOptions {
+  voice?: string; // audio
+  title?: string; // metadata
+  description?: string; // metadata
+  tags?: string[]; // metadata
+}
+
+// Published or in-flight jobs can't have their artifacts swapped out
+const LOCKED_STATUSES = ['uploading', 'completed'];
+
+export function isJobArtifact(value: string): value is JobArtifact {
+  return value in JOB_ARTIFACTS;
+}
+
+// Shorts cut from a long-form video reuse its narration
+export function isDerivedShort(job: ContentJob): boolean {
+  return !!jobMetadata(job).derivedFrom;
+}
+
+export class ArtifactManager {
+  private versionsDir = path.join(process.cwd(), 'generated', 'versions');
+
+  async listVersions(jobId: number, artifact?: JobArtifact): Promise<JobArtifactVersion[]> {
+    return await storage.getArtifactVersions(jobId, artifact);
+  }
+
+  // Archives the current artifact, then re-runs its steps and everything that depends on it
+  async regenerate(jobId: number, artifact: JobArtifact, options: RegenerateOptions = {}): Promise<ContentJob> {
+    const job = await this.getEditableJob(jobId);
+    const definition = JOB_ARTIFACTS[artifact];
+
+    // A derived Short's script is the excerpt its audio is cut to; a new LLM script wouldn't match it
+    if (artifact === 'script' && isDerivedShort(job)) {
+      throw new Error(`Job ${jobId} is a Short cut from job ${jobMetadata(job).derivedFrom!.jobId} - its script can't be regenerated`);
+    }
+
+    await this.archiveCurrent(job, artifact, 'regenerate');
+
+    if (artifact === 'audio' && options.voice) {
+      await storage.mergeContentJobMetadata(jobId, { narrationVoice: options.voice });
+    }
+
+    if (artifact === 'metadata') {
+      const title = options.title?.trim() || await contentGenerator.regenerateTitle(job);
+      await storage.updateContentJob(jobId, { title });
+
+      const patch: Record<string, any> = {};
+      if (options.description !== undefined) patch.youtubeDescription = options.description;
+      if (options.tags !== undefined) patch.youtubeTags = options.tags;
+      if (Object.keys(patch).length > 0) {
+        await storage.mergeContentJobMetadata(jobId, patch);
+      }
+    }
+
+    const rerun = [...definition.steps, ...definition.dependents];
+    await storage.clearJobCheckpoints(jobId, rerun);
+
+    await this.logChange(job, artifact, 'regenerate', `Regenerating ${artifact} - re-running ${rerun.join(', ')}`);
+    return this.rerun(jobId);
+  }
+
+  // Restores an archived version (archiving the current one first) and re-runs the dependent steps
+  async rollback(jobId: number, artifact: JobArtifact, version: number): Promise<ContentJob> {
+    const job = await this.getEditableJob(jobId);
+    const definition = JOB_ARTIFACTS[artifact];
+
+    const target = await storage.getArtifactVersion(jobId, artifact, version);
+    if (!target) {
+      throw new Error(`Version ${version} of ${artifact} not found for job ${jobId}`);
+    }
+
+    const snapshot = target.data as JobArtifactSnapshot;
+    await this.assertFilesExist(snapshot);
+    await this.archiveCurrent(job, artifact, 'rollback');
+
+    const { metadata, ...fields } = snapshot.fields;
+    if (Object.keys(fields).length > 0) {
+      await storage.updateContentJob(jobId, fields);
+    }
+    if (metadata && Object.keys(metadata).length > 0) {
+      await storage.mergeContentJobMetadata(jobId, metadata as Record<string, any>);
+    }
+
+    await storage.clearJobCheckpoints(jobId, [...definition.steps, ...definition.dependents]);
+    for (const step of definition.steps) {
+      const checkpoint = snapshot.checkpoints[step];
+      if (checkpoint) {
+        await storage.saveJobCheckpoint(jobId, step, checkpoint.output, checkpoint.durationMs);
+      }
+    }
+
+    await this.logChange(job, artifact, 'rollback', `Rolled ${artifact} back to version ${version}`);
+    return this.rerun(jobId);
+  }
+
+  private async getEditableJob(jobId: number): Promise<ContentJob> {
+    const job = await storage.getContentJobById(jobId);
+    if (!job) {
+      throw new Error('Job not found');
+    }
+
+    if (automationPipeline.isJobRunning(jobId)) {
+      throw new Error(`Job ${jobId} is still running`);
+    }
+
+    if (LOCKED_STATUSES.includes(job.status)) {
+      throw new Error(`Job ${jobId} is ${job.status} - artifacts can no longer be changed`);
+    }
+
+    return job;
+  }
+
+  // Copies the artifact's files out of the way because the next run writes to the same paths
+  private async archiveCurrent(job: ContentJob, artifact: JobArtifact, reason: string): Promise<JobArtifactVersion | null> {
+    const definition = JOB_ARTIFACTS[artifact];
+    const checkpoints = (job.checkpoints as JobCheckpoints | null) || {};
+    const metadata = jobMetadata(job);
+    const archiveDir = path.join(this.versionsDir, String(job.id));
+    const stamp = Date.now();
+
+    const snapshot: JobArtifactSnapshot = { fields: {}, checkpoints: {} };
+    const archived = new Map<string, string>();
+
+    const archiveFile = async (filePath: string): Promise<string> => {
+      if (!archived.has(filePath)) {
+        await fs.mkdir(archiveDir, { recursive: true });
+        const target = path.join(archiveDir, `${artifact}_${stamp}_${path.basename(filePath)}`);
+        await fs.copyFile(filePath, target);
+        archived.set(filePath, target);
+      }
+      return archived.get(filePath)!;
+    };
+
+    for (const step of definition.steps) {
+      const checkpoint = checkpoints[step];
+      if (!checkpoint) continue;
+
+      const output: Record<string, any> = { ...checkpoint.output };
+      for (const [key, value] of Object.entries(output)) {
+        if (key.endsWith('Path') && typeof value === 'string' && await this.fileExists(value)) {
+          output[key] = await archiveFile(value);
+        }
+      }
+      snapshot.checkpoints[step] = { ...checkpoint, output };
+    }
+
+    for (const field of definition.fields) {
+      const value = job[field];
+      if (!value) continue;
+      snapshot.fields[field] = field.endsWith('Path') && await this.fileExists(value)
+        ? await archiveFile(value)
+        : value;
+    }
+
+    const archivedMetadata = Object.fromEntries(
+      definition.metadataKeys.filter(key => metadata[key] !== undefined).map(key => [key, metadata[key]])
+    );
+    if (Object.keys(archivedMetadata).length > 0) {
+      snapshot.fields.metadata = archivedMetadata;
+    }
+
+    if (Object.keys(snapshot.fields).length === 0 && Object.keys(snapshot.checkpoints).length === 0) {
+      return null;
+    }
+
+    const version = await storage.createArtifactVersion(job.id, artifact, snapshot, reason);
+    console.log(`🗂️ Archived ${artifact} v${version.version} for job ${job.id}`);
+    return version;
+  }
+
+  private async assertFilesExist(snapshot: JobArtifactSnapshot): Promise<void> {
+    const paths = [
+      ...Object.values(snapshot.checkpoints).flatMap(checkpoint =>
+        Object.entries(checkpoint?.output || {})
+          .filter(([key, value]) => key.endsWith('Path') && typeof value === 'string')
+          .map(([, value]) => value as string)
+      ),
+      snapshot.fields.videoPath,
+      snapshot.fields.thumbnailPath
+    ].filter((value): value is string => !!value);
+
+    for (const filePath of paths) {
+      if (!await this.fileExists(filePath)) {
+        throw new Error(`Archived file missing: ${filePath}`);
+      }
+    }
+  }
+
+  private async fileExists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async rerun(jobId: number): Promise<ContentJob> {
+    // Back through the pipeline - and the review gate - with the new artifact
+    await storage.updateContentJob(jobId, { status: 'pending', errorMessage: null });
+
+    automationPipeline.resumeJob(jobId).catch(error => {
+      console.error(`❌ Re-run after artifact change failed for job ${jobId}:`, error);
+    });
+
+    return (await storage.getContentJobById(jobId))!;
+  }
+
+  private async logChange(job: ContentJob, artifact: JobArtifact, action: 'regenerate' | 'rollback', details: string): Promise<void> {
+    await pipelineEvents.publish({ type: 'ArtifactChanged', jobId: job.id, title: job.title, artifact, action, details });
+  }
+}
+
+export const artifactManager = new ArtifactManager();
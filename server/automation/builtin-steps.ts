@@ -0,0 +1,435 @@
+import { storage } from '../storage';
+import { pipelineEvents } from '../services/event-bus';
+import { contentGenerator } from '../services/content-generator';
+import { videoCreator } from '../services/video-creator';
+import { thumbnailGenerator } from '../services/thumbnail-generator';
+import { youtubeUploader } from '../services/youtube-uploader';
+import { storageManager } from '../services/storage-manager';
+import { shortDeriver } from '../services/short-deriver';
+import { promises as fs } from 'fs';
+import { z } from 'zod';
+import { loadReviewGate, requiresReview } from './review-gate';
+import { CancellationToken } from '../services/cancellation';
+import type { PipelineStepDefinition, StepContext, StepOutput } from './step-registry';
+import { jobMetadata, type ContentJob, type DerivedFrom } from '@shared/schema';
+
+export function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
+
+async function runScriptGeneration({ job }: StepContext): Promise<StepOutput> {
+  console.log('📝 Starting script generation...');
+  await storage.updateContentJob(job.id, {
+    status: 'script_generation',
+    progress: 10
+  });
+
+  await pipelineEvents.publish({
+    type: 'JobStepStarted',
+    jobId: job.id,
+    step: 'script_generation',
+    message: `Starting ${job.videoType} script generation for topic ${job.topicId}`,
+    details: 'AI script generation in progress using Gemini AI',
+    progress: 10
+  });
+
+  const script = await contentGenerator.generateScriptForJob(job);
+
+  return {
+    title: job.title,
+    wordCount: script.split(' ').length,
+    scriptLength: script.length
+  };
+}
+
+async function runAudioGeneration({ job, token }: StepContext): Promise<StepOutput> {
+  console.log('🎵 Starting audio generation...');
+  await storage.updateContentJob(job.id, {
+    status: 'audio_generation',
+    progress: 30
+  });
+  
+  await pipelineEvents.publish({
+    type: 'JobStepStarted',
+    jobId: job.id,
+    step: 'audio_generation',
+    message: 'Starting professional TTS audio generation',
+    details: 'Converting script to high-quality speech with Indian accent',
+    progress: 30
+  });
+
+  const startedAt = Date.now();
+  const { derivedFrom } = jobMetadata(job);
+  const narration = derivedFrom
+    ? await cutDerivedNarration(job, derivedFrom, token)
+    : await videoCreator.createNarration(job.id, token);
+  const elapsedSeconds = Math.round((Date.now() - startedAt) / 1000);
+
+  const output = {
+    audioPath: narration.audioPath,
+    duration: Math.round(narration.duration),
+    fileSize: `${Math.round(narration.fileSize / 1024)}KB`,
+    voice: narration.voice,
+    enhanced: narration.enhanced
+  };
+  
+  await pipelineEvents.publish({
+    type: 'JobStepCompleted',
+    jobId: job.id,
+    step: 'audio_generation',
+    message: 'TTS audio generation completed',
+    details: `Generated ${formatDuration(narration.duration)} of narration with ${narration.voice} in ${elapsedSeconds}s${narration.enhanced ? ' (audio enhanced)' : ''}`,
+    progress: 100,
+    metadata: { ...output, elapsedSeconds, finalScript: job.script }
+  });
+
+  return output;
+}
+
+async function runVideoCreation({ job, checkpoints, options, token }: StepContext): Promise<StepOutput> {
+  const videoType = job.videoType;
+  const audioPath: string | undefined = checkpoints.audio_generation?.output.audioPath;
+
+  if (!audioPath) {
+    throw new Error('Narration audio missing - audio_generation must complete first');
+  }
+
+  console.log('🎬 Starting video creation...');
+  await storage.updateContentJob(job.id, {
+    status: 'video_creation',
+    progress: 40
+  });
+  
+  await pipelineEvents.publish({
+    type: 'JobStepStarted',
+    jobId: job.id,
+    step: 'video_creation',
+    message: 'Starting professional video creation',
+    details: 'Creating video with broadcast-quality effects, animations, and visual elements',
+    progress: 40
+  });
+
+  // Timeout so a stuck render doesn't hold the render slot forever; set per video type in the pipeline definition
+  const timeoutDuration = options.timeoutMinutes * 60000;
+  const { derivedFrom } = jobMetadata(job);
+
+  // The render gets its own token so a timeout kills ffmpeg without cancelling the whole job
+  const renderToken = new CancellationToken(job.id);
+  const forwardCancel = () => renderToken.cancel(token.reason || 'Cancelled');
+  if (token.isCancelled) forwardCancel();
+  token.signal.addEventListener('abort', forwardCancel, { once: true });
+
+  const videoCreationPromise = derivedFrom
+    ? shortDeriver.cutVerticalVideo(derivedFrom.sourceVideo, derivedFrom.segment, job.id, renderToken)
+    : videoCreator.createVideo(job.id, audioPath, renderToken);
+  let timedOut = false;
+  const timeoutTimer = setTimeout(() => {
+    timedOut = true;
+    renderToken.cancel(`Video creation timeout after ${timeoutDuration/60000} minutes`);
+  }, timeoutDuration);
+  
+  console.log(`⏱️ Starting video creation with ${timeoutDuration/60000} minute timeout...`);
+  const startedAt = Date.now();
+  let videoPath: string;
+  try {
+    // Settles only once the killed child process has exited, so a retry never renders next to it
+    videoPath = await videoCreationPromise;
+  } catch (error) {
+    if (timedOut && !token.isCancelled) {
+      throw new Error(`Video creation timeout after ${timeoutDuration/60000} minutes`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutTimer);
+    token.signal.removeEventListener('abort', forwardCancel);
+  }
+  const elapsedSeconds = Math.round((Date.now() - startedAt) / 1000);
+  
+  console.log(`✅ Video creation completed: ${videoPath}`);
+
+  const videoInfo = await videoCreator.inspectVideo(videoPath, token);
+  const output = {
+    videoPath,
+    duration: videoInfo.duration,
+    fileSize: `${Math.round(videoInfo.fileSize / 1024)}KB`,
+    resolution: videoInfo.resolution
+  };
+  
+  await pipelineEvents.publish({
+    type: 'JobStepCompleted',
+    jobId: job.id,
+    step: 'video_creation',
+    message: 'Professional video creation completed',
+    details: `Rendered ${formatDuration(videoInfo.duration)} ${videoType} video at ${videoInfo.resolution} in ${elapsedSeconds}s`,
+    progress: 60,
+    metadata: { ...output, elapsedSeconds }
+  });
+
+  return output;
+}
+
+// Derived Shorts reuse the parent's narration instead of running TTS again
+async function cutDerivedNarration(job: ContentJob, derivedFrom: DerivedFrom, token: CancellationToken) {
+  const audioPath = await shortDeriver.cutAudio(derivedFrom.sourceVideo, derivedFrom.segment, job.id, token);
+  const stats = await fs.stat(audioPath);
+
+  return {
+    audioPath,
+    duration: derivedFrom.segment.duration,
+    fileSize: stats.size,
+    voice: derivedFrom.voice || `job ${derivedFrom.jobId} narration`,
+    enhanced: false
+  };
+}
+
+async function runVideoProcessing({ job, checkpoints, token }: StepContext): Promise<StepOutput> {
+  const inputPath: string | undefined = checkpoints.video_creation?.output.videoPath;
+
+  if (!inputPath) {
+    throw new Error('Rendered video missing - video_creation must complete first');
+  }
+
+  console.log('🔄 Starting MP4 conversion...');
+  await storage.updateContentJob(job.id, {
+    status: 'video_processing',
+    progress: 60
+  });
+  
+  await pipelineEvents.publish({
+    type: 'JobStepStarted',
+    jobId: job.id,
+    step: 'video_processing',
+    message: 'Starting final MP4 conversion and optimization',
+    details: 'Optimizing video for YouTube upload with best quality settings',
+    progress: 60
+  });
+
+  const startedAt = Date.now();
+  const videoInfo = await videoCreator.optimizeVideo(job.id, inputPath, token);
+  const elapsedSeconds = Math.round((Date.now() - startedAt) / 1000);
+
+  const videoMetadata = {
+    videoPath: videoInfo.videoPath,
+    duration: videoInfo.duration,
+    fileSize: `${Math.round(videoInfo.fileSize / 1024)}KB`,
+    resolution: videoInfo.resolution,
+    format: 'MP4',
+    videoCodec: videoInfo.videoCodec,
+    audioCodec: videoInfo.audioCodec,
+    createdAt: new Date().toISOString()
+  };
+
+  await storage.updateContentJob(job.id, { videoPath: videoInfo.videoPath });
+  await storage.mergeContentJobMetadata(job.id, videoMetadata);
+  
+  await pipelineEvents.publish({
+    type: 'JobStepCompleted',
+    jobId: job.id,
+    step: 'video_processing',
+    message: 'MP4 conversion and optimization completed',
+    details: `Encoded ${formatDuration(videoInfo.duration)} at ${videoInfo.resolution} (${videoInfo.videoCodec}/${videoInfo.audioCodec}) in ${elapsedSeconds}s`,
+    progress: 75,
+    metadata: { ...videoMetadata, audioEmbedded: videoInfo.hasAudio, elapsedSeconds }
+  });
+
+  return videoMetadata;
+}
+
+async function runThumbnailGeneration({ job, token }: StepContext): Promise<StepOutput> {
+  console.log('🖼️ Starting thumbnail generation...');
+  await storage.updateContentJob(job.id, {
+    status: 'thumbnail_generation',
+    progress: 75
+  });
+  
+  await pipelineEvents.publish({
+    type: 'JobStepStarted',
+    jobId: job.id,
+    step: 'thumbnail_generation',
+    message: 'Generating eye-catching thumbnail with AI',
+    details: 'Creating professional thumbnail designed for maximum click-through rate',
+    progress: 75
+  });
+
+  const thumbnailPath = await thumbnailGenerator.generateThumbnail(job.id, token);
+  
+  await pipelineEvents.publish({
+    type: 'JobStepCompleted',
+    jobId: job.id,
+    step: 'thumbnail_generation',
+    message: 'Thumbnail generated successfully',
+    details: 'Created optimized thumbnail with compelling visuals and text',
+    progress: 85,
+    metadata: { thumbnailPath, resolution: job.videoType === 'short' ? '1080x1920' : '1280x720' }
+  });
+
+  return { thumbnailPath };
+}
+
+async function runFileOrganization({ job, checkpoints }: StepContext): Promise<StepOutput> {
+  const videoPath = checkpoints.video_processing?.output.videoPath || job.videoPath;
+  const thumbnailPath = checkpoints.thumbnail_generation?.output.thumbnailPath || job.thumbnailPath;
+
+  if (!videoPath || !thumbnailPath) {
+    throw new Error('Video or thumbnail missing - cannot organize files');
+  }
+
+  console.log('☁️ Starting Google Drive upload...');
+  await storage.updateContentJob(job.id, {
+    status: 'file_organization',
+    progress: 85
+  });
+  
+  await pipelineEvents.publish({
+    type: 'JobStepStarted',
+    jobId: job.id,
+    step: 'file_organization',
+    message: 'Uploading complete video package to Google Drive',
+    details: 'Organizing and uploading final MP4 video and thumbnail to cloud storage',
+    progress: 85
+  });
+
+  const { videoUrl, thumbnailUrl } = await storageManager.organizeFiles(
+    videoPath, 
+    thumbnailPath, 
+    job.id
+  );
+
+  await storage.updateContentJob(job.id, { driveUrl: videoUrl });
+  
+  await pipelineEvents.publish({
+    type: 'JobStepCompleted',
+    jobId: job.id,
+    step: 'file_organization',
+    message: 'Files successfully uploaded to Google Drive',
+    details: 'Video and thumbnail securely stored in organized folder structure. Click links to view files.',
+    progress: 100,
+    metadata: { 
+      videoUrl, 
+      thumbnailUrl,
+      videoLink: videoUrl,
+      thumbnailLink: thumbnailUrl,
+      driveFolder: 'YouTube Automation Videos'
+    }
+  });
+
+  return { videoUrl, thumbnailUrl };
+}
+
+async function runUploadScheduling({ job, checkpoints }: StepContext): Promise<StepOutput> {
+  const videoType = job.videoType as 'long_form' | 'short';
+  const videoUrl = checkpoints.file_organization?.output.videoUrl || job.driveUrl;
+  const thumbnailUrl = checkpoints.file_organization?.output.thumbnailUrl;
+
+  console.log('📅 Scheduling YouTube upload...');
+  await storage.updateContentJob(job.id, {
+    status: 'scheduling_upload',
+    progress: 95
+  });
+  
+  await pipelineEvents.publish({
+    type: 'JobStepStarted',
+    jobId: job.id,
+    step: 'upload_scheduling',
+    message: 'Scheduling optimal YouTube upload time',
+    details: 'Calculating best upload time based on audience analytics and engagement patterns',
+    progress: 95
+  });
+
+  const optimalTime = youtubeUploader.getOptimalUploadTime(videoType);
+  const channelId = job.channelId || youtubeUploader.getChannelId() || null;
+  const reviewRequired = requiresReview(await loadReviewGate(), { videoType, channelId });
+  
+  // Final job update - ready for upload, or held until someone approves it
+  await storage.updateContentJob(job.id, {
+    driveUrl: videoUrl,
+    channelId,
+    scheduledTime: optimalTime,
+    status: reviewRequired ? 'awaiting_review' : 'ready_for_upload',
+    progress: 100
+  });
+
+  await pipelineEvents.publish({
+    type: 'JobStepCompleted',
+    jobId: job.id,
+    step: 'upload_scheduling',
+    message: reviewRequired
+      ? 'Video scheduled - waiting for review before YouTube upload'
+      : 'Video successfully scheduled for YouTube upload',
+    details: reviewRequired
+      ? `Pipeline completed! Scheduled for ${optimalTime.toLocaleString()} - approve the video to allow the upload`
+      : `Pipeline completed! Scheduled for ${optimalTime.toLocaleString()} - ready for automatic upload`,
+    progress: 100,
+    metadata: { 
+      scheduledTime: optimalTime.toISOString(), 
+      videoType,
+      channelId,
+      reviewRequired,
+      driveUrl: videoUrl,
+      thumbnailUrl: thumbnailUrl 
+    }
+  });
+
+  if (reviewRequired) {
+    await pipelineEvents.publish({
+      type: 'JobAwaitingReview',
+      jobId: job.id,
+      title: job.title,
+      videoType,
+      channelId,
+      scheduledTime: optimalTime.toISOString()
+    });
+  }
+
+  return { scheduledTime: optimalTime.toISOString(), reviewRequired };
+}
+
+// The steps that ship with the pipeline, wrapping the content, video, thumbnail, storage and upload services
+export const BUILT_IN_STEPS: PipelineStepDefinition[] = [
+  {
+    id: 'script_generation',
+    description: 'Write the script with the LLM',
+    stage: 'llm',
+    run: runScriptGeneration
+  },
+  {
+    id: 'audio_generation',
+    description: 'Narrate the script with TTS (derived Shorts cut the parent narration instead)',
+    stage: 'tts',
+    run: runAudioGeneration
+  },
+  {
+    id: 'video_creation',
+    description: 'Render the video from the narration',
+    stage: 'render',
+    optionsSchema: z.object({
+      timeoutMinutes: z.number().positive().max(180).default(15)
+    }),
+    run: runVideoCreation
+  },
+  {
+    id: 'video_processing',
+    description: 'Encode the final MP4 for YouTube',
+    stage: 'render',
+    run: runVideoProcessing
+  },
+  {
+    id: 'thumbnail_generation',
+    description: 'Generate the thumbnail',
+    stage: null,
+    run: runThumbnailGeneration
+  },
+  {
+    id: 'file_organization',
+    description: 'Upload the video and thumbnail to Google Drive',
+    stage: 'upload',
+    run: runFileOrganization
+  },
+  {
+    id: 'upload_scheduling',
+    description: 'Pick the upload time and hand the job to review or the uploader',
+    stage: null,
+    run: runUploadScheduling
+  }
+];
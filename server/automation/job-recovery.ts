@@ -0,0 +1,278 @@
+import { z } from 'zod';
+import { storage } from '../storage';
+import { pipelineEvents } from '../services/event-bus';
+import { automationPipeline } from './pipeline';
+import { workerPool } from './worker-pool';
+import { leaseManager, instanceId } from './leases';
+import { jobMetadata, type ContentJob } from '@shared/schema';
+
+export const JOB_RECOVERY_SETTING_KEY = 'job_recovery';
+
+const RECOVERY_ACTIONS = ['resume', 'retry', 'fail'] as const;
+export type RecoveryAction = typeof RECOVERY_ACTIONS[number];
+
+// Recovery policy key for jobs interrupted while uploading to YouTube
+const UPLOAD_STEP = 'youtube_upload';
+
+// Statuses a job only has while a process is working on it
+const IN_FLIGHT_STATUSES = [
+  'queued',
+  'script_generation',
+  'audio_generation',
+  'video_creation',
+  'video_processing',
+  'thumbnail_generation',
+  'file_organization',
+  'scheduling_upload',
+  'uploading'
+];
+
+// Left by a graceful shutdown at a step boundary; no owner, always resumed
+const INTERRUPTED_STATUS = 'interrupted';
+const RECOVERABLE_STATUSES = [...IN_FLIGHT_STATUSES, INTERRUPTED_STATUS];
+
+export const jobRecoveryConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  staleAfterSeconds: z.number().int().min(60).default(180), // owners write a heartbeat every 30s
+  // A job that keeps taking its process down fails instead of being picked up again
+  maxRecoveries: z.number().int().min(0).max(10).default(2),
+  // resume: continue from the saved checkpoints
+  // retry: start the job over from its first step (an upload goes back to ready_for_upload -
+  //        risky, YouTube may have accepted the first upload before the process stopped)
+  // fail: mark it failed - it can still be resumed by hand
+  defaultAction: z.enum(RECOVERY_ACTIONS).default('resume'),
+  steps: z.record(z.string(), z.enum(RECOVERY_ACTIONS)).default({}) // per step id, plus "youtube_upload"
+});
+
+export type JobRecoveryConfig = z.infer<typeof jobRecoveryConfigSchema>;
+
+// An interrupted upload fails for someone to check the channel; uploading again could publish twice
+export const DEFAULT_JOB_RECOVERY: JobRecoveryConfig = jobRecoveryConfigSchema.parse({
+  steps: { [UPLOAD_STEP]: 'fail' }
+});
+
+export interface RecoveryResult {
+  jobId: number;
+  step: string | null;
+  action: RecoveryAction;
+  reason: string;
+}
+
+export async function loadJobRecovery(): Promise<JobRecoveryConfig> {
+  try {
+    const setting = await storage.getAutomationSetting(JOB_RECOVERY_SETTING_KEY);
+    if (!setting) {
+      return DEFAULT_JOB_RECOVERY;
+    }
+    return jobRecoveryConfigSchema.parse(JSON.parse(setting.value));
+  } catch (error) {
+    console.warn('⚠️ Invalid job recovery setting, using defaults:', error instanceof Error ? error.message : error);
+    return DEFAULT_JOB_RECOVERY;
+  }
+}
+
+// Seconds since the owner last proved it was alive; jobs from before heartbeats fall back to updated_at
+export function heartbeatAge(job: ContentJob, now: Date = new Date()): number {
+  const lastSeen = job.heartbeatAt || job.updatedAt;
+  return Math.round((now.getTime() - lastSeen.getTime()) / 1000);
+}
+
+export class JobRecovery {
+  // Heartbeat already reported per job, so the watchdog flags each stall once
+  private flagged = new Map<number, string>();
+
+  // Runs once on boot, before the scheduler hands out any work
+  async recoverOnStartup(): Promise<RecoveryResult[]> {
+    const results: RecoveryResult[] = [];
+    try {
+      const config = await loadJobRecovery();
+
+      // Our queue entries belong to the process that stopped; recovered jobs queue up again
+      await workerPool.reset(config.staleAfterSeconds);
+
+      if (!config.enabled) {
+        console.log('⏸️ Job recovery is disabled - interrupted jobs are left as they are');
+        return results;
+      }
+
+      const jobs = await storage.getContentJobsByStatuses(RECOVERABLE_STATUSES);
+      for (const job of jobs) {
+        if (job.status === INTERRUPTED_STATUS) {
+          const result = await this.recoverJob(job.id, config, 'interrupted by a graceful shutdown', true);
+          if (result) results.push(result);
+          continue;
+        }
+
+        // With a stable INSTANCE_ID our own earlier run shows up as the owner; anything it owned is dead
+        const ownedByPreviousRun = job.ownerInstance === instanceId;
+        if (!ownedByPreviousRun && heartbeatAge(job) < config.staleAfterSeconds) {
+          console.log(`⏭️ Job ${job.id} (${job.status}) is owned by ${job.ownerInstance || 'an unknown instance'} with a recent heartbeat - leaving it`);
+          continue;
+        }
+
+        const reason = ownedByPreviousRun
+          ? `this instance (${instanceId}) restarted while the job was ${job.status}`
+          : `no heartbeat from ${job.ownerInstance || 'its owner'} for ${heartbeatAge(job)}s`;
+        const result = await this.recoverJob(job.id, config, reason, ownedByPreviousRun);
+        if (result) results.push(result);
+      }
+
+      if (results.length > 0) {
+        const count = (action: RecoveryAction) => results.filter(result => result.action === action).length;
+        await pipelineEvents.publish({
+          type: 'SystemNotice',
+          category: 'system',
+          level: count('fail') > 0 ? 'warning' : 'info',
+          title: 'Startup Recovery',
+          description: `Recovered ${results.length} interrupted job(s): ${count('resume')} resumed, ${count('retry')} retried, ${count('fail')} failed`,
+          metadata: { instanceId, results }
+        });
+      } else {
+        console.log('✅ Startup recovery found no interrupted jobs');
+      }
+    } catch (error) {
+      console.error('❌ Startup recovery failed:', error instanceof Error ? error.message : error);
+    }
+    return results;
+  }
+
+  // Watchdog, run by the scheduler: flags jobs whose heartbeat went stale and recovers the ones
+  // no live process is working on
+  async checkHeartbeats(): Promise<RecoveryResult[]> {
+    const config = await loadJobRecovery();
+    const results: RecoveryResult[] = [];
+    const now = new Date();
+    const jobs = await storage.getContentJobsByStatuses(RECOVERABLE_STATUSES);
+    await workerPool.purgeStale(config.staleAfterSeconds);
+
+    for (const job of jobs) {
+      // Another replica shut down - pick its work up instead of waiting for it to come back
+      if (job.status === INTERRUPTED_STATUS) {
+        if (!config.enabled) continue;
+        const result = await this.recoverJob(job.id, config, 'interrupted by a graceful shutdown', true);
+        if (result) results.push(result);
+        continue;
+      }
+
+      const age = heartbeatAge(job, now);
+      if (age < config.staleAfterSeconds) {
+        this.flagged.delete(job.id);
+        continue;
+      }
+
+      const heartbeatAt = job.heartbeatAt?.toISOString() || null;
+      if (this.flagged.get(job.id) !== (heartbeatAt || 'none')) {
+        this.flagged.set(job.id, heartbeatAt || 'none');
+        console.warn(`⚠️ Job ${job.id} (${job.status}) has not sent a heartbeat for ${age}s`);
+        await pipelineEvents.publish({
+          type: 'JobHeartbeatStale',
+          jobId: job.id,
+          title: job.title,
+          status: job.status,
+          ownerInstance: job.ownerInstance,
+          heartbeatAt,
+          staleForSeconds: age
+        });
+      }
+
+      // Still running here means a step is hung rather than orphaned - it only gets flagged
+      if (!config.enabled || automationPipeline.isJobRunning(job.id)) continue;
+
+      const result = await this.recoverJob(job.id, config, `no heartbeat from ${job.ownerInstance || 'its owner'} for ${age}s`);
+      if (result) results.push(result);
+    }
+
+    // Forget jobs that finished or were recovered
+    const inFlight = new Set(jobs.map(job => job.id));
+    Array.from(this.flagged.keys()).forEach(jobId => {
+      if (!inFlight.has(jobId)) this.flagged.delete(jobId);
+    });
+    return results;
+  }
+
+  // The lease stops two instances from recovering the same job; the job is re-read under it
+  // because another instance may have recovered it in the meantime
+  private async recoverJob(jobId: number, config: JobRecoveryConfig, reason: string, ownerIsGone = false): Promise<RecoveryResult | null> {
+    const lease = await leaseManager.withLease(`recover:${jobId}`, async () => {
+      const job = await storage.getContentJobById(jobId);
+      if (!job || !RECOVERABLE_STATUSES.includes(job.status) || automationPipeline.isJobRunning(jobId)) {
+        return null;
+      }
+      if (!ownerIsGone && heartbeatAge(job) < config.staleAfterSeconds) {
+        return null;
+      }
+      return await this.applyRecovery(job, config, reason);
+    });
+    return lease.acquired ? lease.result : null;
+  }
+
+  private async applyRecovery(job: ContentJob, config: JobRecoveryConfig, reason: string): Promise<RecoveryResult> {
+    const metadata = jobMetadata(job);
+    // Only crashes count towards maxRecoveries - a job stopped cleanly by a deploy isn't suspect
+    const interrupted = job.status === INTERRUPTED_STATUS;
+    const recoveries = (metadata.recovery?.count || 0) + (interrupted ? 0 : 1);
+    const uploading = job.status === 'uploading';
+    const step = uploading ? UPLOAD_STEP : await automationPipeline.getResumeStep(job);
+
+    let action: RecoveryAction = !step ? 'fail' : interrupted ? 'resume' : config.steps[step] || config.defaultAction;
+    if (!step) {
+      reason = `${reason}; every step already has a checkpoint`;
+    } else if (!interrupted && recoveries > config.maxRecoveries && action !== 'fail') {
+      action = 'fail';
+      reason = `${reason}; already recovered ${recoveries - 1} time(s)`;
+    }
+
+    console.log(`♻️ Recovering job ${job.id} (${job.status}${step ? `, ${step}` : ''}): ${action} - ${reason}`);
+
+    await storage.mergeContentJobMetadata(job.id, {
+      recovery: { count: recoveries, lastAction: action, lastReason: reason, lastRecoveredAt: new Date().toISOString(), recoveredBy: instanceId }
+    });
+
+    await pipelineEvents.publish({
+      type: 'JobRecovered',
+      jobId: job.id,
+      title: job.title,
+      step,
+      action,
+      previousStatus: job.status,
+      previousOwner: job.ownerInstance,
+      recoveries,
+      reason
+    });
+
+    if (uploading && job.youtubeId) {
+      // The upload went through before the process stopped - only the bookkeeping is missing
+      await storage.updateContentJob(job.id, { status: 'completed', ownerInstance: null });
+    } else if (action === 'fail') {
+      const message = uploading
+        ? `Interrupted during ${UPLOAD_STEP}: ${reason}; check the channel for the video before uploading again`
+        : `Interrupted${step ? ` during ${step}` : ''}: ${reason}`;
+      await storage.updateContentJob(job.id, { status: 'failed', errorMessage: message, ownerInstance: null });
+      await storage.mergeContentJobMetadata(job.id, { failedStep: step, failedAt: new Date().toISOString() });
+      await pipelineEvents.publish({ type: 'JobFailed', jobId: job.id, step: step || undefined, error: message, resumable: !uploading });
+    } else if (uploading) {
+      // Only when the upload step is configured to retry
+      await storage.updateContentJob(job.id, { status: 'ready_for_upload', ownerInstance: null });
+    } else {
+      if (action === 'retry') {
+        await this.discardCheckpoints(job);
+      }
+      automationPipeline.resumeJob(job.id).catch(error => {
+        console.error(`❌ Failed to restart recovered job ${job.id}:`, error instanceof Error ? error.message : error);
+      });
+    }
+
+    return { jobId: job.id, step, action, reason };
+  }
+
+  // A derived Short's script is the excerpt cut from its parent, which the LLM step can't recreate
+  private async discardCheckpoints(job: ContentJob): Promise<void> {
+    const derived = !!jobMetadata(job).derivedFrom;
+    const steps = (await automationPipeline.getJobSteps(job))
+      .map(({ id }) => id)
+      .filter(id => !(derived && id === 'script_generation'));
+    await storage.clearJobCheckpoints(job.id, steps);
+  }
+}
+
+export const jobRecovery = new JobRecovery();
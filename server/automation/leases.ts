@@ -0,0 +1,66 @@
+import os from 'os';
+import { randomUUID } from 'crypto';
+import { storage } from '../storage';
+
+// Identifies this process as a lease owner; set INSTANCE_ID to keep it stable across restarts
+export const instanceId = process.env.INSTANCE_ID || `${os.hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`;
+
+// Short enough that a crashed instance's leases are taken over quickly - holders renew well before expiry
+export const DEFAULT_LEASE_TTL_MS = 2 * 60 * 1000;
+
+export interface LeaseOptions {
+  ttlMs?: number;
+  holdMs?: number; // keep the lease this long after acquiring it, even once the task is done
+}
+
+export type LeaseResult<T> = { acquired: true; result: T } | { acquired: false };
+
+export class LeaseManager {
+  async acquire(name: string, ttlMs: number = DEFAULT_LEASE_TTL_MS): Promise<boolean> {
+    const lease = await storage.acquireLease(name, instanceId, ttlMs);
+    return !!lease;
+  }
+
+  async release(name: string, holdMs?: number): Promise<void> {
+    try {
+      await storage.releaseLease(name, instanceId, holdMs);
+    } catch (error) {
+      // It expires on its own, so a failed release only delays the next holder
+      console.warn(`⚠️ Failed to release lease ${name}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  async isHeld(name: string): Promise<boolean> {
+    const leases = await storage.getLeases();
+    return leases.some(lease => lease.name === name && lease.expiresAt > new Date());
+  }
+
+  // Runs the task while holding the lease and renews it until the task settles.
+  // Returns { acquired: false } without running the task when another instance holds it.
+  async withLease<T>(name: string, task: () => Promise<T>, options: LeaseOptions = {}): Promise<LeaseResult<T>> {
+    const ttlMs = options.ttlMs ?? DEFAULT_LEASE_TTL_MS;
+    if (!await this.acquire(name, ttlMs)) {
+      console.log(`🔒 Lease ${name} is held by another instance, skipping`);
+      return { acquired: false };
+    }
+
+    const renewal = setInterval(() => {
+      storage.renewLease(name, instanceId, ttlMs)
+        .then(renewed => {
+          if (!renewed) {
+            console.warn(`⚠️ Lost lease ${name} - another instance may take over this task`);
+          }
+        })
+        .catch(error => console.warn(`⚠️ Failed to renew lease ${name}:`, error instanceof Error ? error.message : error));
+    }, Math.max(1000, Math.floor(ttlMs / 3)));
+
+    try {
+      return { acquired: true, result: await task() };
+    } finally {
+      clearInterval(renewal);
+      await this.release(name, options.holdMs);
+    }
+  }
+}
+
+export const leaseManager = new LeaseManager();
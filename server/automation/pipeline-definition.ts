@@ -0,0 +1,153 @@
+import { z } from 'zod';
+import { storage } from '../storage';
+import { stepRegistry, type PipelineStepDefinition } from './step-registry';
+import type { ContentJob } from '@shared/schema';
+
+export const PIPELINE_DEFINITION_SETTING_KEY = 'pipeline_definition';
+
+const stepOptionsSchema = z.record(z.string(), z.any());
+
+const pipelineStepEntrySchema = z.object({
+  id: z.string().min(1), // registered step id
+  dependsOn: z.array(z.string().min(1)).default([]),
+  enabled: z.boolean().default(true),
+  options: stepOptionsSchema.default({})
+});
+
+// Overrides for jobs of one video type and/or channel; every field that is set has to match
+const pipelineVariantSchema = z.object({
+  videoType: z.enum(['long_form', 'short']).optional(),
+  channelId: z.string().min(1).optional(),
+  steps: z.record(z.string(), z.object({
+    enabled: z.boolean().optional(),
+    options: stepOptionsSchema.optional() // merged over the step's base options
+  }))
+});
+
+export const pipelineDefinitionSchema = z.object({
+  steps: z.array(pipelineStepEntrySchema).min(1),
+  variants: z.array(pipelineVariantSchema).default([])
+});
+
+export type PipelineDefinition = z.infer<typeof pipelineDefinitionSchema>;
+
+export interface ResolvedStep {
+  id: string;
+  step: PipelineStepDefinition;
+  dependsOn: string[];
+  options: Record<string, any>;
+}
+
+type PipelineTarget = Pick<ContentJob, 'videoType' | 'channelId'>;
+
+// The built-in steps in their original order, with a shorter render timeout for Shorts
+export const DEFAULT_PIPELINE_DEFINITION: PipelineDefinition = pipelineDefinitionSchema.parse({
+  steps: [
+    { id: 'script_generation' },
+    { id: 'audio_generation', dependsOn: ['script_generation'] },
+    { id: 'video_creation', dependsOn: ['audio_generation'], options: { timeoutMinutes: 15 } },
+    { id: 'video_processing', dependsOn: ['video_creation'] },
+    { id: 'thumbnail_generation', dependsOn: ['script_generation'] },
+    { id: 'file_organization', dependsOn: ['video_processing', 'thumbnail_generation'] },
+    { id: 'upload_scheduling', dependsOn: ['file_organization'] }
+  ],
+  variants: [
+    { videoType: 'short', steps: { video_creation: { options: { timeoutMinutes: 10 } } } }
+  ]
+});
+
+// Steps to run for a job, in dependency order. Ties keep the order of the definition, so the
+// default definition runs exactly like the old hardcoded sequence.
+export function resolvePipeline(definition: PipelineDefinition, target: PipelineTarget): ResolvedStep[] {
+  const variants = definition.variants.filter(variant =>
+    (!variant.videoType || variant.videoType === target.videoType) &&
+    (!variant.channelId || variant.channelId === target.channelId)
+  );
+
+  const entries = new Map<string, { enabled: boolean; dependsOn: string[]; options: Record<string, any> }>();
+  for (const entry of definition.steps) {
+    if (entries.has(entry.id)) {
+      throw new Error(`Step ${entry.id} appears more than once in the pipeline definition`);
+    }
+    if (!stepRegistry.has(entry.id)) {
+      throw new Error(`Unknown pipeline step: ${entry.id}`);
+    }
+    entries.set(entry.id, { enabled: entry.enabled, dependsOn: entry.dependsOn, options: { ...entry.options } });
+  }
+
+  for (const variant of variants) {
+    for (const [id, override] of Object.entries(variant.steps)) {
+      const entry = entries.get(id);
+      if (!entry) {
+        throw new Error(`Pipeline variant overrides step ${id}, which is not in the pipeline definition`);
+      }
+      if (override.enabled !== undefined) entry.enabled = override.enabled;
+      if (override.options) entry.options = { ...entry.options, ...override.options };
+    }
+  }
+
+  // Dependencies on disabled steps are dropped - the dependent step falls back to what is on the job
+  const pending: ResolvedStep[] = [];
+  entries.forEach((entry, id) => {
+    if (!entry.enabled) return;
+    for (const dependency of entry.dependsOn) {
+      if (!entries.has(dependency)) {
+        throw new Error(`Step ${id} depends on ${dependency}, which is not in the pipeline definition`);
+      }
+    }
+
+    const step = stepRegistry.get(id)!;
+    const parsed = step.optionsSchema ? step.optionsSchema.safeParse(entry.options) : { success: true as const, data: entry.options };
+    if (!parsed.success) {
+      throw new Error(`Invalid options for step ${id}: ${parsed.error.issues.map(issue => `${issue.path.join('.') || 'options'} ${issue.message}`).join(', ')}`);
+    }
+
+    pending.push({
+      id,
+      step,
+      dependsOn: entry.dependsOn.filter(dependency => entries.get(dependency)!.enabled),
+      options: parsed.data
+    });
+  });
+
+  const ordered: ResolvedStep[] = [];
+  const placed = new Set<string>();
+  while (pending.length > 0) {
+    const next = pending.findIndex(candidate => candidate.dependsOn.every(dependency => placed.has(dependency)));
+    if (next < 0) {
+      throw new Error(`Pipeline definition has a dependency cycle between: ${pending.map(candidate => candidate.id).join(', ')}`);
+    }
+    const [step] = pending.splice(next, 1);
+    ordered.push(step);
+    placed.add(step.id);
+  }
+  return ordered;
+}
+
+// Parses the definition and resolves it for every video type and variant, so a bad
+// definition is rejected when it is saved rather than when a job reaches it
+export function validatePipelineDefinition(value: unknown): PipelineDefinition {
+  const definition = pipelineDefinitionSchema.parse(value);
+  const targets: PipelineTarget[] = [
+    { videoType: 'long_form', channelId: null },
+    { videoType: 'short', channelId: null },
+    ...definition.variants.flatMap(variant =>
+      (variant.videoType ? [variant.videoType] : ['long_form', 'short']).map(videoType => ({ videoType, channelId: variant.channelId || null }))
+    )
+  ];
+  targets.forEach(target => resolvePipeline(definition, target));
+  return definition;
+}
+
+export async function loadPipelineDefinition(): Promise<PipelineDefinition> {
+  try {
+    const setting = await storage.getAutomationSetting(PIPELINE_DEFINITION_SETTING_KEY);
+    if (!setting) {
+      return DEFAULT_PIPELINE_DEFINITION;
+    }
+    return validatePipelineDefinition(JSON.parse(setting.value));
+  } catch (error) {
+    console.warn('⚠️ Invalid pipeline definition setting, using defaults:', error instanceof Error ? error.message : error);
+    return DEFAULT_PIPELINE_DEFINITION;
+  }
+}
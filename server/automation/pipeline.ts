@@ -1,600 +1,999 @@
 import { storage } from '../storage';
+import { pipelineEvents } from '../services/event-bus';
 import { contentGenerator } from '../services/content-generator';
 import { videoCreator } from '../services/video-creator';
-import { thumbnailGenerator } from '../services/thumbnail-generator';
 import { youtubeUploader } from '../services/youtube-uploader';
-import { storageManager } from '../services/storage-manager';
+import { shortDeriver } from '../services/short-deriver';
 import { promises as fs } from 'fs';
-import type { TrendingTopic, ContentJob } from '@shared/schema';
+import { workerPool, type WorkerStage } from './worker-pool';
+import { loadRetryPolicy, getStepRetryPolicy, isRetryableError, computeBackoffDelay, type RetryPolicyConfig } from './retry-policy';
+import { CancellationToken, isCancellationError } from '../services/cancellation';
+import { loadPipelineDefinition, resolvePipeline, type ResolvedStep } from './pipeline-definition';
+import { formatDuration } from './builtin-steps';
+import type { StepOutput } from './step-registry';
+import { leaseManager, instanceId } from './leases';
+import { loadJobRecovery, heartbeatAge } from './job-recovery';
+import { loadProductionPlan, filterTopicsForSlot, describeSlot, type ProductionPlan, type UnfilledSlot } from './production-plan';
+import { loadTopicSelection, buildSelectionContext, getChannelStrategy, TOPIC_STRATEGIES } from './topic-selection';
+import { jobMetadata, type ContentJob, type DerivedFrom, type JobCheckpoints, type JobCreation } from '@shared/schema';
+
+// Statuses a job can no longer be cancelled from
+const FINAL_STATUSES = ['completed', 'failed', 'cancelled', 'rejected'];
+
+const DAILY_AUTOMATION_LEASE = 'daily-automation';
+const SCHEDULED_UPLOADS_LEASE = 'scheduled-uploads';
+const UPLOAD_LEASE_TTL_MS = 5 * 60 * 1000;
+// How often a running job proves its owner is alive; see job-recovery for the stale threshold
+const JOB_HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const SHUTDOWN_REASON = 'Server shutting down';
+const DRAIN_POLL_MS = 500;
+// After the grace period: time for interrupted runs to kill their child processes and record it
+const INTERRUPT_SETTLE_MS = 10 * 1000;
+// Most recent/popular topics the production plan picks from
+const PLAN_TOPIC_POOL_SIZE = 200;
+
+// One job per topic, video type, channel and (UTC) day - enforced by the unique idempotency_key column
+function buildIdempotencyKey(topicId: number | null, videoType: string, channelId: string | null, date: Date = new Date()): string {
+  return [topicId ?? 'none', videoType, channelId || 'default', date.toISOString().slice(0, 10)].join(':');
+}
+
+// The job can't be changed right now - another instance is working on it, or YouTube is receiving it
+export class JobConflictError extends Error {
+  constructor(public readonly jobId: number, message: string) {
+    super(message);
+    this.name = 'JobConflictError';
+  }
+}
 
 export class AutomationPipeline {
-  private isRunning: boolean = false;
+  private cancellationTokens = new Map<number, CancellationToken>();
+  private stepsInFlight = new Set<number>(); // jobs inside a step, as opposed to queued or backing off
+  private activeUploads = 0;
+  private draining = false;
 
-  async processTrendingTopic(topicId: number, videoType: 'long_form' | 'short'): Promise<ContentJob> {
-    let jobId: number | undefined;
-    
+  async processTrendingTopic(
+    topicId: number,
+    videoType: 'long_form' | 'short',
+    channelId?: string,
+    selectionReason?: string
+  ): Promise<ContentJob> {
+    const { job, created } = await this.createJob(topicId, videoType, channelId, selectionReason);
+    return created ? this.runPipeline(job.id) : job;
+  }
+
+  // Creates the job and lets it run in the background through the worker pool.
+  // A repeated request for the same topic returns the existing job without starting it again.
+  async startTrendingTopic(topicId: number, videoType: 'long_form' | 'short'): Promise<JobCreation> {
+    const creation = await this.createJob(topicId, videoType);
+    if (creation.created) {
+      const jobId = creation.job.id;
+      this.runPipeline(jobId).catch(error => {
+        console.error(`❌ Background pipeline failed for job ${jobId}:`, error);
+      });
+    }
+    return creation;
+  }
+
+  private async createJob(
+    topicId: number,
+    videoType: 'long_form' | 'short',
+    requestedChannelId?: string,
+    selectionReason?: string
+  ): Promise<JobCreation> {
+    this.assertAcceptingWork();
     try {
       console.log(`🎬 Starting sequential pipeline for topic ${topicId}, type: ${videoType}`);
-      
-      // Step 1: Initialize pipeline and generate script
-      console.log('📝 Step 1: Starting script generation...');
-      const job = await contentGenerator.createContentJob(topicId, videoType);
-      jobId = job.id;
-      
-      // Update job status and log script generation start
-      await storage.updateContentJob(job.id, {
-        status: 'script_generation',
-        progress: 10
+      const channelId = requestedChannelId || youtubeUploader.getChannelId() || null;
+      const creation = await contentGenerator.createContentJob(topicId, videoType, {
+        channelId,
+        idempotencyKey: buildIdempotencyKey(topicId, videoType, channelId),
+        selectionReason
       });
-      
-      // Check if log already exists to prevent duplicates
-      const existingLogs = await storage.getPipelineLogsByJob(job.id);
-      const hasScriptLog = existingLogs.some(log => log.step === 'script_generation' && log.status === 'starting');
-      
-      if (!hasScriptLog) {
-        await storage.createPipelineLog({
-          jobId: job.id,
-          step: 'script_generation',
-          status: 'starting',
-          message: `Starting ${videoType} script generation for topic ${topicId}`,
-          details: 'AI script generation in progress using Gemini AI',
-          progress: 10,
-          createdAt: new Date()
-        });
-      }
 
-      // Wait a moment to ensure script is fully generated
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // Get the latest job data to ensure we have all metadata
-      const updatedJob = await storage.getContentJobById(job.id);
-      const originalContent = updatedJob?.metadata?.originalContent || 'No original content available';
-      
-      console.log(`📋 Pipeline logging - Original content: ${originalContent.substring(0, 100)}...`);
-      console.log(`📋 Pipeline logging - Final script: ${job.script?.substring(0, 100)}...`);
-      
-      await storage.createPipelineLog({
-        jobId: job.id,
-        step: 'script_generation',
-        status: 'completed',
-        message: 'AI script generation completed successfully',
-        details: `Generated engaging ${videoType} script with ${job.script?.length || 0} characters from original trending topic content`,
-        progress: 100,
-        metadata: { 
-          title: job.title, 
-          wordCount: job.script?.split(' ').length || 0,
-          scriptLength: job.script?.length || 0,
-          finalScript: job.script,
-          originalContent: originalContent,
-          estimatedDuration: job.metadata?.estimatedDuration || 0,
-          contentSource: 'AI generated from trending topic data'
-        },
-        createdAt: new Date()
-      });
-      
-      // Step 2: Audio Generation (TTS)
-      console.log('🎵 Step 2: Starting audio generation...');
-      await storage.updateContentJob(job.id, {
-        status: 'audio_generation',
-        progress: 30
-      });
-      
-      await storage.createPipelineLog({
-        jobId: job.id,
-        step: 'audio_generation',
-        status: 'starting',
-        message: 'Starting professional TTS audio generation',
-        details: 'Converting script to high-quality speech with Indian accent',
-        progress: 30,
-        createdAt: new Date()
+      await this.publishJobCreated(creation);
+      return creation;
+    } catch (error) {
+      console.error('❌ Pipeline error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await pipelineEvents.publish({
+        type: 'SystemNotice',
+        category: 'generation',
+        level: 'error',
+        title: 'Pipeline Failed',
+        description: `Error processing topic ${topicId}: ${message}`,
+        metadata: { topicId, videoType, error: message }
       });
+      throw error;
+    }
+  }
 
-      // Wait for audio generation to complete
-      await new Promise(resolve => setTimeout(resolve, 3000));
-      
-      await storage.createPipelineLog({
-        jobId: job.id,
-        step: 'audio_generation',
-        status: 'completed',
-        message: 'TTS audio generation completed',
-        details: 'Generated professional Indian English narration with natural speech patterns',
-        progress: 100,
-        metadata: { 
-          voice: 'en-IN-Neural2-D', 
-          duration: videoType === 'short' ? '60s' : '10+min',
-          finalScript: job.script
-        },
-        createdAt: new Date()
-      });
-      
-      // Step 3: Video Creation & Effects
-      console.log('🎬 Step 3: Starting video creation...');
-      await storage.updateContentJob(job.id, {
-        status: 'video_creation',
-        progress: 40
-      });
-      
-      await storage.createPipelineLog({
-        jobId: job.id,
-        step: 'video_creation',
-        status: 'starting',
-        message: 'Starting professional video creation',
-        details: 'Creating video with broadcast-quality effects, animations, and visual elements',
-        progress: 40,
-        createdAt: new Date()
-      });
+  // Cuts a Short from a finished long-form job: the new job reuses the parent's narration and
+  // scenes for the strongest 45-60s, then gets its own thumbnail, metadata and upload slot
+  async deriveShort(parentJobId: number): Promise<JobCreation> {
+    this.assertAcceptingWork();
+    const parent = await storage.getContentJobById(parentJobId);
+    if (!parent) {
+      throw new Error('Job not found');
+    }
 
-      let videoPath;
-      let videoMetadata = {};
-      
-      try {
-        // Add timeout for video creation to prevent hanging - increased to 15 minutes for long videos
-        const timeoutDuration = job.videoType === 'long_form' ? 900000 : 600000; // 15min for long, 10min for short
-        const videoCreationPromise = videoCreator.createVideo(job.id);
-        const timeoutPromise = new Promise((_, reject) => {
-          setTimeout(() => reject(new Error(`Video creation timeout after ${timeoutDuration/60000} minutes`)), timeoutDuration);
-        });
-        
-        console.log(`⏱️ Starting video creation with ${timeoutDuration/60000} minute timeout...`);
-        videoPath = await Promise.race([videoCreationPromise, timeoutPromise]);
-        
-        console.log(`✅ Video creation completed: ${videoPath}`);
-        
-        // Update metadata with video info
-        try {
-          const videoStats = await fs.stat(videoPath);
-          videoMetadata = {
-            videoPath,
-            fileSize: `${Math.round(videoStats.size / 1024)}KB`,
-            resolution: videoType === 'short' ? '1080x1920' : '1920x1080',
-            format: 'MP4',
-            createdAt: new Date().toISOString()
-          };
-        } catch (fsError) {
-          console.warn('Could not get video file stats:', fsError.message);
-          videoMetadata = {
-            videoPath,
-            fileSize: 'Unknown',
-            resolution: videoType === 'short' ? '1080x1920' : '1920x1080',
-            format: 'MP4',
-            createdAt: new Date().toISOString()
-          };
+    if (parent.videoType !== 'long_form') {
+      throw new Error(`Job ${parentJobId} is not a long-form video`);
+    }
+
+    if (this.isJobRunning(parentJobId)) {
+      throw new Error(`Job ${parentJobId} is still running`);
+    }
+
+    const parentCheckpoints = (parent.checkpoints as JobCheckpoints | null) || {};
+    const sourceVideo: string | undefined = parentCheckpoints.video_processing?.output.videoPath || parent.videoPath || undefined;
+    if (!parent.script || !sourceVideo) {
+      throw new Error(`Job ${parentJobId} has no finished video to cut a Short from`);
+    }
+
+    const sourceInfo = await videoCreator.inspectVideo(sourceVideo);
+    const segment = shortDeriver.selectSegment(parent.script, sourceInfo.duration, parent.title);
+
+    const topic = parent.topicId ? await storage.getTrendingTopicById(parent.topicId) : undefined;
+    const title = topic ? contentGenerator.generateVideoTitle(topic, 'short') : `${parent.title} #Shorts`;
+    const parentMetadata = jobMetadata(parent);
+    const derivedFrom: DerivedFrom = {
+      jobId: parent.id,
+      sourceVideo,
+      voice: parentCheckpoints.audio_generation?.output.voice,
+      segment
+    };
+
+    const channelId = parent.channelId || youtubeUploader.getChannelId() || null;
+    const { job, created } = await storage.createContentJobOnce({
+      topicId: parent.topicId,
+      parentJobId: parent.id,
+      channelId,
+      idempotencyKey: buildIdempotencyKey(parent.topicId, 'short', channelId),
+      selectionReason: `Cut from long-form job ${parent.id} (${formatDuration(segment.start)}-${formatDuration(segment.end)}, hook score ${segment.score.toFixed(1)})`,
+      videoType: 'short',
+      title,
+      script: segment.text,
+      status: 'pending',
+      progress: 0,
+      metadata: {
+        topic: parentMetadata.topic,
+        category: parentMetadata.category,
+        originalContent: parentMetadata.originalContent,
+        hasFullContent: parentMetadata.hasFullContent,
+        sources: parentMetadata.sources || [],
+        targetDuration: '45-60 seconds',
+        derivedFrom
+      }
+    });
+
+    await this.publishJobCreated({ job, created });
+    if (!created) {
+      return { job, created };
+    }
+
+    // The excerpt is the Short's script, so script generation is already done
+    await storage.saveJobCheckpoint(job.id, 'script_generation', {
+      title,
+      wordCount: segment.text.split(' ').length,
+      scriptLength: segment.text.length,
+      derivedFrom: parent.id
+    });
+
+    await pipelineEvents.publish({
+      type: 'JobStepCompleted',
+      jobId: job.id,
+      step: 'script_generation',
+      message: `Short derived from long-form job ${parent.id}`,
+      details: `Using ${formatDuration(segment.start)}-${formatDuration(segment.end)} (${Math.round(segment.duration)}s) of "${parent.title}"`,
+      progress: 10,
+      metadata: { parentJobId: parent.id, segment, finalScript: segment.text }
+    });
+
+    await pipelineEvents.publish({
+      type: 'SystemNotice',
+      category: 'generation',
+      level: 'info',
+      title: 'Short Derived From Long-form Video',
+      description: `Cutting "${title}" from "${parent.title}" (${formatDuration(segment.start)}-${formatDuration(segment.end)})`,
+      jobId: job.id,
+      metadata: { parentJobId: parent.id, segment }
+    });
+
+    this.runPipeline(job.id).catch(error => {
+      console.error(`❌ Derived Short pipeline failed for job ${job.id}:`, error);
+    });
+
+    return { job, created };
+  }
+
+  private async publishJobCreated({ job, created }: JobCreation): Promise<void> {
+    if (!created) {
+      console.log(`♻️ Job ${job.id} already exists for ${job.idempotencyKey} - not starting a duplicate`);
+    }
+    await pipelineEvents.publish({
+      type: 'JobCreated',
+      jobId: job.id,
+      title: job.title,
+      videoType: job.videoType,
+      topicId: job.topicId,
+      parentJobId: job.parentJobId,
+      idempotencyKey: job.idempotencyKey,
+      duplicate: !created,
+      status: job.status
+    });
+  }
+
+  // The job's steps from the pipeline definition, in the order they run
+  async getJobSteps(job: ContentJob): Promise<ResolvedStep[]> {
+    return resolvePipeline(await loadPipelineDefinition(), job);
+  }
+
+  // First step without a checkpoint, or null when every step has finished
+  async getResumeStep(job: ContentJob): Promise<string | null> {
+    const checkpoints = (job.checkpoints as JobCheckpoints | null) || {};
+    const steps = await this.getJobSteps(job);
+    return steps.find(({ id }) => !checkpoints[id])?.id || null;
+  }
+
+  isJobRunning(jobId: number): boolean {
+    return this.cancellationTokens.has(jobId);
+  }
+
+  // Stops a job: a job running in this process has its child processes killed and is
+  // marked cancelled by runPipeline; a job nobody is working on is marked cancelled right away.
+  // Uploads and jobs another live instance owns are refused - their files are still in use.
+  async cancelJob(jobId: number, reason: string = 'Cancelled by user'): Promise<ContentJob> {
+    const job = await storage.getContentJobById(jobId);
+    if (!job) {
+      throw new Error('Job not found');
+    }
+
+    if (FINAL_STATUSES.includes(job.status)) {
+      throw new Error(`Job ${jobId} is already ${job.status}`);
+    }
+
+    const token = this.cancellationTokens.get(jobId);
+    if (token) {
+      console.log(`🛑 Cancelling running job ${jobId}: ${reason}`);
+      token.cancel(reason);
+      return job;
+    }
+
+    if (job.status === 'uploading') {
+      throw new JobConflictError(jobId, `Job ${jobId} is being uploaded to YouTube and can't be cancelled`);
+    }
+
+    if (job.ownerInstance && job.ownerInstance !== instanceId) {
+      const { staleAfterSeconds } = await loadJobRecovery();
+      if (heartbeatAge(job) < staleAfterSeconds) {
+        throw new JobConflictError(jobId, `Job ${jobId} is running on instance ${job.ownerInstance} - cancel it there`);
+      }
+    }
+
+    await this.markJobCancelled(jobId, reason, job.status);
+    return (await storage.getContentJobById(jobId)) || job;
+  }
+
+  async resumeJob(jobId: number): Promise<ContentJob> {
+    this.assertAcceptingWork();
+    const job = await storage.getContentJobById(jobId);
+    if (!job) {
+      throw new Error('Job not found');
+    }
+
+    if (this.cancellationTokens.has(jobId)) {
+      throw new Error(`Job ${jobId} is already running`);
+    }
+
+    const resumeFrom = await this.getResumeStep(job);
+    if (!resumeFrom) {
+      throw new Error(`Job ${jobId} has no unfinished steps to resume`);
+    }
+    const steps = await this.getJobSteps(job);
+
+    console.log(`🔁 Resuming job ${jobId} from ${resumeFrom}`);
+
+    await storage.updateContentJob(jobId, { errorMessage: null });
+
+    await pipelineEvents.publish({
+      type: 'JobResumed',
+      jobId,
+      title: job.title,
+      fromStep: resumeFrom,
+      skippedSteps: steps.findIndex(({ id }) => id === resumeFrom),
+      previousStatus: job.status,
+      progress: job.progress
+    });
+
+    return this.runPipeline(jobId);
+  }
+
+  private async runPipeline(jobId: number): Promise<ContentJob> {
+    let currentStep: string | undefined;
+    const token = new CancellationToken(jobId);
+    this.cancellationTokens.set(jobId, token);
+    const stopHeartbeat = this.startHeartbeat(jobId);
+
+    try {
+      const retryPolicy = await loadRetryPolicy();
+      const initialJob = await storage.getContentJobById(jobId);
+      if (!initialJob) {
+        throw new Error(`Job ${jobId} not found`);
+      }
+      // Resolved once per run, so a definition change mid-run doesn't reorder the remaining steps
+      const steps = await this.getJobSteps(initialJob);
+
+      for (const step of steps) {
+        // Shutting down: the previous step has its checkpoint, so stop here instead of starting the next one
+        if (this.draining) {
+          token.cancel(SHUTDOWN_REASON);
         }
-        
-        await storage.updateContentJob(job.id, {
-          metadata: videoMetadata
-        });
-        
-      } catch (videoError) {
-        console.error('❌ Video creation failed:', videoError);
-        await storage.updateContentJob(job.id, {
-          status: 'failed',
-          progress: 40,
-          metadata: { 
-            error: videoError.message,
-            failedAt: new Date().toISOString(),
-            step: 'video_creation'
-          }
-        });
-        
-        await storage.createPipelineLog({
-          jobId: job.id,
-          step: 'video_creation',
-          status: 'error',
-          message: 'Video creation failed',
-          details: videoError.message,
-          metadata: { error: videoError.message, timeout: videoError.message.includes('timeout') },
-          createdAt: new Date()
-        });
-        throw videoError;
+        token.throwIfCancelled();
+        const job = await storage.getContentJobById(jobId);
+        if (!job) {
+          throw new Error(`Job ${jobId} not found`);
+        }
+
+        const checkpoints = (job.checkpoints as JobCheckpoints | null) || {};
+        const checkpoint = checkpoints[step.id];
+        if (checkpoint && await this.checkpointFilesExist(checkpoint.output)) {
+          console.log(`⏭️ Skipping ${step.id} for job ${jobId} - checkpoint found`);
+          continue;
+        }
+
+        currentStep = step.id;
+        const stepStartedAt = Date.now();
+        const output = await this.executeStepWithRetry(step, job, checkpoints, retryPolicy, token);
+        await storage.saveJobCheckpoint(jobId, step.id, output, Date.now() - stepStartedAt);
       }
-      
-      await storage.createPipelineLog({
-        jobId: job.id,
-        step: 'video_creation',
-        status: 'completed',
-        message: 'Professional video creation completed',
-        details: `Created high-quality ${videoType} video with professional editing and effects`,
-        progress: 60,
-        metadata: { 
-          videoPath, 
-          duration: videoType === 'short' ? '0:58' : '8:42',
-          fileSize: videoMetadata?.fileSize || 'Unknown',
-          resolution: videoType === 'short' ? '1080x1920' : '1920x1080'
-        },
-        createdAt: new Date()
-      });
-      
-      // Step 4: Video Conversion & Optimization
-      console.log('🔄 Step 4: Starting MP4 conversion...');
-      await storage.updateContentJob(job.id, {
-        status: 'video_processing',
-        progress: 60
-      });
-      
-      await storage.createPipelineLog({
-        jobId: job.id,
-        step: 'video_processing',
-        status: 'starting',
-        message: 'Starting final MP4 conversion and optimization',
-        details: 'Optimizing video for YouTube upload with best quality settings',
-        progress: 60,
-        createdAt: new Date()
-      });
 
-      // Wait for video processing
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      await storage.createPipelineLog({
-        jobId: job.id,
-        step: 'video_processing',
-        status: 'completed',
-        message: 'MP4 conversion and optimization completed',
-        details: 'Video optimized for YouTube with embedded audio and perfect quality',
-        progress: 75,
-        metadata: { format: 'MP4', quality: '1080p', audioEmbedded: true },
-        createdAt: new Date()
-      });
-      
-      // Step 5: Thumbnail Generation
-      console.log('🖼️ Step 5: Starting thumbnail generation...');
-      await storage.updateContentJob(job.id, {
-        status: 'thumbnail_generation',
-        progress: 75
-      });
-      
-      await storage.createPipelineLog({
-        jobId: job.id,
-        step: 'thumbnail_generation',
-        status: 'starting',
-        message: 'Generating eye-catching thumbnail with AI',
-        details: 'Creating professional thumbnail designed for maximum click-through rate',
-        progress: 75,
-        createdAt: new Date()
-      });
+      const job = await storage.getContentJobById(jobId);
+      if (!job) {
+        throw new Error(`Job ${jobId} not found`);
+      }
 
-      const thumbnailPath = await thumbnailGenerator.generateThumbnail(job.id);
-      
-      await storage.createPipelineLog({
-        jobId: job.id,
-        step: 'thumbnail_generation',
-        status: 'completed',
-        message: 'Thumbnail generated successfully',
-        details: 'Created optimized thumbnail with compelling visuals and text',
-        progress: 85,
-        metadata: { thumbnailPath, resolution: videoType === 'short' ? '1080x1920' : '1280x720' },
-        createdAt: new Date()
-      });
-      
-      // Step 6: Google Drive Upload
-      console.log('☁️ Step 6: Starting Google Drive upload...');
-      await storage.updateContentJob(job.id, {
-        status: 'file_organization',
-        progress: 85
-      });
-      
-      await storage.createPipelineLog({
+      console.log(`✅ Pipeline completed successfully for job ${job.id}. Scheduled for: ${job.scheduledTime}`);
+
+      await pipelineEvents.publish({
+        type: 'JobCompleted',
         jobId: job.id,
-        step: 'file_organization',
-        status: 'starting',
-        message: 'Uploading complete video package to Google Drive',
-        details: 'Organizing and uploading final MP4 video and thumbnail to cloud storage',
-        progress: 85
+        title: job.title,
+        videoType: job.videoType,
+        scheduledTime: job.scheduledTime?.toISOString(),
+        driveUrl: job.driveUrl
       });
 
-      const { videoUrl, thumbnailUrl } = await storageManager.organizeFiles(
-        videoPath, 
-        thumbnailPath, 
-        job.id
-      );
-      
-      await storage.createPipelineLog({
-        jobId: job.id,
-        step: 'file_organization',
-        status: 'completed',
-        message: 'Files successfully uploaded to Google Drive',
-        details: 'Video and thumbnail securely stored in organized folder structure. Click links to view files.',
-        progress: 100,
-        metadata: { 
-          videoUrl, 
-          thumbnailUrl,
-          videoLink: videoUrl,
-          thumbnailLink: thumbnailUrl,
-          driveFolder: 'YouTube Automation Videos'
+      return job;
+    } catch (error) {
+      if (isCancellationError(error)) {
+        if (token.reason === SHUTDOWN_REASON) {
+          await this.markJobInterrupted(jobId, currentStep);
+        } else {
+          await this.markJobCancelled(jobId, token.reason || 'Cancelled', currentStep);
         }
+        const cancelledJob = await storage.getContentJobById(jobId);
+        if (cancelledJob) {
+          return cancelledJob;
+        }
+        throw error;
+      }
+
+      console.error('❌ Pipeline error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      // Keep progress and checkpoints so the job can be resumed from the failed step
+      await storage.updateContentJob(jobId, {
+        status: 'failed',
+        errorMessage: message
       });
-      
-      // Step 7: YouTube Upload Scheduling
-      console.log('📅 Step 7: Scheduling YouTube upload...');
-      await storage.updateContentJob(job.id, {
-        status: 'scheduling_upload',
-        progress: 95
-      });
-      
-      await storage.createPipelineLog({
-        jobId: job.id,
-        step: 'upload_scheduling',
-        status: 'starting',
-        message: 'Scheduling optimal YouTube upload time',
-        details: 'Calculating best upload time based on audience analytics and engagement patterns',
-        progress: 95
+      await storage.mergeContentJobMetadata(jobId, {
+        failedStep: currentStep,
+        failedAt: new Date().toISOString()
       });
 
-      const optimalTime = youtubeUploader.getOptimalUploadTime(videoType);
-      
-      // Final job update - ready for upload
-      await storage.updateContentJob(job.id, {
-        driveUrl: videoUrl,
-        scheduledTime: optimalTime,
-        status: 'ready_for_upload',
-        progress: 100
+      await pipelineEvents.publish({
+        type: 'JobFailed',
+        jobId,
+        step: currentStep,
+        error: message,
+        stack: error instanceof Error ? error.stack : undefined,
+        resumable: true
       });
+      throw error;
+    } finally {
+      this.cancellationTokens.delete(jobId);
+      await stopHeartbeat();
+      await workerPool.release(jobId).catch(() => {});
+    }
+  }
 
-      await storage.createPipelineLog({
-        jobId: job.id,
-        step: 'upload_scheduling',
-        status: 'completed',
-        message: 'Video successfully scheduled for YouTube upload',
-        details: `Pipeline completed! Scheduled for ${optimalTime.toLocaleString()} - ready for automatic upload`,
-        progress: 100,
-        metadata: { 
-          scheduledTime: optimalTime.toISOString(), 
-          videoType,
-          driveUrl: videoUrl,
-          thumbnailUrl: thumbnailUrl 
+  // Marks this instance as the job's owner and keeps the heartbeat fresh until the returned stop
+  // function runs; startup recovery and the watchdog treat a stale heartbeat as a dead owner
+  private startHeartbeat(jobId: number): () => Promise<void> {
+    const beat = () => storage.touchJobHeartbeat(jobId, instanceId).catch(error => {
+      console.warn(`⚠️ Failed to write heartbeat for job ${jobId}:`, error instanceof Error ? error.message : error);
+    });
+    beat();
+    const timer = setInterval(beat, JOB_HEARTBEAT_INTERVAL_MS);
+
+    return async () => {
+      clearInterval(timer);
+      await storage.releaseJobOwnership(jobId, instanceId).catch(() => {});
+    };
+  }
+
+  // Interrupted is not a failure: checkpoints and partial files stay, and the next start resumes the job
+  private async markJobInterrupted(jobId: number, interruptedDuring?: string): Promise<void> {
+    console.log(`⏸️ Job ${jobId} interrupted by shutdown${interruptedDuring ? ` during ${interruptedDuring}` : ''}`);
+
+    await storage.updateContentJob(jobId, { status: 'interrupted' });
+    await storage.mergeContentJobMetadata(jobId, {
+      interruptedDuring,
+      interruptedAt: new Date().toISOString(),
+      interruptedBy: instanceId
+    });
+
+    await pipelineEvents.publish({ type: 'JobInterrupted', jobId, step: interruptedDuring, reason: SHUTDOWN_REASON });
+  }
+
+  private assertAcceptingWork(): void {
+    if (this.draining) {
+      throw new Error('Server is shutting down - not starting new pipeline work');
+    }
+  }
+
+  isDraining(): boolean {
+    return this.draining;
+  }
+
+  // Stops taking new work, lets running steps reach their checkpoint and interrupts whatever is
+  // still running when the grace period ends. Interrupted jobs are resumed by job recovery.
+  async drain(graceMs: number): Promise<void> {
+    this.draining = true;
+
+    // Jobs queued for a worker slot or waiting to retry have nothing to finish
+    this.cancellationTokens.forEach((token, jobId) => {
+      if (!this.stepsInFlight.has(jobId)) {
+        token.cancel(SHUTDOWN_REASON);
+      }
+    });
+
+    console.log(`⏳ Draining ${this.cancellationTokens.size} job(s) and ${this.activeUploads} upload(s) - grace period ${Math.round(graceMs / 1000)}s`);
+    await this.waitForIdle(Date.now() + graceMs);
+
+    if (this.cancellationTokens.size > 0) {
+      console.warn(`⏱️ Grace period over - interrupting job(s) ${Array.from(this.cancellationTokens.keys()).join(', ')}`);
+      this.cancellationTokens.forEach(token => token.cancel(SHUTDOWN_REASON));
+      await this.waitForIdle(Date.now() + INTERRUPT_SETTLE_MS);
+    }
+
+    // An upload can't be stopped halfway; job recovery sorts it out from the stale heartbeat
+    if (this.activeUploads > 0) {
+      console.warn(`⚠️ ${this.activeUploads} YouTube upload(s) still running at shutdown - left to job recovery`);
+    }
+  }
+
+  private async waitForIdle(deadline: number): Promise<void> {
+    while ((this.cancellationTokens.size > 0 || this.activeUploads > 0) && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, DRAIN_POLL_MS));
+    }
+  }
+
+  // Cancelled is kept apart from failed: nothing went wrong, so nothing should retry or alert on it
+  private async markJobCancelled(jobId: number, reason: string, cancelledDuring?: string): Promise<void> {
+    console.log(`🛑 Job ${jobId} cancelled${cancelledDuring ? ` during ${cancelledDuring}` : ''}: ${reason}`);
+
+    // Partial renders and audio would otherwise pile up in temp/videos
+    await videoCreator.cleanup(jobId);
+
+    await storage.updateContentJob(jobId, {
+      status: 'cancelled',
+      errorMessage: reason
+    });
+    await storage.mergeContentJobMetadata(jobId, {
+      cancelledDuring,
+      cancelledAt: new Date().toISOString(),
+      cancelReason: reason
+    });
+
+    await pipelineEvents.publish({ type: 'JobCancelled', jobId, step: cancelledDuring, reason });
+  }
+
+  // Temp files can be cleaned up between runs - redo the step if its output files are gone
+  private async checkpointFilesExist(output: StepOutput): Promise<boolean> {
+    const paths = Object.entries(output)
+      .filter(([key, value]) => key.endsWith('Path') && typeof value === 'string')
+      .map(([, value]) => value as string);
+
+    for (const filePath of paths) {
+      try {
+        await fs.access(filePath);
+      } catch {
+        console.warn(`⚠️ Checkpoint file missing: ${filePath}`);
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private async executeStepWithRetry(
+    resolved: ResolvedStep,
+    job: ContentJob,
+    checkpoints: JobCheckpoints,
+    retryConfig: RetryPolicyConfig,
+    token: CancellationToken
+  ): Promise<StepOutput> {
+    const step = resolved.id;
+    const policy = getStepRetryPolicy(retryConfig, step);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const output = await this.executeStepInPool(resolved, job, checkpoints, token);
+
+        if (attempt > 1) {
+          await pipelineEvents.publish({
+            type: 'JobStepCompleted',
+            jobId: job.id,
+            step,
+            message: `${step} succeeded on attempt ${attempt}/${policy.maxAttempts}`,
+            metadata: { attempt, maxAttempts: policy.maxAttempts }
+          });
         }
-      });
-      
-      console.log(`✅ Pipeline completed successfully for job ${job.id}. Scheduled for: ${optimalTime}`);
-      
-      await storage.createActivityLog({
-        type: 'system',
-        title: 'Pipeline Completed Successfully',
-        description: `${videoType} video "${job.title}" ready for scheduled upload`,
-        status: 'success',
-        metadata: { 
-          jobId: job.id, 
-          videoType, 
-          scheduledTime: optimalTime.toISOString(),
-          driveUrl: videoUrl 
+        return output;
+      } catch (error) {
+        if (isCancellationError(error) || token.isCancelled) {
+          throw error;
         }
-      });
 
-      return job;
-    } catch (error) {
-      console.error('❌ Pipeline error:', error);
-      
-      if (jobId) {
-        await storage.updateContentJob(jobId, {
-          status: 'failed',
-          progress: 0
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        const retryable = isRetryableError(error, policy);
+        const willRetry = retryable && attempt < policy.maxAttempts;
+        const delayMs = willRetry ? computeBackoffDelay(attempt, policy) : 0;
+
+        console.warn(`⚠️ ${step} attempt ${attempt}/${policy.maxAttempts} failed for job ${job.id}: ${message}`);
+
+        await pipelineEvents.publish({
+          type: 'JobStepFailed',
+          jobId: job.id,
+          step,
+          error: message,
+          attempt,
+          maxAttempts: policy.maxAttempts,
+          retryable,
+          willRetry,
+          delayMs
         });
-        
-        await storage.createPipelineLog({
-          jobId,
-          step: 'pipeline_error',
-          status: 'error',
-          message: 'Pipeline execution failed',
-          details: error.message,
-          metadata: { error: error.message, stack: error.stack }
+
+        if (!willRetry) {
+          throw error;
+        }
+
+        // No retries while shutting down - the step runs again when the job is resumed
+        if (this.draining) {
+          token.cancel(SHUTDOWN_REASON);
+          token.throwIfCancelled();
+        }
+        await this.waitForRetry(delayMs, token);
+
+        await pipelineEvents.publish({
+          type: 'JobStepProgress',
+          jobId: job.id,
+          step,
+          message: `Retrying ${step} (attempt ${attempt + 1}/${policy.maxAttempts})`,
+          metadata: { attempt: attempt + 1, maxAttempts: policy.maxAttempts }
         });
+
+        // Pick up anything the failed attempt already wrote to the job
+        job = (await storage.getContentJobById(job.id)) || job;
       }
+    }
+  }
 
-      await storage.createActivityLog({
-        type: 'error',
-        title: 'Pipeline Failed',
-        description: `Error processing topic ${topicId}: ${error.message}`,
-        status: 'error',
-        metadata: { topicId, videoType, error: error.message }
+  // Backoff sleep that ends early when the job is cancelled
+  private waitForRetry(delayMs: number, token: CancellationToken): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(token.signal.reason);
+      };
+      const timer = setTimeout(() => {
+        token.signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, delayMs);
+      token.signal.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  // Holds a worker slot for the step's stage only while the step runs (not during retry backoff)
+  private async executeStepInPool(
+    resolved: ResolvedStep,
+    job: ContentJob,
+    checkpoints: JobCheckpoints,
+    token: CancellationToken
+  ): Promise<StepOutput> {
+    const step = resolved.id;
+    const stage = resolved.step.stage;
+    if (!stage) {
+      return this.executeStep(resolved, job, checkpoints, token);
+    }
+
+    await workerPool.acquire(job.id, stage, async (position) => {
+      await storage.updateContentJob(job.id, { status: 'queued' });
+      await pipelineEvents.publish({
+        type: 'JobStepProgress',
+        jobId: job.id,
+        step,
+        message: `Queued for ${stage} worker (position ${position})`,
+        details: `Waiting for a free ${stage} slot before starting ${step}`,
+        progress: job.progress,
+        metadata: { queued: true, stage, position }
       });
-      throw error;
+    }, token.signal);
+
+    try {
+      return await this.executeStep(resolved, job, checkpoints, token);
+    } finally {
+      await workerPool.release(job.id);
+    }
+  }
+
+  private async executeStep(resolved: ResolvedStep, job: ContentJob, checkpoints: JobCheckpoints, token: CancellationToken): Promise<StepOutput> {
+    token.throwIfCancelled();
+    this.stepsInFlight.add(job.id);
+    try {
+      return await resolved.step.run({ job, checkpoints, options: resolved.options, token });
+    } finally {
+      this.stepsInFlight.delete(job.id);
+    }
+  }
+
+  async approveJob(jobId: number, reviewer?: string): Promise<ContentJob> {
+    const job = await storage.getContentJobById(jobId);
+    if (!job) {
+      throw new Error('Job not found');
     }
+
+    if (job.status !== 'awaiting_review') {
+      throw new Error(`Job ${jobId} is not awaiting review (status: ${job.status})`);
+    }
+
+    await storage.updateContentJob(jobId, { status: 'ready_for_upload' });
+    await storage.mergeContentJobMetadata(jobId, {
+      review: { decision: 'approved', reviewer, reviewedAt: new Date().toISOString() }
+    });
+
+    await pipelineEvents.publish({
+      type: 'JobReviewed',
+      jobId,
+      title: job.title,
+      decision: 'approved',
+      reviewer,
+      scheduledTime: job.scheduledTime?.toISOString()
+    });
+
+    return (await storage.getContentJobById(jobId)) || job;
+  }
+
+  async rejectJob(jobId: number, reason: string, reviewer?: string): Promise<ContentJob> {
+    const job = await storage.getContentJobById(jobId);
+    if (!job) {
+      throw new Error('Job not found');
+    }
+
+    if (job.status !== 'awaiting_review') {
+      throw new Error(`Job ${jobId} is not awaiting review (status: ${job.status})`);
+    }
+
+    await storage.updateContentJob(jobId, { status: 'rejected', errorMessage: reason });
+    await storage.mergeContentJobMetadata(jobId, {
+      review: { decision: 'rejected', reason, reviewer, reviewedAt: new Date().toISOString() }
+    });
+
+    await pipelineEvents.publish({ type: 'JobReviewed', jobId, title: job.title, decision: 'rejected', reason, reviewer });
+
+    return (await storage.getContentJobById(jobId)) || job;
   }
 
   async processScheduledUploads(): Promise<void> {
+    if (this.draining) return;
+    const lease = await leaseManager.withLease(SCHEDULED_UPLOADS_LEASE, () => this.uploadDueJobs());
+    if (!lease.acquired) {
+      console.log('Scheduled uploads are being processed by another instance, skipping...');
+    }
+  }
+
+  private async uploadDueJobs(): Promise<void> {
     try {
       const scheduledJobs = await storage.getScheduledContentJobs();
+      const heldForReview = await storage.getContentJobsByStatus('awaiting_review');
       const now = new Date();
       
       console.log(`🕐 Checking ${scheduledJobs.length} scheduled jobs for upload`);
+      if (heldForReview.length > 0) {
+        console.log(`🔒 ${heldForReview.length} job(s) held for review: ${heldForReview.map(job => job.id).join(', ')}`);
+      }
       
       for (const job of scheduledJobs) {
+        if (this.draining) break;
         if (job.scheduledTime && job.scheduledTime <= now && job.status === 'ready_for_upload') {
           console.log(`🚀 Processing scheduled job ${job.id}: ${job.title}`);
           
           // Verify Google Drive upload is complete before YouTube upload
           if (!job.driveUrl) {
             console.warn(`⚠️  Job ${job.id} not ready - Google Drive upload not completed yet`);
-            await storage.createActivityLog({
-              type: 'warning',
+            await pipelineEvents.publish({
+              type: 'SystemNotice',
+              category: 'upload',
+              level: 'warning',
               title: 'YouTube Upload Delayed',
               description: `Job ${job.id} waiting for Google Drive upload to complete`,
-              status: 'warning',
-              metadata: { jobId: job.id, reason: 'Google Drive upload pending' }
+              jobId: job.id,
+              metadata: { reason: 'Google Drive upload pending' }
             });
             continue;
           }
           
-          try {
-            // Update job status to uploading
-            await storage.updateContentJob(job.id, {
-              status: 'uploading',
-              progress: 100
-            });
-            
-            await storage.createPipelineLog({
-              jobId: job.id,
-              step: 'youtube_upload',
-              status: 'starting',
-              message: 'Starting YouTube upload',
-              details: 'Uploading video and thumbnail to YouTube channel',
-              progress: 100
-            });
-            
-            console.log(`✅ Starting YouTube upload for job ${job.id} - Google Drive files confirmed`);
-            const youtubeId = await youtubeUploader.uploadVideo(job.id);
-            
-            // Update job as completed
-            await storage.updateContentJob(job.id, {
-              status: 'completed',
-              youtubeId: youtubeId,
-              progress: 100
-            });
-            
-            await storage.createPipelineLog({
-              jobId: job.id,
-              step: 'youtube_upload',
-              status: 'completed',
-              message: 'YouTube upload completed successfully',
-              details: `Video published to YouTube with ID: ${youtubeId}`,
-              progress: 100,
-              metadata: { youtubeId }
-            });
-            
-            console.log(`✅ Successfully uploaded job ${job.id} to YouTube: ${youtubeId}`);
-            
-            await storage.createActivityLog({
-              type: 'success',
-              title: 'Video Published Successfully',
-              description: `"${job.title}" has been uploaded to YouTube`,
-              status: 'success',
-              metadata: { jobId: job.id, youtubeId }
-            });
-            
-          } catch (uploadError) {
-            console.error(`❌ Upload failed for job ${job.id}:`, uploadError);
-            
-            // Update job as failed
-            await storage.updateContentJob(job.id, {
-              status: 'failed',
-              progress: 100
-            });
-            
-            await storage.createPipelineLog({
-              jobId: job.id,
-              step: 'youtube_upload',
-              status: 'error',
-              message: 'YouTube upload failed',
-              details: uploadError.message,
-              metadata: { error: uploadError.message }
-            });
-            
-            await storage.createActivityLog({
-              type: 'error',
-              title: 'YouTube Upload Failed',
-              description: `Failed to upload "${job.title}": ${uploadError.message}`,
-              status: 'error',
-              metadata: { jobId: job.id, error: uploadError.message }
-            });
+          const claim = await leaseManager.withLease(`upload:${job.id}`, () => this.uploadScheduledJob(job.id), {
+            ttlMs: UPLOAD_LEASE_TTL_MS
+          });
+          if (!claim.acquired) {
+            console.log(`🔒 Job ${job.id} is already being uploaded by another instance`);
           }
         }
       }
     } catch (error) {
       console.error('Scheduled uploads error:', error);
-      await storage.createActivityLog({
-        type: 'error',
+      await pipelineEvents.publish({
+        type: 'SystemNotice',
+        category: 'upload',
+        level: 'error',
         title: 'Scheduled Upload Processing Failed',
         description: `Error processing scheduled uploads: ${error.message}`,
-        status: 'error',
         metadata: { error: error.message }
       });
     }
   }
 
+  // Runs with the job's upload lease held; re-reads the job because another instance may have uploaded it meanwhile
+  private async uploadScheduledJob(jobId: number): Promise<void> {
+    const job = await storage.getContentJobById(jobId);
+    if (!job || job.status !== 'ready_for_upload') {
+      console.log(`⏭️ Job ${jobId} is ${job?.status || 'gone'} - nothing to upload`);
+      return;
+    }
+
+    try {
+      // Update job status to uploading
+      await storage.updateContentJob(job.id, {
+        status: 'uploading',
+        progress: 100
+      });
+      
+      console.log(`✅ Starting YouTube upload for job ${job.id} - Google Drive files confirmed`);
+      const youtubeId = await this.trackUpload(job.id, () => youtubeUploader.uploadVideo(job.id));
+      
+      // Update job as completed
+      await storage.updateContentJob(job.id, {
+        status: 'completed',
+        youtubeId: youtubeId,
+        progress: 100
+      });
+      
+      // The uploader publishes UploadStarted/VideoPublished/UploadFailed itself
+      console.log(`✅ Successfully uploaded job ${job.id} to YouTube: ${youtubeId}`);
+    } catch (uploadError) {
+      console.error(`❌ Upload failed for job ${job.id}:`, uploadError);
+      
+      // Update job as failed
+      await storage.updateContentJob(job.id, {
+        status: 'failed',
+        progress: 100
+      });
+    }
+  }
+
+  // Upload started from the dashboard: the same lease as a scheduled upload, re-checked under it
+  async uploadJobNow(jobId: number): Promise<string> {
+    this.assertAcceptingWork();
+    const claim = await leaseManager.withLease(`upload:${jobId}`, async () => {
+      const job = await storage.getContentJobById(jobId);
+      if (!job) {
+        throw new Error('Job not found');
+      }
+      if (job.youtubeId) {
+        throw new JobConflictError(jobId, `Job ${jobId} is already published as ${job.youtubeId}`);
+      }
+      if (job.status !== 'ready_for_upload') {
+        throw new JobConflictError(jobId, `Job ${jobId} is ${job.status.replace(/_/g, ' ')}, not ready for upload`);
+      }
+      return await this.trackUpload(jobId, () => youtubeUploader.uploadVideo(jobId));
+    }, {
+      ttlMs: UPLOAD_LEASE_TTL_MS
+    });
+
+    if (!claim.acquired) {
+      throw new JobConflictError(jobId, `Job ${jobId} is already being uploaded`);
+    }
+    return claim.result!;
+  }
+
+  // The heartbeat keeps job recovery off a live upload; the count makes drain() wait for it
+  private async trackUpload<T>(jobId: number, upload: () => Promise<T>): Promise<T> {
+    const stopHeartbeat = this.startHeartbeat(jobId);
+    this.activeUploads++;
+    try {
+      return await upload();
+    } finally {
+      this.activeUploads--;
+      await stopHeartbeat();
+    }
+  }
+
+  // The lease keeps the batch to one instance at a time, including across replicas and restarts
   async runDailyAutomation(): Promise<void> {
-    if (this.isRunning) {
+    if (this.draining) return;
+    const lease = await leaseManager.withLease(DAILY_AUTOMATION_LEASE, () => this.createDailyBatch());
+    if (!lease.acquired) {
       console.log('Daily automation already running, skipping...');
-      return;
     }
+  }
 
+  private async createDailyBatch(): Promise<void> {
     try {
-      this.isRunning = true;
       console.log('Starting daily automation process...');
 
-      await storage.createActivityLog({
-        type: 'system',
+      const plan = await loadProductionPlan();
+      const target = this.describePlanTarget(plan);
+
+      await pipelineEvents.publish({
+        type: 'SystemNotice',
+        category: 'system',
+        level: 'info',
         title: 'Daily Automation Started',
-        description: 'Automated cron job initiated - target: 1 long video + 1 short',
-        status: 'info',
-        metadata: { target: '1 long video + 1 short', startTime: new Date().toISOString() }
+        description: `Automated cron job initiated - target: ${target}`,
+        metadata: { target, slots: plan.slots.length, startTime: new Date().toISOString() }
       });
 
-      // Get high priority trending topics
-      const highPriorityTopics = await storage.getTrendingTopicsByPriority('high');
-      
-      if (highPriorityTopics.length === 0) {
-        console.log('No high priority topics found, using medium priority');
-        const mediumPriorityTopics = await storage.getTrendingTopicsByPriority('medium');
-        if (mediumPriorityTopics.length >= 2) {
-          await this.processTopicsForDay(mediumPriorityTopics.slice(0, 2));
+      const topics = await storage.getTrendingTopics(PLAN_TOPIC_POOL_SIZE);
+      const topicSelection = await loadTopicSelection();
+      const selectionContext = await buildSelectionContext(topicSelection);
+      const usedTopicIds = new Set<number>();
+      const unfilled: UnfilledSlot[] = [];
+      const runs: Array<{ slot: string; run: Promise<ContentJob> }> = [];
+
+      // Topic slots first - they run in parallel through the worker pool
+      plan.slots.forEach((slot, index) => {
+        if (slot.videoType === 'short' && slot.selection.deriveFromLongForm) return;
+
+        const label = describeSlot(slot, index);
+        const strategy = slot.selection.strategy
+          ? TOPIC_STRATEGIES[slot.selection.strategy]
+          : getChannelStrategy(topicSelection, slot.channelId || youtubeUploader.getChannelId());
+        const candidates = filterTopicsForSlot(slot, topics, usedTopicIds, selectionContext.now);
+        const selected = strategy.select(candidates, slot.count, selectionContext);
+        selected.forEach(({ topic }) => usedTopicIds.add(topic.id));
+
+        if (selected.length < slot.count) {
+          unfilled.push({
+            slot: label,
+            videoType: slot.videoType,
+            requested: slot.count,
+            filled: selected.length,
+            reason: `Only ${selected.length} of ${slot.count} qualifying topic(s)${slot.category ? ` in ${slot.category}` : ''} for ${strategy.name}`
+          });
         }
-      } else if (highPriorityTopics.length >= 2) {
-        await this.processTopicsForDay(highPriorityTopics.slice(0, 2));
-      } else {
-        // Mix of high and medium priority
-        const mediumTopics = await storage.getTrendingTopicsByPriority('medium');
-        const selectedTopics = [...highPriorityTopics, ...mediumTopics].slice(0, 2);
-        await this.processTopicsForDay(selectedTopics);
-      }
 
-      await storage.createActivityLog({
-        type: 'system',
-        title: 'Daily Automation Completed',
-        description: 'Successfully created daily content batch',
-        status: 'success',
-        metadata: { 
-          completedAt: new Date().toISOString(),
-          totalJobs: 2 
+        for (const { topic, reason } of selected) {
+          console.log(`🎯 Slot ${label} picked topic ${topic.id} - ${reason}`);
+          runs.push({
+            slot: label,
+            run: this.processTrendingTopic(topic.id, slot.videoType, slot.channelId, `${label} - ${reason}`)
+          });
         }
       });
 
-      console.log('Daily automation completed successfully');
+      const results = await Promise.allSettled(runs.map(({ run }) => run));
+      const jobs: ContentJob[] = [];
+      results.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+          jobs.push(result.value);
+        } else {
+          console.error(`❌ Slot ${runs[index].slot} failed to create its job:`, result.reason);
+        }
+      });
+
+      // Then Shorts cut from the long-form videos made above
+      const derivedParents = new Set<number>();
+      let derivedCount = 0;
+      for (let index = 0; index < plan.slots.length; index++) {
+        const slot = plan.slots[index];
+        if (slot.videoType !== 'short' || !slot.selection.deriveFromLongForm) continue;
+
+        const label = describeSlot(slot, index);
+        const parents = jobs.filter(job =>
+          job.videoType === 'long_form' &&
+          job.videoPath &&
+          !FINAL_STATUSES.includes(job.status) &&
+          !derivedParents.has(job.id) &&
+          (!slot.category || jobMetadata(job).category === slot.category) &&
+          (!slot.channelId || job.channelId === slot.channelId)
+        ).slice(0, slot.count);
+
+        let filled = 0;
+        for (const parent of parents) {
+          derivedParents.add(parent.id);
+          try {
+            const { created } = await this.deriveShort(parent.id);
+            if (created) {
+              filled++;
+            }
+          } catch (error) {
+            console.error(`❌ Slot ${label} could not derive a Short from job ${parent.id}:`, error);
+          }
+        }
+
+        derivedCount += filled;
+        if (filled < slot.count) {
+          unfilled.push({
+            slot: label,
+            videoType: 'short',
+            requested: slot.count,
+            filled,
+            reason: `Only ${filled} of ${slot.count} Short(s) derived - not enough finished long-form videos in this run`
+          });
+        }
+      }
+
+      const totalJobs = jobs.length + derivedCount;
+
+      if (unfilled.length > 0) {
+        console.warn(`⚠️ Production plan not fully filled: ${unfilled.map(slot => `${slot.slot} ${slot.filled}/${slot.requested}`).join(', ')}`);
+      }
+
+      await pipelineEvents.publish({ type: 'DailyRunCompleted', target, totalJobs, unfilled });
+
+      console.log(`Daily automation completed: ${totalJobs} video(s) created`);
     } catch (error) {
       console.error('Daily automation error:', error);
-      await storage.createActivityLog({
-        type: 'error',
+      await pipelineEvents.publish({
+        type: 'SystemNotice',
+        category: 'system',
+        level: 'error',
         title: 'Daily Automation Failed',
         description: `Error during daily automation: ${error.message}`,
-        status: 'error',
         metadata: { error: error.message }
       });
-    } finally {
-      this.isRunning = false;
     }
   }
 
-  private async processTopicsForDay(topics: TrendingTopic[]): Promise<void> {
-    const jobs: Promise<ContentJob>[] = [];
-    
-    // Create one long-form video from first topic
-    if (topics[0]) {
-      jobs.push(this.processTrendingTopic(topics[0].id, 'long_form'));
-    }
-    
-    // Create one short from second topic (or same topic if only one available)
-    const shortTopic = topics[1] || topics[0];
-    if (shortTopic) {
-      jobs.push(this.processTrendingTopic(shortTopic.id, 'short'));
-    }
-    
-    // Process both in parallel
-    const completedJobs = await Promise.all(jobs);
-    console.log(`Created ${completedJobs.length} videos for today`);
+  private describePlanTarget(plan: ProductionPlan): string {
+    const count = (videoType: 'long_form' | 'short') =>
+      plan.slots.filter(slot => slot.videoType === videoType).reduce((sum, slot) => sum + slot.count, 0);
+    return `${count('long_form')} long video(s) + ${count('short')} short(s)`;
   }
 
   async getActivePipelineStatus(): Promise<any> {
     const activeJobs = await storage.getActiveContentJobs();
     const scheduledJobs = await storage.getScheduledContentJobs();
+    const queue = await workerPool.getQueue();
+    const concurrency = await workerPool.getConcurrency();
     
     return {
-      active: activeJobs.map(job => ({
-        id: job.id,
-        title: job.title,
-        videoType: job.videoType,
-        status: job.status,
-        progress: job.progress,
-        createdAt: job.createdAt
-      })),
+      active: activeJobs.map(job => {
+        const entry = queue.find(item => item.jobId === job.id && item.status === 'waiting');
+        return {
+          id: job.id,
+          title: job.title,
+          videoType: job.videoType,
+          status: job.status,
+          progress: job.progress,
+          createdAt: job.createdAt,
+          queuedFor: entry?.stage,
+          queuePosition: entry
+            ? queue.filter(item => item.stage === entry.stage && item.status === 'waiting').indexOf(entry) + 1
+            : undefined
+        };
+      }),
       scheduled: scheduledJobs.map(job => ({
         id: job.id,
         title: job.title,
@@ -602,7 +1001,14 @@ export class AutomationPipeline {
         scheduledTime: job.scheduledTime,
         status: 'ready'
       })),
-      isRunning: this.isRunning
+      workers: Object.fromEntries(
+        (Object.keys(concurrency) as WorkerStage[]).map(stage => [stage, {
+          limit: concurrency[stage],
+          running: queue.filter(item => item.stage === stage && item.status === 'running').length,
+          waiting: queue.filter(item => item.stage === stage && item.status === 'waiting').length
+        }])
+      ),
+      isRunning: await leaseManager.isHeld(DAILY_AUTOMATION_LEASE)
     };
   }
 }
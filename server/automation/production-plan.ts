@@ -0,0 +1,95 @@
+import { z } from 'zod';
+import { storage } from '../storage';
+import { TOPIC_STRATEGY_NAMES } from './topic-selection';
+import type { TrendingTopic } from '@shared/schema';
+
+export const PRODUCTION_PLAN_SETTING_KEY = 'production_plan';
+
+const topicSelectionRuleSchema = z.object({
+  priorities: z.array(z.enum(['high', 'medium', 'low'])).min(1).default(['high', 'medium']),
+  minSearchVolume: z.number().int().min(0).default(0),
+  maxAgeHours: z.number().positive().optional(),
+  // Overrides the channel's strategy from the topic_selection setting for this slot
+  strategy: z.enum(TOPIC_STRATEGY_NAMES).optional(),
+  // Shorts only: cut the Short from a long-form video made earlier in the same run instead of picking a topic
+  deriveFromLongForm: z.boolean().default(false)
+});
+
+const productionSlotSchema = z.object({
+  name: z.string().min(1).optional(),
+  videoType: z.enum(['long_form', 'short']),
+  count: z.number().int().min(1).max(20).default(1),
+  channelId: z.string().min(1).optional(), // defaults to the configured upload channel
+  category: z.string().min(1).optional(), // only topics from this category
+  selection: topicSelectionRuleSchema.default({})
+});
+
+export const productionPlanSchema = z.object({
+  slots: z.array(productionSlotSchema).max(50)
+});
+
+export type TopicSelectionRule = z.infer<typeof topicSelectionRuleSchema>;
+export type ProductionSlot = z.infer<typeof productionSlotSchema>;
+export type ProductionPlan = z.infer<typeof productionPlanSchema>;
+
+// Slot that could not be filled completely by a daily run
+export interface UnfilledSlot {
+  slot: string;
+  videoType: 'long_form' | 'short';
+  requested: number;
+  filled: number;
+  reason: string;
+}
+
+// Same as the original hardcoded batch: one long-form video and one Short from the best topics
+export const DEFAULT_PRODUCTION_PLAN: ProductionPlan = {
+  slots: [
+    {
+      name: 'daily-long-form',
+      videoType: 'long_form',
+      count: 1,
+      selection: { priorities: ['high', 'medium'], minSearchVolume: 0, deriveFromLongForm: false }
+    },
+    {
+      name: 'daily-short',
+      videoType: 'short',
+      count: 1,
+      selection: { priorities: ['high', 'medium'], minSearchVolume: 0, deriveFromLongForm: false }
+    }
+  ]
+};
+
+export async function loadProductionPlan(): Promise<ProductionPlan> {
+  try {
+    const setting = await storage.getAutomationSetting(PRODUCTION_PLAN_SETTING_KEY);
+    if (!setting) {
+      return DEFAULT_PRODUCTION_PLAN;
+    }
+    return productionPlanSchema.parse(JSON.parse(setting.value));
+  } catch (error) {
+    console.warn('⚠️ Invalid production plan setting, using defaults:', error instanceof Error ? error.message : error);
+    return DEFAULT_PRODUCTION_PLAN;
+  }
+}
+
+export function describeSlot(slot: ProductionSlot, index: number): string {
+  return slot.name || [slot.videoType, slot.category, slot.channelId].filter(Boolean).join('/') || `slot-${index + 1}`;
+}
+
+// Topics that qualify for the slot; topics already used by earlier slots are skipped.
+// Which of them get picked is up to the slot's topic selection strategy.
+export function filterTopicsForSlot(
+  slot: ProductionSlot,
+  topics: TrendingTopic[],
+  usedTopicIds: Set<number>,
+  now: Date = new Date()
+): TrendingTopic[] {
+  const rule = slot.selection;
+  return topics.filter(topic =>
+    !usedTopicIds.has(topic.id) &&
+    rule.priorities.includes(topic.priority as 'high' | 'medium' | 'low') &&
+    topic.searchVolume >= rule.minSearchVolume &&
+    (!slot.category || topic.category === slot.category) &&
+    (!rule.maxAgeHours || now.getTime() - topic.createdAt.getTime() <= rule.maxAgeHours * 60 * 60 * 1000)
+  );
+}
@@ -0,0 +1,88 @@
+import { z } from 'zod';
+import { storage } from '../storage';
+
+export const RETRY_POLICY_SETTING_KEY = 'pipeline_retry_policy';
+
+const stepRetryPolicySchema = z.object({
+  maxAttempts: z.number().int().min(1).max(10),
+  baseDelayMs: z.number().int().min(0),
+  maxDelayMs: z.number().int().min(0),
+  jitter: z.number().min(0).max(1), // fraction of the delay that is randomized
+  retryableErrors: z.array(z.string().min(1)) // numbers and "5xx" ranges match the HTTP status; other text matches the error message or code, case-insensitively
+});
+
+export const retryPolicyConfigSchema = z.object({
+  default: stepRetryPolicySchema,
+  steps: z.record(z.string(), stepRetryPolicySchema.partial()).default({})
+});
+
+export type StepRetryPolicy = z.infer<typeof stepRetryPolicySchema>;
+export type RetryPolicyConfig = z.infer<typeof retryPolicyConfigSchema>;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicyConfig = {
+  default: {
+    maxAttempts: 3,
+    baseDelayMs: 5000,
+    maxDelayMs: 120000,
+    jitter: 0.3,
+    retryableErrors: [
+      '429', '5xx', 'rate limit', 'quota', 'resource exhausted', 'unavailable',
+      'timeout', 'timed out', 'ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'socket hang up'
+    ]
+  },
+  steps: {
+    // Renders are expensive - one retry is enough
+    video_creation: { maxAttempts: 2, baseDelayMs: 15000 },
+    video_processing: { maxAttempts: 2 },
+    file_organization: { maxAttempts: 4 },
+    upload_scheduling: { maxAttempts: 1 }
+  }
+};
+
+export async function loadRetryPolicy(): Promise<RetryPolicyConfig> {
+  try {
+    const setting = await storage.getAutomationSetting(RETRY_POLICY_SETTING_KEY);
+    if (!setting) {
+      return DEFAULT_RETRY_POLICY;
+    }
+    return retryPolicyConfigSchema.parse(JSON.parse(setting.value));
+  } catch (error) {
+    console.warn('⚠️ Invalid retry policy setting, using defaults:', error instanceof Error ? error.message : error);
+    return DEFAULT_RETRY_POLICY;
+  }
+}
+
+export function getStepRetryPolicy(config: RetryPolicyConfig, step: string): StepRetryPolicy {
+  return { ...config.default, ...(config.steps[step] || {}) };
+}
+
+export function isRetryableError(error: unknown, policy: StepRetryPolicy): boolean {
+  const err = error as { message?: unknown; code?: unknown; status?: unknown; response?: { status?: unknown } } | null | undefined;
+  // Status patterns only look at status fields: messages are full of unrelated numbers ("512 MB", "frame 530")
+  const statuses = [err?.status, err?.code, err?.response?.status]
+    .map(value => Number(value))
+    .filter(value => Number.isInteger(value) && value > 0);
+  const haystack = [err?.message, err?.code]
+    .filter(value => value !== undefined && value !== null)
+    .map(value => String(value).toLowerCase())
+    .join(' ');
+
+  return policy.retryableErrors.some(pattern => {
+    const range = /^(\d)xx$/i.exec(pattern);
+    if (range) {
+      const base = parseInt(range[1]) * 100;
+      return statuses.some(status => status >= base && status < base + 100);
+    }
+    if (/^\d+$/.test(pattern)) {
+      return statuses.includes(Number(pattern));
+    }
+    return haystack.includes(pattern.toLowerCase());
+  });
+}
+
+// Exponential backoff: base * 2^(attempt-1), capped, then spread by +/- jitter
+export function computeBackoffDelay(attempt: number, policy: StepRetryPolicy): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt - 1));
+  const spread = exponential * policy.jitter;
+  return Math.max(0, Math.round(exponential - spread + Math.random() * spread * 2));
+}
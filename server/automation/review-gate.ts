@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { storage } from '../storage';
+import type { ContentJob } from '@shared/schema';
+
+export const REVIEW_GATE_SETTING_KEY = 'review_gate';
+
+export const reviewGateConfigSchema = z.object({
+  videoTypes: z.object({
+    long_form: z.boolean(),
+    short: z.boolean()
+  }),
+  // Per-channel override, keyed by YouTube channel id; takes precedence over the video type
+  channels: z.record(z.string(), z.boolean()).default({})
+});
+
+export type ReviewGateConfig = z.infer<typeof reviewGateConfigSchema>;
+
+// The gate is opt-in: without configuration jobs go straight to ready_for_upload
+export const DEFAULT_REVIEW_GATE: ReviewGateConfig = {
+  videoTypes: { long_form: false, short: false },
+  channels: {}
+};
+
+export async function loadReviewGate(): Promise<ReviewGateConfig> {
+  try {
+    const setting = await storage.getAutomationSetting(REVIEW_GATE_SETTING_KEY);
+    if (!setting) {
+      return DEFAULT_REVIEW_GATE;
+    }
+    return reviewGateConfigSchema.parse(JSON.parse(setting.value));
+  } catch (error) {
+    console.warn('⚠️ Invalid review gate setting, using defaults:', error instanceof Error ? error.message : error);
+    return DEFAULT_REVIEW_GATE;
+  }
+}
+
+export function requiresReview(config: ReviewGateConfig, job: Pick<ContentJob, 'videoType' | 'channelId'>): boolean {
+  if (job.channelId && config.channels[job.channelId] !== undefined) {
+    return config.channels[job.channelId];
+  }
+  return config.videoTypes[job.videoType as 'long_form' | 'short'] ?? false;
+}
@@ -1,14 +1,23 @@
 import cron from 'node-cron';
 import { trendingAnalyzer } from '../services/trending-analyzer';
 import { automationPipeline } from './pipeline';
+import { jobRecovery } from './job-recovery';
 import { storageManager } from '../services/storage-manager';
+import { webhookDispatcher } from '../services/webhooks';
+import { notificationCenter } from '../services/notifications';
 import { storage } from '../storage';
+import { pipelineEvents } from '../services/event-bus';
+import { leaseManager, instanceId } from './leases';
+
+// Every replica's cron fires at the same minute; holding the lease a while after the task finishes
+// stops a replica that fires a few seconds late from running it a second time
+const CRON_LEASE_HOLD_MS = 5 * 60 * 1000;
 
 export class AutomationScheduler {
   private jobs: Map<string, cron.ScheduledTask> = new Map();
 
   init(): void {
-    console.log('Initializing automation scheduler...');
+    console.log(`Initializing automation scheduler on instance ${instanceId}...`);
 
     // Daily trending analysis at 6:00 AM IST (00:30 UTC)
     this.scheduleJob('trending-analysis', '30 0 * * *', async () => {
@@ -35,6 +44,29 @@ export class AutomationScheduler {
       await automationPipeline.processScheduledUploads();
     });
 
+    // Heartbeat watchdog every 5 minutes - flags stalled jobs and recovers ones whose process is gone
+    this.scheduleJob('job-watchdog', '*/5 * * * *', async () => {
+      const recovered = await jobRecovery.checkHeartbeats();
+      if (recovered.length > 0) {
+        console.log(`♻️ Watchdog recovered ${recovered.length} job(s)`);
+      }
+    });
+
+    // Retry failed webhook deliveries every 5 minutes
+    this.scheduleJob('webhook-retry', '*/5 * * * *', async () => {
+      const retried = await webhookDispatcher.retryDueDeliveries();
+      if (retried > 0) {
+        console.log(`📬 Retried ${retried} webhook delivery(s)`);
+      }
+    });
+
+    // Daily notification digest - sent in the hour configured in the notifications setting
+    this.scheduleJob('notification-digest', '5 * * * *', async () => {
+      if (await notificationCenter.sendDailyDigestIfDue()) {
+        console.log('📨 Daily notification digest sent');
+      }
+    });
+
     // Storage cleanup weekly on Sundays at 2:00 AM IST (20:30 UTC Saturday)
     this.scheduleJob('storage-cleanup', '30 20 * * 6', async () => {
       await storageManager.cleanupOldFiles(30);
@@ -57,15 +89,20 @@ export class AutomationScheduler {
     const job = cron.schedule(cronExpression, async () => {
       console.log(`Starting scheduled task: ${name}`);
       try {
-        await task();
+        const lease = await leaseManager.withLease(`cron:${name}`, task, { holdMs: CRON_LEASE_HOLD_MS });
+        if (!lease.acquired) {
+          console.log(`Skipped scheduled task ${name} - another instance is running it`);
+          return;
+        }
         console.log(`Completed scheduled task: ${name}`);
       } catch (error) {
         console.error(`Error in scheduled task ${name}:`, error);
-        await storage.createActivityLog({
-          type: 'error',
+        await pipelineEvents.publish({
+          type: 'SystemNotice',
+          category: 'system',
+          level: 'error',
           title: `Scheduled Task Failed: ${name}`,
           description: `Error in ${name}: ${error.message}`,
-          status: 'error',
           metadata: { taskName: name, cronExpression, error: error.message }
         });
       }
@@ -85,11 +122,12 @@ export class AutomationScheduler {
     });
 
     // Log scheduler start
-    storage.createActivityLog({
-      type: 'system',
+    pipelineEvents.publish({
+      type: 'SystemNotice',
+      category: 'system',
+      level: 'success',
       title: 'Automation Scheduler Started',
       description: `Started ${this.jobs.size} scheduled jobs`,
-      status: 'success',
       metadata: { 
         jobNames: Array.from(this.jobs.keys()),
         timezone: 'Asia/Kolkata',
@@ -105,11 +143,12 @@ export class AutomationScheduler {
       console.log(`Stopped job: ${name}`);
     });
 
-    storage.createActivityLog({
-      type: 'system',
+    pipelineEvents.publish({
+      type: 'SystemNotice',
+      category: 'system',
+      level: 'warning',
       title: 'Automation Scheduler Stopped',
       description: 'All scheduled jobs have been stopped',
-      status: 'warning',
       metadata: { 
         stopTime: new Date().toISOString(),
         jobCount: this.jobs.size 
@@ -152,11 +191,12 @@ export class AutomationScheduler {
     });
 
     // Log the reset
-    await storage.createActivityLog({
-      type: 'system',
+    await pipelineEvents.publish({
+      type: 'SystemNotice',
+      category: 'system',
+      level: 'success',
       title: 'Automation System Reset',
       description: 'System was reset and restarted with fresh state',
-      status: 'success',
       metadata: { 
         action: 'reset_start',
         timestamp: new Date().toISOString(),
@@ -215,13 +255,7 @@ export class AutomationScheduler {
 
       const allHealthy = Object.values(checks).every(check => check.status === 'healthy');
 
-      await storage.createActivityLog({
-        type: 'system',
-        title: 'System Health Check',
-        description: allHealthy ? 'All systems operational' : 'Some systems need attention',
-        status: allHealthy ? 'success' : 'warning',
-        metadata: { checks, timestamp: new Date().toISOString() }
-      });
+      await pipelineEvents.publish({ type: 'HealthChecked', healthy: allHealthy, checks });
 
       // Update system status based on health
       const systemStatus = allHealthy ? 'active' : 'degraded';
@@ -233,11 +267,12 @@ export class AutomationScheduler {
 
     } catch (error) {
       console.error('Health check error:', error);
-      await storage.createActivityLog({
-        type: 'error',
+      await pipelineEvents.publish({
+        type: 'SystemNotice',
+        category: 'system',
+        level: 'error',
         title: 'Health Check Failed',
         description: `System health check failed: ${error.message}`,
-        status: 'error',
         metadata: { error: error.message }
       });
     }
@@ -315,11 +350,12 @@ export class AutomationScheduler {
       console.log(`Updated system stats for ${today}`);
     } catch (error) {
       console.error('Stats update error:', error);
-      await storage.createActivityLog({
-        type: 'error',
+      await pipelineEvents.publish({
+        type: 'SystemNotice',
+        category: 'system',
+        level: 'error',
         title: 'Stats Update Failed',
         description: `Error updating system stats: ${error.message}`,
-        status: 'error',
         metadata: { error: error.message }
       });
     }
@@ -342,11 +378,12 @@ export class AutomationScheduler {
         // Delete old topics
         await storage.deleteOldTrendingTopics(twentyFourHoursAgo);
         
-        await storage.createActivityLog({
-          type: 'system',
+        await pipelineEvents.publish({
+          type: 'SystemNotice',
+          category: 'system',
+          level: 'info',
           title: 'Auto Cleanup - Old Topics Removed',
           description: `Automatically deleted ${oldTopics.length} topics older than 24 hours`,
-          status: 'info',
           metadata: { 
             deletedCount: oldTopics.length,
             cutoffTime: twentyFourHoursAgo.toISOString(),
@@ -370,11 +407,12 @@ export class AutomationScheduler {
 
     } catch (error) {
       console.error('Auto cleanup and regenerate error:', error);
-      await storage.createActivityLog({
-        type: 'error',
+      await pipelineEvents.publish({
+        type: 'SystemNotice',
+        category: 'system',
+        level: 'error',
         title: 'Auto Cleanup Failed',
         description: `Error during auto cleanup: ${error.message}`,
-        status: 'error',
         metadata: { error: error.message, automated: true }
       });
     }
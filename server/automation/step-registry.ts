@@ -0,0 +1,55 @@
+import type { ZodTypeAny } from 'zod';
+import type { CancellationToken } from '../services/cancellation';
+import type { WorkerStage } from './worker-pool';
+import { BUILT_IN_STEPS } from './builtin-steps';
+import type { ContentJob, JobCheckpoints } from '@shared/schema';
+
+export type StepOutput = Record<string, any>;
+
+export interface StepContext {
+  job: ContentJob;
+  checkpoints: JobCheckpoints; // outputs of the steps that already finished
+  options: Record<string, any>; // from the pipeline definition, parsed with optionsSchema
+  token: CancellationToken;
+}
+
+// A unit of pipeline work. The orchestrator handles ordering, checkpoints, retries, worker
+// slots and cancellation; a step only does its work and returns what later steps need.
+export interface PipelineStepDefinition {
+  id: string;
+  description: string;
+  stage: WorkerStage | null; // worker pool slot held while the step runs; null for cheap steps
+  optionsSchema?: ZodTypeAny; // validates and fills in defaults for the step's options
+  run(context: StepContext): Promise<StepOutput>;
+}
+
+export class StepRegistry {
+  private steps = new Map<string, PipelineStepDefinition>();
+
+  constructor(steps: PipelineStepDefinition[] = []) {
+    steps.forEach(step => this.register(step));
+  }
+
+  register(step: PipelineStepDefinition): void {
+    if (this.steps.has(step.id)) {
+      throw new Error(`Pipeline step ${step.id} is already registered`);
+    }
+    this.steps.set(step.id, step);
+  }
+
+  get(id: string): PipelineStepDefinition | undefined {
+    return this.steps.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.steps.has(id);
+  }
+
+  list(): PipelineStepDefinition[] {
+    return Array.from(this.steps.values());
+  }
+}
+
+// New steps (captions, QA, extra exports) register here and are then placed in the pipeline
+// definition - the orchestrator itself does not need to change
+export const stepRegistry = new StepRegistry(BUILT_IN_STEPS);
@@ -0,0 +1,224 @@
+import { z } from 'zod';
+import { storage } from '../storage';
+import { sourceReputation, titleWords, similarity } from '../services/topic-scoring';
+import { jobMetadata, trendingData, type ContentJob, type TrendingTopic } from '@shared/schema';
+
+export const TOPIC_SELECTION_SETTING_KEY = 'topic_selection';
+
+export const TOPIC_STRATEGY_NAMES = [
+  'priority',
+  'freshness_weighted',
+  'category_round_robin',
+  'avoid_recently_covered',
+  'highest_quality_source'
+] as const;
+
+export type TopicStrategyName = typeof TOPIC_STRATEGY_NAMES[number];
+
+const topicStrategyNameSchema = z.enum(TOPIC_STRATEGY_NAMES);
+
+export const topicSelectionConfigSchema = z.object({
+  default: topicStrategyNameSchema,
+  // Per-channel strategy, keyed by YouTube channel id
+  channels: z.record(z.string(), topicStrategyNameSchema).default({}),
+  freshnessHalfLifeHours: z.number().positive().default(24),
+  recentCoverageDays: z.number().int().min(1).max(90).default(7)
+});
+
+export type TopicSelectionConfig = z.infer<typeof topicSelectionConfigSchema>;
+
+// Matches the original "high priority first, then by search volume" selection
+export const DEFAULT_TOPIC_SELECTION: TopicSelectionConfig = {
+  default: 'priority',
+  channels: {},
+  freshnessHalfLifeHours: 24,
+  recentCoverageDays: 7
+};
+
+export interface TopicSelectionContext {
+  config: TopicSelectionConfig;
+  recentJobs: ContentJob[]; // jobs created within recentCoverageDays, newest first
+  now: Date;
+}
+
+// A picked topic and the human-readable reason stored on its job
+export interface TopicPick {
+  topic: TrendingTopic;
+  reason: string;
+}
+
+export interface TopicSelectionStrategy {
+  name: TopicStrategyName;
+  description: string;
+  select(candidates: TrendingTopic[], count: number, context: TopicSelectionContext): TopicPick[];
+}
+
+const PRIORITY_RANK: Record<string, number> = { high: 0, medium: 1, low: 2 };
+
+function ageHours(topic: TrendingTopic, now: Date): number {
+  return Math.max(0, (now.getTime() - topic.createdAt.getTime()) / (60 * 60 * 1000));
+}
+
+// Total from the scoring model; topics stored before it was introduced have none
+function topicScore(topic: TrendingTopic): number | null {
+  const total = trendingData(topic).score?.total;
+  return typeof total === 'number' ? total : null;
+}
+
+function describeScore(topic: TrendingTopic): string {
+  const score = topicScore(topic);
+  return score !== null ? `score ${score}` : `~${topic.searchVolume.toLocaleString()} searches`;
+}
+
+function byPriority(a: TrendingTopic, b: TrendingTopic): number {
+  const rank = (PRIORITY_RANK[a.priority] ?? 3) - (PRIORITY_RANK[b.priority] ?? 3);
+  if (rank !== 0) return rank;
+  const scoreDiff = (topicScore(b) ?? -1) - (topicScore(a) ?? -1);
+  return scoreDiff !== 0 ? scoreDiff : b.searchVolume - a.searchVolume;
+}
+
+const priorityStrategy: TopicSelectionStrategy = {
+  name: 'priority',
+  description: 'High priority first, then by topic score',
+  select(candidates, count) {
+    return [...candidates].sort(byPriority).slice(0, count).map(topic => ({
+      topic,
+      reason: `priority: ${topic.priority} priority with ${describeScore(topic)}`
+    }));
+  }
+};
+
+const freshnessWeightedStrategy: TopicSelectionStrategy = {
+  name: 'freshness_weighted',
+  description: 'Search volume discounted by age, halving every freshnessHalfLifeHours',
+  select(candidates, count, { config, now }) {
+    return candidates
+      .map(topic => {
+        const age = ageHours(topic, now);
+        return { topic, age, score: topic.searchVolume * Math.pow(0.5, age / config.freshnessHalfLifeHours) };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, count)
+      .map(({ topic, age, score }) => ({
+        topic,
+        reason: `freshness_weighted: ${Math.round(age)}h old, ~${topic.searchVolume.toLocaleString()} searches, weighted score ${Math.round(score).toLocaleString()}`
+      }));
+  }
+};
+
+const categoryRoundRobinStrategy: TopicSelectionStrategy = {
+  name: 'category_round_robin',
+  description: 'One topic per category in turn, starting with the category covered least recently',
+  select(candidates, count, { recentJobs }) {
+    const lastCovered = new Map<string, number>();
+    for (const job of recentJobs) {
+      const category = jobMetadata(job).category;
+      if (category && !lastCovered.has(category)) {
+        lastCovered.set(category, job.createdAt.getTime());
+      }
+    }
+
+    const byCategory = new Map<string, TrendingTopic[]>();
+    for (const topic of [...candidates].sort(byPriority)) {
+      byCategory.set(topic.category, [...(byCategory.get(topic.category) || []), topic]);
+    }
+
+    // Never-covered categories first, then the longest-ago covered
+    const order = Array.from(byCategory.keys())
+      .sort((a, b) => (lastCovered.get(a) ?? 0) - (lastCovered.get(b) ?? 0));
+
+    const picks: TopicPick[] = [];
+    for (let round = 0; picks.length < count; round++) {
+      const before = picks.length;
+      for (const category of order) {
+        const topic = byCategory.get(category)![round];
+        if (!topic || picks.length >= count) continue;
+        const covered = lastCovered.get(category);
+        picks.push({
+          topic,
+          reason: `category_round_robin: ${category} turn ${round + 1} (${covered ? `last covered ${new Date(covered).toISOString().slice(0, 10)}` : 'not covered recently'})`
+        });
+      }
+      if (picks.length === before) break;
+    }
+    return picks;
+  }
+};
+
+const avoidRecentlyCoveredStrategy: TopicSelectionStrategy = {
+  name: 'avoid_recently_covered',
+  description: 'Skips topics whose title overlaps a video made within recentCoverageDays, then by priority',
+  select(candidates, count, { config, recentJobs }) {
+    const recentTopicIds = new Set(recentJobs.map(job => job.topicId).filter((id): id is number => id !== null));
+    const recentTitles = recentJobs.map(job => titleWords(jobMetadata(job).topic || job.title));
+
+    return [...candidates]
+      .sort(byPriority)
+      .filter(topic => {
+        if (recentTopicIds.has(topic.id)) return false;
+        const words = titleWords(topic.title);
+        return recentTitles.every(recent => similarity(words, recent) < 0.5);
+      })
+      .slice(0, count)
+      .map(topic => ({
+        topic,
+        reason: `avoid_recently_covered: no similar video in the last ${config.recentCoverageDays} days; ${topic.priority} priority, ${describeScore(topic)}`
+      }));
+  }
+};
+
+const highestQualitySourceStrategy: TopicSelectionStrategy = {
+  name: 'highest_quality_source',
+  description: 'Best extracted article first: content quality, source reputation and article length',
+  select(candidates, count) {
+    return candidates
+      .map(topic => {
+        const data = trendingData(topic);
+        const domain = String(data.sourceDomain || '').replace(/^www\./, '');
+        const reputation = sourceReputation(domain);
+        const quality = Number(data.qualityScore) || 0;
+        const length = Math.min(2, (Number(data.wordCount) || 0) / 500);
+        return { topic, domain, quality, score: quality + reputation + length };
+      })
+      .sort((a, b) => b.score - a.score || b.topic.searchVolume - a.topic.searchVolume)
+      .slice(0, count)
+      .map(({ topic, domain, quality, score }) => ({
+        topic,
+        reason: `highest_quality_source: ${domain || 'unknown source'}, quality ${quality}/10, score ${score.toFixed(1)}`
+      }));
+  }
+};
+
+export const TOPIC_STRATEGIES: Record<TopicStrategyName, TopicSelectionStrategy> = {
+  priority: priorityStrategy,
+  freshness_weighted: freshnessWeightedStrategy,
+  category_round_robin: categoryRoundRobinStrategy,
+  avoid_recently_covered: avoidRecentlyCoveredStrategy,
+  highest_quality_source: highestQualitySourceStrategy
+};
+
+export async function loadTopicSelection(): Promise<TopicSelectionConfig> {
+  try {
+    const setting = await storage.getAutomationSetting(TOPIC_SELECTION_SETTING_KEY);
+    if (!setting) {
+      return DEFAULT_TOPIC_SELECTION;
+    }
+    return topicSelectionConfigSchema.parse(JSON.parse(setting.value));
+  } catch (error) {
+    console.warn('⚠️ Invalid topic selection setting, using defaults:', error instanceof Error ? error.message : error);
+    return DEFAULT_TOPIC_SELECTION;
+  }
+}
+
+export function getChannelStrategy(config: TopicSelectionConfig, channelId: string | null | undefined): TopicSelectionStrategy {
+  const name = (channelId && config.channels[channelId]) || config.default;
+  return TOPIC_STRATEGIES[name];
+}
+
+export async function buildSelectionContext(config: TopicSelectionConfig, now: Date = new Date()): Promise<TopicSelectionContext> {
+  const since = new Date(now.getTime() - config.recentCoverageDays * 24 * 60 * 60 * 1000);
+  // Failed attempts didn't cover anything
+  const recentJobs = (await storage.getContentJobsSince(since))
+    .filter(job => !['failed', 'cancelled', 'rejected'].includes(job.status));
+  return { config, recentJobs, now };
+}
@@ -0,0 +1,165 @@
+import { storage } from '../storage';
+import { instanceId } from './leases';
+import type { PipelineQueueEntry } from '@shared/schema';
+
+export type WorkerStage = 'llm' | 'tts' | 'render' | 'upload';
+
+export type StageConcurrency = Record<WorkerStage, number>;
+
+export const WORKER_POOL_SETTING_KEY = 'worker_pool_concurrency';
+
+export const DEFAULT_STAGE_CONCURRENCY: StageConcurrency = {
+  llm: 4,
+  tts: 2,
+  render: 1,
+  upload: 2
+};
+
+const DISPATCH_INTERVAL_MS = 5000;
+
+export class WorkerPool {
+  private waiters = new Map<number, () => void>();
+  private dispatching: Promise<void> = Promise.resolve();
+  private pollTimer: NodeJS.Timeout | null = null;
+
+  async getConcurrency(): Promise<StageConcurrency> {
+    try {
+      const setting = await storage.getAutomationSetting(WORKER_POOL_SETTING_KEY);
+      if (!setting) {
+        return DEFAULT_STAGE_CONCURRENCY;
+      }
+
+      const configured = JSON.parse(setting.value);
+      const concurrency = { ...DEFAULT_STAGE_CONCURRENCY };
+      for (const stage of Object.keys(concurrency) as WorkerStage[]) {
+        const limit = Number(configured?.[stage]);
+        if (Number.isInteger(limit) && limit > 0) {
+          concurrency[stage] = limit;
+        }
+      }
+      return concurrency;
+    } catch (error) {
+      console.warn('⚠️ Invalid worker pool concurrency setting, using defaults');
+      return DEFAULT_STAGE_CONCURRENCY;
+    }
+  }
+
+  // Resolves once the job holds a slot for the stage; onQueued runs if it has to wait.
+  // Aborting the signal gives up the queue entry and rejects with the abort reason.
+  async acquire(
+    jobId: number,
+    stage: WorkerStage,
+    onQueued?: (position: number) => Promise<void>,
+    signal?: AbortSignal
+  ): Promise<void> {
+    signal?.throwIfAborted();
+
+    let onAbort: (() => void) | undefined;
+    const granted = new Promise<void>((resolve, reject) => {
+      // The listener goes once the slot is granted - a job acquires several stages on one signal
+      this.waiters.set(jobId, () => {
+        if (onAbort) signal?.removeEventListener('abort', onAbort);
+        resolve();
+      });
+      onAbort = () => {
+        if (this.waiters.has(jobId)) {
+          this.release(jobId).finally(() => reject(signal!.reason));
+        }
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+    // Cancellation can land before we reach `await granted`
+    granted.catch(() => {});
+
+    await storage.enqueuePipelineStage(jobId, stage, instanceId);
+    await this.dispatch();
+
+    if (this.waiters.has(jobId)) {
+      const queue = await storage.getPipelineQueue();
+      const position = queue.filter(entry => entry.stage === stage && entry.status === 'waiting')
+        .findIndex(entry => entry.jobId === jobId) + 1;
+
+      console.log(`⏳ Job ${jobId} queued for ${stage} (position ${position})`);
+      this.startPolling();
+
+      if (onQueued) {
+        await onQueued(position);
+      }
+    }
+
+    await granted;
+  }
+
+  async release(jobId: number): Promise<void> {
+    this.waiters.delete(jobId);
+    await storage.releasePipelineStage(jobId);
+    await this.dispatch();
+  }
+
+  async getQueue(): Promise<PipelineQueueEntry[]> {
+    return await storage.getPipelineQueue();
+  }
+
+  // On startup: this instance's entries are left over from its previous process and have no
+  // waiter to wake up. Other replicas' entries stay unless their jobs stopped heartbeating.
+  async reset(staleAfterSeconds: number): Promise<void> {
+    this.waiters.clear();
+    const removed = await storage.deleteStalePipelineQueueEntries(staleAfterSeconds, instanceId);
+    if (removed > 0) {
+      console.log(`🧹 Removed ${removed} stale pipeline queue entries`);
+    }
+  }
+
+  // Run by the heartbeat watchdog: frees slots still held by instances that died
+  async purgeStale(staleAfterSeconds: number): Promise<void> {
+    const removed = await storage.deleteStalePipelineQueueEntries(staleAfterSeconds);
+    if (removed > 0) {
+      console.log(`🧹 Removed ${removed} pipeline queue entries of instances that stopped heartbeating`);
+      await this.dispatch();
+    }
+  }
+
+  private dispatch(): Promise<void> {
+    // Serialize dispatch runs so two releases cannot hand out the same slot
+    this.dispatching = this.dispatching
+      .then(() => this.grantFreeSlots())
+      .catch(error => console.error('Worker pool dispatch error:', error));
+    return this.dispatching;
+  }
+
+  private async grantFreeSlots(): Promise<void> {
+    const concurrency = await this.getConcurrency();
+
+    for (const stage of Object.keys(concurrency) as WorkerStage[]) {
+      const jobIds = await storage.claimPipelineStageSlots(stage, concurrency[stage], instanceId);
+
+      for (const jobId of jobIds) {
+        const resolve = this.waiters.get(jobId);
+        if (resolve) {
+          this.waiters.delete(jobId);
+          console.log(`▶️ Job ${jobId} started ${stage} stage`);
+          resolve();
+        }
+      }
+    }
+
+    if (this.waiters.size === 0) {
+      this.stopPolling();
+    }
+  }
+
+  // Periodic dispatch picks up slots freed by settings changes or other processes
+  private startPolling(): void {
+    if (this.pollTimer) return;
+    this.pollTimer = setInterval(() => this.dispatch(), DISPATCH_INTERVAL_MS);
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+}
+
+export const workerPool = new WorkerPool();
@@ -0,0 +1,43 @@
+import fs from 'fs';
+import { storage } from './storage';
+import { pool } from './db';
+import { automationPipeline } from './automation/pipeline';
+import { isDryRun, dryRunServices } from './services/dry-run';
+import { registerEventSubscribers } from './services/event-subscribers';
+
+// End-to-end pipeline run against local stand-ins: npm run dry-run [short|long_form]
+async function dryRun() {
+  if (!isDryRun()) {
+    throw new Error('DRY_RUN must be set - refusing to call real external services');
+  }
+
+  registerEventSubscribers();
+
+  const videoType = process.argv[2] === 'long_form' ? 'long_form' : 'short';
+  const [fixture] = dryRunServices.getFixtureArticles('space_astronomy');
+  const topic = await storage.createTrendingTopic(fixture);
+
+  console.log(`🧪 Dry run: processing fixture topic ${topic.id} as ${videoType}`);
+  const job = await automationPipeline.processTrendingTopic(topic.id, videoType);
+
+  const missing = [job.videoPath, job.thumbnailPath].filter(file => !file || !fs.existsSync(file));
+  if (job.status !== 'ready_for_upload' || missing.length > 0) {
+    throw new Error(`Job ${job.id} ended as ${job.status} with missing output: ${missing.join(', ') || 'none'}`);
+  }
+
+  console.log('✅ Dry run completed');
+  console.log(`   Video: ${job.videoPath}`);
+  console.log(`   Thumbnail: ${job.thumbnailPath}`);
+  console.log(`   Drive sink: ${job.driveUrl}`);
+}
+
+dryRun()
+  .then(async () => {
+    await pool.end();
+    process.exit(0);
+  })
+  .catch(async (error) => {
+    console.error('❌ Dry run failed:', error);
+    await pool.end().catch(() => {});
+    process.exit(1);
+  });
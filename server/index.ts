@@ -2,6 +2,8 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { FFmpegInstaller } from './services/ffmpeg-installer';
+import { automationScheduler } from './automation/scheduler';
+import { automationPipeline } from './automation/pipeline';
 
 const app = express();
 app.use(express.json());
@@ -79,22 +81,35 @@ app.use((req, res, next) => {
     }
   });
 
-  // Graceful shutdown handling
-  process.on('SIGTERM', () => {
-    console.log('🛑 SIGTERM received, shutting down gracefully...');
-    server.close(() => {
-      console.log('💤 Server closed');
-      process.exit(0);
-    });
-  });
+  // Graceful shutdown: stop the cron jobs and new pipeline work, give running steps the grace
+  // period to reach a checkpoint, then exit. Jobs still running are marked interrupted and
+  // resumed on the next start. A second signal exits right away.
+  const gracePeriodMs = (parseInt(process.env.SHUTDOWN_GRACE_PERIOD_SECONDS || '') || 120) * 1000;
+  let shuttingDown = false;
 
-  process.on('SIGINT', () => {
-    console.log('🛑 SIGINT received, shutting down gracefully...');
-    server.close(() => {
-      console.log('💤 Server closed');
-      process.exit(0);
-    });
-  });
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) {
+      console.log(`🛑 ${signal} received again, exiting without waiting for running jobs`);
+      process.exit(1);
+    }
+    shuttingDown = true;
+    console.log(`🛑 ${signal} received, shutting down gracefully...`);
+
+    automationScheduler.stop();
+    server.close(() => console.log('💤 Server closed'));
+
+    try {
+      await automationPipeline.drain(gracePeriodMs);
+    } catch (error) {
+      console.error('❌ Error while draining pipeline jobs:', error);
+    }
+
+    console.log('👋 Shutdown complete');
+    process.exit(0);
+  };
+
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
 
   server.listen({
     port,
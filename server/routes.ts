@@ -1,13 +1,42 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { automationPipeline } from "./automation/pipeline";
+import { jobMetadata } from "@shared/schema";
+import { pipelineEvents } from "./services/event-bus";
+import { registerEventSubscribers } from "./services/event-subscribers";
+import { liveUpdates } from "./services/live-updates";
+import { notificationCenter, loadNotificationConfig, notificationConfigSchema, NOTIFICATIONS_SETTING_KEY } from "./services/notifications";
+import { webhookDispatcher, webhookSubscriptionInputSchema, generateWebhookSecret, redactWebhookSecret, WEBHOOK_EVENT_TYPES } from "./services/webhooks";
+import { automationPipeline, JobConflictError } from "./automation/pipeline";
 import { automationScheduler } from "./automation/scheduler";
+import { workerPool } from "./automation/worker-pool";
+import { loadRetryPolicy, retryPolicyConfigSchema, RETRY_POLICY_SETTING_KEY } from "./automation/retry-policy";
+import { loadPipelineDefinition, pipelineDefinitionSchema, validatePipelineDefinition, PIPELINE_DEFINITION_SETTING_KEY } from "./automation/pipeline-definition";
+import { stepRegistry } from "./automation/step-registry";
+import { jobRecovery, loadJobRecovery, jobRecoveryConfigSchema, JOB_RECOVERY_SETTING_KEY } from "./automation/job-recovery";
+import { loadReviewGate, reviewGateConfigSchema, REVIEW_GATE_SETTING_KEY } from "./automation/review-gate";
+import { artifactManager, isJobArtifact, isDerivedShort } from "./automation/artifacts";
+import { loadProductionPlan, productionPlanSchema, PRODUCTION_PLAN_SETTING_KEY } from "./automation/production-plan";
+import { loadTopicSelection, topicSelectionConfigSchema, TOPIC_SELECTION_SETTING_KEY, TOPIC_STRATEGIES } from "./automation/topic-selection";
+import { instanceId } from "./automation/leases";
 import { youtubeChannelManager } from "./services/youtube-channel-manager";
 import { trendingAnalyzer } from "./services/trending-analyzer";
+import { loadTrendingSources, createTrendingSources, trendingSourcesConfigSchema, TRENDING_SOURCES_SETTING_KEY } from "./services/trending-sources";
+import { categoryCatalog, contentCategoryInputSchema } from "./services/categories";
+import { loadTopicScoring, topicScoringConfigSchema, TOPIC_SCORING_SETTING_KEY } from "./services/topic-scoring";
+import { loadNearDuplicates, nearDuplicatesConfigSchema, NEAR_DUPLICATES_SETTING_KEY } from "./services/near-duplicates";
+import { loadStoryClustering, storyClusteringConfigSchema, STORY_CLUSTERING_SETTING_KEY } from "./services/story-clustering";
 import { contentGenerator } from "./services/content-generator";
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Subscribers must be in place before anything publishes pipeline events
+  registerEventSubscribers();
+  liveUpdates.start();
+
+  // Jobs left mid-pipeline by a stopped process are resumed, retried or failed - before the
+  // scheduler starts, so no cron job claims work while the queue is being reset
+  await jobRecovery.recoverOnStartup();
+
   // Initialize automation scheduler
   automationScheduler.init();
   automationScheduler.start();
@@ -82,6 +111,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Server-Sent Events: job snapshots, log lines and raw pipeline events as they happen
+  app.get("/api/pipeline/stream", (req, res) => {
+    const jobId = req.query.jobId !== undefined ? parseInt(String(req.query.jobId)) : undefined;
+    if (jobId !== undefined && isNaN(jobId)) {
+      return res.status(400).json({ error: 'Invalid job ID' });
+    }
+    liveUpdates.connect(req, res, jobId);
+  });
+
   app.get("/api/pipeline/logs", async (req, res) => {
     try {
       const logs = await storage.getPipelineLogs();
@@ -154,11 +192,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/automation/start", async (req, res) => {
     try {
       automationScheduler.resume();
-      await storage.createActivityLog({
-        type: 'system',
+      await pipelineEvents.publish({
+        type: 'SystemNotice',
+        category: 'system',
+        level: 'success',
         title: 'Automation Started',
         description: 'User manually started automation system',
-        status: 'success',
         metadata: { action: 'start', timestamp: new Date().toISOString() }
       });
       res.json({ success: true, message: 'Automation started' });
@@ -170,11 +209,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/automation/pause", async (req, res) => {
     try {
       automationScheduler.pause();
-      await storage.createActivityLog({
-        type: 'system',
+      await pipelineEvents.publish({
+        type: 'SystemNotice',
+        category: 'system',
+        level: 'warning',
         title: 'Automation Paused',
         description: 'User manually paused automation system',
-        status: 'warning',
         metadata: { action: 'pause', timestamp: new Date().toISOString() }
       });
       res.json({ success: true, message: 'Automation paused' });
@@ -192,6 +232,199 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Where trending topics come from; the response also says which sources are usable right now
+  app.get("/api/trending/sources", async (req, res) => {
+    try {
+      const config = await loadTrendingSources();
+      const sources = createTrendingSources(config).map(source => ({
+        id: source.id,
+        configured: source.isConfigured(),
+        status: source.describe()
+      }));
+      res.json({ config, sources });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.put("/api/trending/sources", async (req, res) => {
+    try {
+      const parsed = trendingSourcesConfigSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid trending sources config', details: parsed.error.flatten() });
+      }
+
+      await storage.setAutomationSetting({
+        key: TRENDING_SOURCES_SETTING_KEY,
+        value: JSON.stringify(parsed.data),
+        description: 'Trending topic sources: Custom Search, RSS/Atom feeds, news sitemaps and local fixtures (JSON)'
+      });
+
+      res.json({ success: true, config: parsed.data });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Weights and thresholds of the topic scoring model; applies from the next trending analysis
+  app.get("/api/trending/scoring", async (req, res) => {
+    try {
+      res.json(await loadTopicScoring());
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.put("/api/trending/scoring", async (req, res) => {
+    try {
+      const parsed = topicScoringConfigSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid topic scoring config', details: parsed.error.flatten() });
+      }
+
+      await storage.setAutomationSetting({
+        key: TOPIC_SCORING_SETTING_KEY,
+        value: JSON.stringify(parsed.data),
+        description: 'Topic scoring model: signal weights, priority thresholds, recency half-life and keyword momentum window (JSON)'
+      });
+
+      res.json({ success: true, config: parsed.data });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Similarity thresholds and look-back windows for near-duplicate topics
+  app.get("/api/trending/near-duplicates", async (req, res) => {
+    try {
+      res.json(await loadNearDuplicates());
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.put("/api/trending/near-duplicates", async (req, res) => {
+    try {
+      const parsed = nearDuplicatesConfigSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid near-duplicates config', details: parsed.error.flatten() });
+      }
+
+      await storage.setAutomationSetting({
+        key: NEAR_DUPLICATES_SETTING_KEY,
+        value: JSON.stringify(parsed.data),
+        description: 'Near-duplicate topic detection: days of earlier topics and published videos to compare against, title and content similarity thresholds (JSON)'
+      });
+
+      res.json({ success: true, config: parsed.data });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // How articles about one event are grouped into a single multi-source topic
+  app.get("/api/trending/clustering", async (req, res) => {
+    try {
+      res.json(await loadStoryClustering());
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.put("/api/trending/clustering", async (req, res) => {
+    try {
+      const parsed = storyClusteringConfigSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid story clustering config', details: parsed.error.flatten() });
+      }
+
+      await storage.setAutomationSetting({
+        key: STORY_CLUSTERING_SETTING_KEY,
+        value: JSON.stringify(parsed.data),
+        description: 'Story clustering: shared entities and text similarity that make articles one story, size of the combined multi-source brief (JSON)'
+      });
+
+      res.json({ success: true, config: parsed.data });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Content categories - the niche the channel covers: what trending analysis searches for and how
+  // videos, thumbnails and upload metadata look for each category
+  app.get("/api/categories", async (req, res) => {
+    try {
+      res.json(await storage.getContentCategories());
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.post("/api/categories", async (req, res) => {
+    try {
+      const parsed = contentCategoryInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid category', details: parsed.error.flatten() });
+      }
+
+      const existing = await storage.getContentCategories();
+      if (existing.some(category => category.slug === parsed.data.slug)) {
+        return res.status(409).json({ error: `Category ${parsed.data.slug} already exists` });
+      }
+
+      const category = await storage.createContentCategory(parsed.data);
+      categoryCatalog.invalidate();
+      res.status(201).json(category);
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.put("/api/categories/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Invalid category ID' });
+      }
+
+      const parsed = contentCategoryInputSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid category', details: parsed.error.flatten() });
+      }
+
+      // Topics and jobs refer to the slug, so renaming one must not collide with another category
+      const existing = await storage.getContentCategories();
+      if (parsed.data.slug && existing.some(category => category.slug === parsed.data.slug && category.id !== id)) {
+        return res.status(409).json({ error: `Category ${parsed.data.slug} already exists` });
+      }
+
+      const category = await storage.updateContentCategory(id, parsed.data);
+      if (!category) {
+        return res.status(404).json({ error: 'Category not found' });
+      }
+      categoryCatalog.invalidate();
+      res.json(category);
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Existing topics and jobs keep the slug; they render with the general category from then on
+  app.delete("/api/categories/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Invalid category ID' });
+      }
+
+      await storage.deleteContentCategory(id);
+      categoryCatalog.invalidate();
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
   app.post("/api/content/generate", async (req, res) => {
     try {
       const { topicId, videoType } = req.body;
@@ -199,8 +432,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: 'topicId and videoType are required' });
       }
 
-      const job = await automationPipeline.processTrendingTopic(topicId, videoType);
-      res.json({ success: true, jobId: job.id, message: 'Content generation started' });
+      const { job, created } = await automationPipeline.startTrendingTopic(topicId, videoType);
+      res.json({
+        success: true,
+        jobId: job.id,
+        duplicate: !created,
+        message: created
+          ? 'Content generation started'
+          : `Job ${job.id} already exists for this topic today (status: ${job.status}) - no new job started`
+      });
     } catch (error) {
       res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
     }
@@ -247,6 +487,593 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Resume a job from the first step without a checkpoint
+  app.post("/api/jobs/:id/resume", async (req, res) => {
+    try {
+      const jobId = parseInt(req.params.id);
+      if (isNaN(jobId)) {
+        return res.status(400).json({ error: 'Invalid job ID' });
+      }
+
+      const job = await storage.getContentJobById(jobId);
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+
+      if (automationPipeline.isJobRunning(jobId)) {
+        return res.status(409).json({ error: `Job ${jobId} is already running` });
+      }
+
+      // An upload interrupted by a restart fails until someone has checked the channel;
+      // resuming it after that puts it back in the upload queue
+      if (job.status === 'failed' && jobMetadata(job).failedStep === 'youtube_upload' && !job.youtubeId) {
+        await storage.updateContentJob(jobId, { status: 'ready_for_upload', errorMessage: null });
+        return res.json({ success: true, jobId, resumeFrom: 'youtube_upload', message: `Job ${jobId} is queued for upload again` });
+      }
+
+      const resumeFrom = await automationPipeline.getResumeStep(job);
+      if (!resumeFrom) {
+        return res.status(400).json({ error: `Job ${jobId} has no unfinished steps to resume` });
+      }
+
+      // Run in background - progress is reported through pipeline logs
+      automationPipeline.resumeJob(jobId).catch(error => {
+        console.error(`Resume job ${jobId} failed:`, error);
+      });
+
+      res.json({ success: true, jobId, resumeFrom, message: `Resuming job ${jobId} from ${resumeFrom}` });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.get("/api/pipeline/queue", async (req, res) => {
+    try {
+      const [queue, concurrency] = await Promise.all([workerPool.getQueue(), workerPool.getConcurrency()]);
+      res.json({ queue, concurrency });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Retry policy applied to each pipeline step
+  app.get("/api/pipeline/retry-policy", async (req, res) => {
+    try {
+      res.json(await loadRetryPolicy());
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.put("/api/pipeline/retry-policy", async (req, res) => {
+    try {
+      const parsed = retryPolicyConfigSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid retry policy', details: parsed.error.flatten() });
+      }
+
+      await storage.setAutomationSetting({
+        key: RETRY_POLICY_SETTING_KEY,
+        value: JSON.stringify(parsed.data),
+        description: 'Per-step retry policy for the automation pipeline (JSON)'
+      });
+
+      res.json({ success: true, policy: parsed.data });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Pipeline definition: which registered steps run, their dependencies and per-variant options
+  app.get("/api/pipeline/definition", async (req, res) => {
+    try {
+      const definition = await loadPipelineDefinition();
+      const availableSteps = stepRegistry.list().map(({ id, description, stage }) => ({ id, description, stage }));
+      res.json({ definition, availableSteps });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.put("/api/pipeline/definition", async (req, res) => {
+    try {
+      const parsed = pipelineDefinitionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid pipeline definition', details: parsed.error.flatten() });
+      }
+
+      // Unknown steps, missing dependencies, cycles and bad step options
+      let definition;
+      try {
+        definition = validatePipelineDefinition(parsed.data);
+      } catch (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid pipeline definition' });
+      }
+
+      await storage.setAutomationSetting({
+        key: PIPELINE_DEFINITION_SETTING_KEY,
+        value: JSON.stringify(definition),
+        description: 'Pipeline steps, their dependencies and per video type/channel options (JSON)'
+      });
+
+      res.json({ success: true, definition });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // What happens to jobs whose process stopped mid-pipeline, on startup and from the heartbeat watchdog
+  app.get("/api/pipeline/recovery", async (req, res) => {
+    try {
+      res.json(await loadJobRecovery());
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.put("/api/pipeline/recovery", async (req, res) => {
+    try {
+      const parsed = jobRecoveryConfigSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid job recovery config', details: parsed.error.flatten() });
+      }
+
+      await storage.setAutomationSetting({
+        key: JOB_RECOVERY_SETTING_KEY,
+        value: JSON.stringify(parsed.data),
+        description: 'Recovery of jobs interrupted by a restart: stale heartbeat threshold and action per step (JSON)'
+      });
+
+      res.json({ success: true, config: parsed.data });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Runs the heartbeat watchdog now instead of waiting for the scheduler
+  app.post("/api/pipeline/recovery/check", async (req, res) => {
+    try {
+      const recovered = await jobRecovery.checkHeartbeats();
+      res.json({ success: true, recovered });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Artifact versions - regenerate one part of a job or roll it back to an earlier version
+  app.get("/api/jobs/:id/artifacts", async (req, res) => {
+    try {
+      const jobId = parseInt(req.params.id);
+      if (isNaN(jobId)) {
+        return res.status(400).json({ error: 'Invalid job ID' });
+      }
+
+      const requested = typeof req.query.artifact === 'string' ? req.query.artifact : undefined;
+      if (requested && !isJobArtifact(requested)) {
+        return res.status(400).json({ error: `Unknown artifact: ${requested}` });
+      }
+      const artifact = requested && isJobArtifact(requested) ? requested : undefined;
+
+      const job = await storage.getContentJobById(jobId);
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+
+      const versions = await artifactManager.listVersions(jobId, artifact);
+      res.json({
+        current: {
+          title: job.title,
+          script: job.script,
+          videoPath: job.videoPath,
+          thumbnailPath: job.thumbnailPath,
+          checkpoints: job.checkpoints
+        },
+        versions
+      });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.post("/api/jobs/:id/artifacts/:artifact/regenerate", async (req, res) => {
+    try {
+      const jobId = parseInt(req.params.id);
+      const { artifact } = req.params;
+      if (isNaN(jobId)) {
+        return res.status(400).json({ error: 'Invalid job ID' });
+      }
+      if (!isJobArtifact(artifact)) {
+        return res.status(400).json({ error: `Unknown artifact: ${artifact}` });
+      }
+
+      const job = await storage.getContentJobById(jobId);
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+      if (automationPipeline.isJobRunning(jobId) || ['uploading', 'completed'].includes(job.status)) {
+        return res.status(409).json({ error: `Job ${jobId} is ${automationPipeline.isJobRunning(jobId) ? 'still running' : job.status}` });
+      }
+      if (artifact === 'script' && isDerivedShort(job)) {
+        return res.status(409).json({ error: `Job ${jobId} is a Short cut from another video - its script can't be regenerated` });
+      }
+
+      const { voice, title, description, tags } = req.body || {};
+      const updated = await artifactManager.regenerate(jobId, artifact, {
+        voice: typeof voice === 'string' ? voice : undefined,
+        title: typeof title === 'string' ? title : undefined,
+        description: typeof description === 'string' ? description : undefined,
+        tags: Array.isArray(tags) ? tags.map(String) : undefined
+      });
+
+      res.json({ success: true, job: updated, message: `Regenerating ${artifact} for job ${jobId}` });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.post("/api/jobs/:id/artifacts/:artifact/rollback", async (req, res) => {
+    try {
+      const jobId = parseInt(req.params.id);
+      const version = parseInt(req.body?.version);
+      const { artifact } = req.params;
+      if (isNaN(jobId) || isNaN(version)) {
+        return res.status(400).json({ error: 'Invalid job ID or version' });
+      }
+      if (!isJobArtifact(artifact)) {
+        return res.status(400).json({ error: `Unknown artifact: ${artifact}` });
+      }
+
+      const job = await storage.getContentJobById(jobId);
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+      if (automationPipeline.isJobRunning(jobId) || ['uploading', 'completed'].includes(job.status)) {
+        return res.status(409).json({ error: `Job ${jobId} is ${automationPipeline.isJobRunning(jobId) ? 'still running' : job.status}` });
+      }
+
+      const updated = await artifactManager.rollback(jobId, artifact, version);
+      res.json({ success: true, job: updated, message: `Rolled ${artifact} back to version ${version}` });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Which instance holds each scheduled-task and upload lease
+  app.get("/api/pipeline/leases", async (req, res) => {
+    try {
+      const leases = await storage.getLeases();
+      const now = new Date();
+      res.json({
+        instanceId,
+        leases: leases.map(lease => ({ ...lease, expired: lease.expiresAt <= now, ownedByThisInstance: lease.owner === instanceId }))
+      });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.get("/api/pipeline/review-gate", async (req, res) => {
+    try {
+      res.json(await loadReviewGate());
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.put("/api/pipeline/review-gate", async (req, res) => {
+    try {
+      const parsed = reviewGateConfigSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid review gate config', details: parsed.error.flatten() });
+      }
+
+      await storage.setAutomationSetting({
+        key: REVIEW_GATE_SETTING_KEY,
+        value: JSON.stringify(parsed.data),
+        description: 'Require human approval before YouTube upload, per video type or channel (JSON)'
+      });
+
+      res.json({ success: true, reviewGate: parsed.data });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.get("/api/notifications", async (req, res) => {
+    try {
+      res.json(await loadNotificationConfig());
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.put("/api/notifications", async (req, res) => {
+    try {
+      const parsed = notificationConfigSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid notification settings', details: parsed.error.flatten() });
+      }
+
+      await storage.setAutomationSetting({
+        key: NOTIFICATIONS_SETTING_KEY,
+        value: JSON.stringify(parsed.data),
+        description: 'Email (SMTP) and chat webhook notifications: per-event rules, quiet hours and a daily digest (JSON)'
+      });
+
+      res.json({ success: true, notifications: parsed.data });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Sends straight away, ignoring rules and quiet hours, and reports the result per channel
+  app.post("/api/notifications/test", async (req, res) => {
+    try {
+      const channel: unknown = req.body?.channel;
+      if (channel !== 'email' && channel !== 'chat') {
+        return res.status(400).json({ error: 'channel must be "email" or "chat"' });
+      }
+
+      const results = await notificationCenter.deliver(await loadNotificationConfig(), [channel], {
+        subject: '[INFO] Test notification',
+        text: 'Notifications from YouTube automation are working.',
+        status: 'info'
+      });
+      res.json({ success: results[channel] === 'sent', results });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.post("/api/notifications/digest", async (req, res) => {
+    try {
+      const results = await notificationCenter.sendDailyDigest(await loadNotificationConfig());
+      res.json({ success: Object.values(results).every(result => result === 'sent'), results });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.get("/api/webhooks", async (req, res) => {
+    try {
+      const subscriptions = await storage.getWebhookSubscriptions();
+      res.json({ eventTypes: WEBHOOK_EVENT_TYPES, subscriptions: subscriptions.map(redactWebhookSecret) });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.post("/api/webhooks", async (req, res) => {
+    try {
+      const parsed = webhookSubscriptionInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid webhook subscription', details: parsed.error.flatten() });
+      }
+
+      const { secret, ...fields } = parsed.data;
+      const subscription = await storage.createWebhookSubscription({ ...fields, secret: secret || generateWebhookSecret() });
+      res.status(201).json(subscription);
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.put("/api/webhooks/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Invalid webhook ID' });
+      }
+
+      const parsed = webhookSubscriptionInputSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid webhook subscription', details: parsed.error.flatten() });
+      }
+
+      const subscription = await storage.updateWebhookSubscription(id, parsed.data);
+      if (!subscription) {
+        return res.status(404).json({ error: 'Webhook not found' });
+      }
+      res.json(redactWebhookSecret(subscription));
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.delete("/api/webhooks/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Invalid webhook ID' });
+      }
+
+      await storage.deleteWebhookSubscription(id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.post("/api/webhooks/:id/test", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Invalid webhook ID' });
+      }
+
+      const subscription = await storage.getWebhookSubscription(id);
+      if (!subscription) {
+        return res.status(404).json({ error: 'Webhook not found' });
+      }
+
+      const delivery = await webhookDispatcher.sendTestEvent(subscription);
+      res.json({ success: delivery.status === 'delivered', delivery });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.get("/api/webhooks/:id/deliveries", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Invalid webhook ID' });
+      }
+
+      const limit = Math.min(parseInt(String(req.query.limit)) || 50, 200);
+      res.json(await storage.getWebhookDeliveries(id, limit));
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.get("/api/pipeline/production-plan", async (req, res) => {
+    try {
+      res.json(await loadProductionPlan());
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.put("/api/pipeline/production-plan", async (req, res) => {
+    try {
+      const parsed = productionPlanSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid production plan', details: parsed.error.flatten() });
+      }
+
+      await storage.setAutomationSetting({
+        key: PRODUCTION_PLAN_SETTING_KEY,
+        value: JSON.stringify(parsed.data),
+        description: 'Videos to create per day, per channel and category, with a topic selection rule per slot (JSON)'
+      });
+
+      res.json({ success: true, productionPlan: parsed.data });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.get("/api/pipeline/topic-selection", async (req, res) => {
+    try {
+      res.json({
+        ...(await loadTopicSelection()),
+        strategies: Object.values(TOPIC_STRATEGIES).map(({ name, description }) => ({ name, description }))
+      });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.put("/api/pipeline/topic-selection", async (req, res) => {
+    try {
+      const parsed = topicSelectionConfigSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid topic selection config', details: parsed.error.flatten() });
+      }
+
+      await storage.setAutomationSetting({
+        key: TOPIC_SELECTION_SETTING_KEY,
+        value: JSON.stringify(parsed.data),
+        description: 'Topic selection strategy for the daily run, per channel: priority, freshness_weighted, category_round_robin, avoid_recently_covered or highest_quality_source (JSON)'
+      });
+
+      res.json({ success: true, topicSelection: parsed.data });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Review gate - approve or reject a finished video before it is uploaded
+  app.post("/api/jobs/:id/approve", async (req, res) => {
+    try {
+      const jobId = parseInt(req.params.id);
+      if (isNaN(jobId)) {
+        return res.status(400).json({ error: 'Invalid job ID' });
+      }
+
+      const job = await storage.getContentJobById(jobId);
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+
+      if (job.status !== 'awaiting_review') {
+        return res.status(409).json({ error: `Job ${jobId} is not awaiting review (status: ${job.status})` });
+      }
+
+      const reviewer = typeof req.body?.reviewer === 'string' ? req.body.reviewer : undefined;
+      const updated = await automationPipeline.approveJob(jobId, reviewer);
+
+      res.json({ success: true, job: updated, message: `Job ${jobId} approved for upload` });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.post("/api/jobs/:id/reject", async (req, res) => {
+    try {
+      const jobId = parseInt(req.params.id);
+      if (isNaN(jobId)) {
+        return res.status(400).json({ error: 'Invalid job ID' });
+      }
+
+      const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() : '';
+      if (!reason) {
+        return res.status(400).json({ error: 'A rejection reason is required' });
+      }
+
+      const job = await storage.getContentJobById(jobId);
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+
+      if (job.status !== 'awaiting_review') {
+        return res.status(409).json({ error: `Job ${jobId} is not awaiting review (status: ${job.status})` });
+      }
+
+      const reviewer = typeof req.body?.reviewer === 'string' ? req.body.reviewer : undefined;
+      const updated = await automationPipeline.rejectJob(jobId, reason, reviewer);
+
+      res.json({ success: true, job: updated, message: `Job ${jobId} rejected` });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  app.post("/api/jobs/:id/derive-short", async (req, res) => {
+    try {
+      const jobId = parseInt(req.params.id);
+      if (isNaN(jobId)) {
+        return res.status(400).json({ error: 'Invalid job ID' });
+      }
+
+      const job = await storage.getContentJobById(jobId);
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+
+      if (job.videoType !== 'long_form') {
+        return res.status(400).json({ error: `Job ${jobId} is not a long-form video` });
+      }
+
+      if (automationPipeline.isJobRunning(jobId) || !job.videoPath) {
+        return res.status(409).json({ error: `Job ${jobId} has no finished video yet (status: ${job.status})` });
+      }
+
+      const { job: short, created } = await automationPipeline.deriveShort(jobId);
+      res.json({
+        success: true,
+        job: short,
+        duplicate: !created,
+        message: created
+          ? `Deriving Short ${short.id} from job ${jobId}`
+          : `Short ${short.id} already exists for this topic today (status: ${short.status})`
+      });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
   // Settings endpoints
   app.get("/api/settings", async (req, res) => {
     try {
@@ -312,43 +1139,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Kill specific stuck job
+  // Cancel a job - kills its running ffmpeg/TTS work and removes partial files
   app.post("/api/jobs/:id/kill", async (req, res) => {
     try {
       const jobId = parseInt(req.params.id);
+      if (isNaN(jobId)) {
+        return res.status(400).json({ error: 'Invalid job ID' });
+      }
 
-      // Update job status to failed
-      await storage.updateContentJob(jobId, {
-        status: 'failed',
-        progress: 0,
-        metadata: { 
-          error: 'Job manually killed due to being stuck',
-          killedAt: new Date().toISOString(),
-          killedBy: 'user'
-        }
-      });
+      const job = await storage.getContentJobById(jobId);
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
 
-      await storage.createPipelineLog({
-        jobId,
-        step: 'manual_kill',
-        status: 'error',
-        message: 'Job manually terminated',
-        details: 'User killed stuck job',
-        metadata: { killedAt: new Date().toISOString() }
-      });
+      if (['completed', 'failed', 'cancelled', 'rejected'].includes(job.status)) {
+        return res.status(409).json({ error: `Job ${jobId} is already ${job.status}` });
+      }
 
-      await storage.createActivityLog({
-        type: 'system',
-        title: 'Job Manually Killed',
-        description: `User manually killed stuck job ${jobId}`,
-        status: 'warning',
-        metadata: { jobId, action: 'manual_kill' }
-      });
+      const reason = typeof req.body?.reason === 'string' && req.body.reason.trim()
+        ? req.body.reason.trim()
+        : 'Cancelled by user';
+      const wasRunning = automationPipeline.isJobRunning(jobId);
+
+      await automationPipeline.cancelJob(jobId, reason);
 
-      res.json({ success: true, message: `Job ${jobId} killed successfully` });
+      res.json({
+        success: true,
+        jobId,
+        message: wasRunning
+          ? `Cancelling job ${jobId} - running work is being stopped`
+          : `Job ${jobId} cancelled`
+      });
     } catch (error) {
+      if (error instanceof JobConflictError) {
+        return res.status(409).json({ error: error.message });
+      }
       console.error("Kill job error:", error);
-      res.status(500).json({ error: error.message });
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
     }
   });
 
@@ -357,11 +1184,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const topicId = parseInt(req.params.id);
       await storage.deleteTrendingTopic(topicId);
-      await storage.createActivityLog({
-        type: 'system',
+      await pipelineEvents.publish({
+        type: 'SystemNotice',
+        category: 'system',
+        level: 'info',
         title: 'Trending Topic Deleted',
         description: `User deleted trending topic ${topicId}`,
-        status: 'info',
         metadata: { action: 'delete_topic', topicId, timestamp: new Date().toISOString() }
       });
       res.json({ success: true, message: "Trending topic deleted" });
@@ -383,11 +1211,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         await storage.deleteTrendingTopic(topicId);
       }
 
-      await storage.createActivityLog({
-        type: 'system',
+      await pipelineEvents.publish({
+        type: 'SystemNotice',
+        category: 'system',
+        level: 'info',
         title: 'Bulk Delete Trending Topics',
         description: `User deleted ${topicIds.length} trending topics`,
-        status: 'info',
         metadata: { action: 'bulk_delete_topics', count: topicIds.length, timestamp: new Date().toISOString() }
       });
 
@@ -412,11 +1241,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/trending/clear", async (req, res) => {
     try {
       await storage.clearTrendingTopics();
-      await storage.createActivityLog({
-        type: 'system',
+      await pipelineEvents.publish({
+        type: 'SystemNotice',
+        category: 'system',
+        level: 'info',
         title: 'Trending Topics Cleared',
         description: 'User manually cleared all trending topics',
-        status: 'info',
         metadata: { action: 'clear_trending', timestamp: new Date().toISOString() }
       });
       res.json({ success: true, message: "Trending topics cleared" });
@@ -431,11 +1261,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       await storage.clearContentJobs();
       await storage.clearPipelineLogs(); // Also clear pipeline logs
-      await storage.createActivityLog({
-        type: 'system',
+      await pipelineEvents.publish({
+        type: 'SystemNotice',
+        category: 'system',
+        level: 'info',
         title: 'Pipeline Cleared',
         description: 'User manually cleared all active pipeline jobs and logs',
-        status: 'info',
         metadata: { action: 'clear_pipeline', timestamp: new Date().toISOString() }
       });
       res.json({ success: true, message: "Pipeline cleared" });
@@ -449,11 +1280,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/pipeline/logs/clear", async (req, res) => {
     try {
       await storage.clearPipelineLogs();
-      await storage.createActivityLog({
-        type: 'system',
+      await pipelineEvents.publish({
+        type: 'SystemNotice',
+        category: 'system',
+        level: 'info',
         title: 'Pipeline Logs Cleared',
         description: 'User manually cleared all pipeline logs',
-        status: 'info',
         metadata: { action: 'clear_pipeline_logs', timestamp: new Date().toISOString() }
       });
       res.json({ success: true, message: "Pipeline logs cleared" });
@@ -510,9 +1342,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/youtube/upload/:id', async (req, res) => {
     try {
       const jobId = parseInt(req.params.id);
-      const videoUrl = await youtubeUploader.uploadVideo(jobId);
-      res.json({ success: true, videoUrl });
+      const job = await storage.getContentJobById(jobId);
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+
+      // Runs like a scheduled upload: under the upload lease, with a heartbeat, and waited for on shutdown
+      const youtubeId = await automationPipeline.uploadJobNow(jobId);
+      res.json({ success: true, videoUrl: youtubeId });
     } catch (error) {
+      if (error instanceof JobConflictError) {
+        return res.status(409).json({ error: error.message });
+      }
       console.error('Upload error:', error);
       res.status(500).json({ error: error.message });
     }
@@ -583,8 +1424,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: 'Topic ID and video type are required' });
       }
 
-      const job = await automationPipeline.processTrendingTopic(topicId, videoType);
-      res.json(job);
+      const { job, created } = await automationPipeline.startTrendingTopic(topicId, videoType);
+      res.json({ ...job, duplicate: !created });
     } catch (error) {
       console.error('Pipeline start error:', error);
       res.status(500).json({ error: 'Failed to start pipeline' });
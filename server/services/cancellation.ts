@@ -0,0 +1,65 @@
+import { exec, type ExecOptions } from 'child_process';
+
+export class JobCancelledError extends Error {
+  constructor(public readonly jobId: number, public readonly reason: string) {
+    super(`Job ${jobId} cancelled: ${reason}`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+// One token per running job; aborting its signal kills child processes and HTTP requests started with it
+export class CancellationToken {
+  private controller = new AbortController();
+  private cancelReason: string | null = null;
+
+  constructor(public readonly jobId: number) {}
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  get isCancelled(): boolean {
+    return this.cancelReason !== null;
+  }
+
+  get reason(): string | null {
+    return this.cancelReason;
+  }
+
+  cancel(reason: string = 'Cancelled by user'): void {
+    if (this.cancelReason !== null) return;
+    this.cancelReason = reason;
+    this.controller.abort(new JobCancelledError(this.jobId, reason));
+  }
+
+  throwIfCancelled(): void {
+    if (this.cancelReason !== null) {
+      throw new JobCancelledError(this.jobId, this.cancelReason);
+    }
+  }
+}
+
+export function isCancellationError(error: unknown): boolean {
+  return error instanceof JobCancelledError || (error as { name?: unknown } | null | undefined)?.name === 'AbortError';
+}
+
+// exec that refuses to start after cancellation and kills the child process when the token is cancelled
+export function execCancellable(
+  command: string,
+  options: ExecOptions = {},
+  token?: CancellationToken
+): Promise<{ stdout: string; stderr: string }> {
+  token?.throwIfCancelled();
+
+  return new Promise((resolve, reject) => {
+    exec(command, { ...options, signal: token?.signal }, (error, stdout, stderr) => {
+      if (token?.isCancelled) {
+        reject(new JobCancelledError(token.jobId, token.reason || 'Cancelled'));
+      } else if (error) {
+        reject(error);
+      } else {
+        resolve({ stdout: String(stdout), stderr: String(stderr) });
+      }
+    });
+  });
+}
@@ -0,0 +1,102 @@
+import { z } from 'zod';
+import { storage } from '../storage';
+import type { ContentCategory, CategoryColors } from '@shared/schema';
+
+// Long enough to spare the database during an analysis run, short enough that edits from
+// another instance show up quickly; edits through this instance invalidate right away
+const CACHE_TTL_MS = 60 * 1000;
+
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Expected a #RRGGBB color');
+
+export const categoryColorsSchema = z.object({
+  background: z.array(hexColor).min(1).max(5),
+  text: hexColor,
+  accent: hexColor,
+  highlight: hexColor,
+  shadow: hexColor
+});
+
+const keywordList = z.array(z.string().trim().min(1));
+
+export const contentCategoryInputSchema = z.object({
+  slug: z.string().regex(/^[a-z0-9_]+$/, 'Use lowercase letters, digits and underscores').max(60),
+  name: z.string().min(1).max(100),
+  isActive: z.boolean().optional(),
+  searchQueries: keywordList.min(1),
+  keywords: keywordList.min(1),
+  boostKeywords: keywordList.optional(),
+  targetSites: z.array(z.string().regex(/^[a-z0-9.-]+\.[a-z]{2,}$/i, 'Expected a domain such as nasa.gov')).optional(),
+  titlePrefixes: keywordList.optional(),
+  baseSearchVolume: z.number().int().min(0).optional(),
+  youtubeCategoryId: z.string().regex(/^\d+$/, 'Expected a numeric YouTube category ID').optional(),
+  tags: keywordList.optional(),
+  colors: categoryColorsSchema,
+  backgroundKeywords: keywordList.optional()
+});
+
+export type CategoryDefinition = Omit<ContentCategory, 'id' | 'createdAt' | 'updatedAt'>;
+
+const GENERAL_COLORS: CategoryColors = {
+  background: ['#2d3748', '#4a5568', '#718096'],
+  text: '#FFFFFF',
+  accent: '#00D4FF',
+  highlight: '#FFD700',
+  shadow: '#000000'
+};
+
+// Used for jobs whose category has no row (deleted, or a topic from before categories were
+// stored); a category with the slug "general" replaces it
+export const GENERAL_CATEGORY: CategoryDefinition = {
+  slug: 'general',
+  name: 'General',
+  isActive: false,
+  searchQueries: [],
+  keywords: [],
+  boostKeywords: [],
+  targetSites: [],
+  titlePrefixes: ['🔥 TRENDING:'],
+  baseSearchVolume: 100000,
+  youtubeCategoryId: '22', // People & Blogs
+  tags: ['update', 'information', 'facts', 'knowledge', 'learn'],
+  colors: GENERAL_COLORS,
+  backgroundKeywords: ['modern', 'abstract', 'clean', 'professional', 'blue', 'gradient']
+};
+
+export class CategoryCatalog {
+  private cache: { categories: ContentCategory[]; loadedAt: number } | null = null;
+
+  async list(): Promise<ContentCategory[]> {
+    if (this.cache && Date.now() - this.cache.loadedAt < CACHE_TTL_MS) {
+      return this.cache.categories;
+    }
+
+    try {
+      const categories = await storage.getContentCategories();
+      this.cache = { categories, loadedAt: Date.now() };
+      return categories;
+    } catch (error) {
+      // Rendering and uploads carry on with the general look rather than failing the job
+      console.warn('⚠️ Could not load content categories:', error instanceof Error ? error.message : error);
+      return this.cache?.categories || [];
+    }
+  }
+
+  // Categories the trending analysis searches
+  async listActive(): Promise<ContentCategory[]> {
+    return (await this.list()).filter(category => category.isActive);
+  }
+
+  // Inactive categories still resolve - jobs created before a category was switched off keep its look
+  async resolve(slug?: string | null): Promise<CategoryDefinition> {
+    const categories = await this.list();
+    return categories.find(category => category.slug === slug)
+      || categories.find(category => category.slug === GENERAL_CATEGORY.slug)
+      || GENERAL_CATEGORY;
+  }
+
+  invalidate(): void {
+    this.cache = null;
+  }
+}
+
+export const categoryCatalog = new CategoryCatalog();
@@ -1,14 +1,17 @@
 
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import { storage } from '../storage';
-import type { TrendingTopic, ContentJob } from '@shared/schema';
+import { pipelineEvents } from './event-bus';
+import { isDryRun, dryRunServices } from './dry-run';
+import { storyOutlets } from './story-clustering';
+import { jobMetadata, trendingData, type TrendingTopic, type ContentJob, type JobCreation } from '@shared/schema';
 
 export class ContentGenerator {
   private gemini: GoogleGenerativeAI;
 
   constructor() {
     const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey && process.env.NODE_ENV === 'production') {
+    if (!apiKey && process.env.NODE_ENV === 'production' && !isDryRun()) {
       throw new Error("GEMINI_API_KEY environment variable is required in production");
     }
 
@@ -20,6 +23,11 @@ export class ContentGenerator {
   async generateScript(topic: TrendingTopic, videoType: 'long_form' | 'short'): Promise<string> {
     console.log(`🤖 Generating ${videoType} script for topic: ${topic.title}`);
 
+    if (isDryRun()) {
+      console.log('🧪 [DRY RUN] Using canned script instead of Gemini');
+      return dryRunServices.generateScript(topic, videoType);
+    }
+
     try {
       const prompt = this.createPrompt(topic, videoType);
       console.log('📝 Created prompt, calling Gemini API...');
@@ -198,13 +206,21 @@ export class ContentGenerator {
   private createPrompt(topic: TrendingTopic, videoType: 'long_form' | 'short'): string {
     const duration = videoType === 'long_form' ? '10-15 minutes' : '2-3 minutes';
     const wordCount = videoType === 'long_form' ? '1500-2000 words' : '300-400 words';
+    const sources = trendingData(topic).sources || [];
+    const outlets = storyOutlets(sources);
 
     return `
 Create a ${duration} YouTube video script about "${topic.title}".
 
 ORIGINAL CONTENT: ${topic.description}
 CATEGORY: ${topic.category}
-
+${outlets.length > 1 ? `
+SOURCES: ${outlets.length} outlets reported this story (${outlets.join(', ')}).
+The original content combines their reports; each section starts with [outlet] and its headline.
+- Merge the facts into one story instead of retelling each report
+- Prefer details confirmed by more than one outlet
+- Where outlets disagree, say so rather than picking one
+` : ''}
 SCRIPT REQUIREMENTS:
 - Write EXACTLY ${wordCount} of pure, informative content
 - Use simple, clear language that anyone can understand
@@ -480,9 +496,12 @@ Thank you for joining me today, and I'll see you in the next video where we'll c
     }
   }
 
-  async createContentJob(topicId: number, videoType: 'long_form' | 'short'): Promise<ContentJob> {
-    const topic = await storage.getTrendingTopics(100);
-    const selectedTopic = topic.find(t => t.id === topicId);
+  async createContentJob(
+    topicId: number,
+    videoType: 'long_form' | 'short',
+    identity: { channelId: string | null; idempotencyKey: string; selectionReason?: string }
+  ): Promise<JobCreation> {
+    const selectedTopic = await storage.getTrendingTopicById(topicId);
 
     if (!selectedTopic) {
       throw new Error('Topic not found');
@@ -493,7 +512,7 @@ Thank you for joining me today, and I'll see you in the next video where we'll c
     console.log(`🏷️ Category: ${selectedTopic.category}`);
 
     // Use full extracted content if available from trending_data
-    let originalContent = selectedTopic.description;
+    let originalContent = selectedTopic.description || '';
     let hasFullContent = false;
 
     try {
@@ -513,31 +532,50 @@ Thank you for joining me today, and I'll see you in the next video where we'll c
       console.log(`📄 Using topic description: ${originalContent.length} characters`);
     }
 
-    // Create enhanced topic object with full content for script generation
-    const enhancedTopic = {
-      ...selectedTopic,
-      description: originalContent,
-      hasFullContent: hasFullContent
-    };
-
-    const script = await this.generateScript(enhancedTopic, videoType);
-    const title = this.generateVideoTitle(enhancedTopic, videoType);
+    const title = this.generateVideoTitle(selectedTopic, videoType);
 
-    const job = await storage.createContentJob({
+    // The script is generated as the first pipeline step so it can be checkpointed and resumed
+    return await storage.createContentJobOnce({
       topicId,
       videoType,
+      channelId: identity.channelId,
+      idempotencyKey: identity.idempotencyKey,
+      selectionReason: identity.selectionReason,
       title,
-      script,
-      status: 'script_generation',
-      progress: 25,
+      status: 'pending',
+      progress: 0,
       metadata: {
         topic: selectedTopic.title,
         category: selectedTopic.category,
         originalContent: originalContent,
         hasFullContent: hasFullContent,
+        sources: trendingData(selectedTopic).sources || [],
         targetDuration: videoType === 'long_form' ? '10-15 minutes' : '45-60 seconds'
       }
     });
+  }
+
+  async generateScriptForJob(job: ContentJob): Promise<string> {
+    const selectedTopic = job.topicId ? await storage.getTrendingTopicById(job.topicId) : undefined;
+
+    if (!selectedTopic) {
+      throw new Error('Topic not found');
+    }
+
+    const videoType = job.videoType as 'long_form' | 'short';
+    const metadata = jobMetadata(job);
+    const originalContent = metadata.originalContent || selectedTopic.description || '';
+    const hasFullContent = !!metadata.hasFullContent;
+
+    // Create enhanced topic object with full content for script generation
+    const enhancedTopic = {
+      ...selectedTopic,
+      description: originalContent,
+      hasFullContent: hasFullContent
+    };
+
+    const script = await this.generateScript(enhancedTopic, videoType);
+    await storage.updateContentJob(job.id, { script });
 
     // Calculate script metrics
     const wordCount = script.split(' ').filter(w => w.length > 2).length;
@@ -546,15 +584,16 @@ Thank you for joining me today, and I'll see you in the next video where we'll c
     console.log(`✅ Storing original content: ${originalContent.length} characters (${hasFullContent ? 'FULL' : 'SNIPPET'})`);
     console.log(`✅ Generated script: ${script.length} characters`);
 
-    // Create pipeline log for script generation completion with both original and final content
-    await storage.createPipelineLog({
+    // Logged with both the original and the final content
+    await pipelineEvents.publish({
+      type: 'JobStepCompleted',
       jobId: job.id,
       step: 'script_generation',
-      status: 'completed',
       message: `Script generation completed successfully${hasFullContent ? ' (using full extracted content)' : ' (using snippet content)'}`,
       details: `Generated ${wordCount} words for ${videoType} video from ${hasFullContent ? 'full article content' : 'topic description'}`,
       progress: 100,
       metadata: {
+        title: job.title,
         finalScript: script,
         originalContent: originalContent,
         hasFullContent: hasFullContent,
@@ -567,30 +606,29 @@ Thank you for joining me today, and I'll see you in the next video where we'll c
           expansion: script.length > originalContent.length ? 'expanded' : 'condensed',
           contentType: hasFullContent ? 'full_article' : 'snippet'
         }
-      }
+      },
+      summary: `Created ${videoType} script for "${selectedTopic.title}"${hasFullContent ? ' (full content)' : ' (snippet)'}`
     });
 
-    await storage.createActivityLog({
-      type: 'generation',
-      title: 'Script Generated Successfully',
-      description: `Created ${videoType} script for "${selectedTopic.title}"${hasFullContent ? ' (full content)' : ' (snippet)'}`,
-      status: 'success',
-      metadata: { 
-        jobId: job.id, 
-        videoType, 
-        topicTitle: selectedTopic.title,
-        finalScript: script,
-        originalContent: originalContent,
-        hasFullContent: hasFullContent,
-        wordCount,
-        estimatedDuration
-      }
-    });
+    return script;
+  }
 
-    return job;
+  // New title for an existing job, different from its current one where possible
+  async regenerateTitle(job: ContentJob): Promise<string> {
+    const topic = job.topicId ? await storage.getTrendingTopicById(job.topicId) : undefined;
+    if (!topic) {
+      throw new Error('Topic not found');
+    }
+
+    const videoType = job.videoType as 'long_form' | 'short';
+    let title = this.generateVideoTitle(topic, videoType);
+    for (let attempt = 0; attempt < 5 && title === job.title; attempt++) {
+      title = this.generateVideoTitle(topic, videoType);
+    }
+    return title;
   }
 
-  private generateVideoTitle(topic: TrendingTopic, videoType: 'long_form' | 'short'): string {
+  generateVideoTitle(topic: TrendingTopic, videoType: 'long_form' | 'short'): string {
     const titles = {
       long_form: [
         `${topic.title}: Complete Analysis & Impact`,
@@ -607,7 +645,8 @@ Thank you for joining me today, and I'll see you in the next video where we'll c
     };
 
     const options = titles[videoType];
-    return options[Math.floor(Math.random() * options.length)];
+    // Dry runs need stable output, so always take the first title
+    return isDryRun() ? options[0] : options[Math.floor(Math.random() * options.length)];
   }
 
   private enhanceScriptForNaturalSpeech(script: string): string {
@@ -0,0 +1,284 @@
+import type { PipelineStep } from '@shared/schema';
+
+// Steps that show up in pipeline_logs: the pipeline steps plus the work that happens around them
+export type LogStep =
+  | PipelineStep
+  | 'youtube_upload'
+  | 'review'
+  | 'artifact_regenerate'
+  | 'artifact_rollback'
+  | (string & {}); // steps registered in the pipeline definition
+
+export type NoticeLevel = 'info' | 'success' | 'warning' | 'error';
+
+interface EventBase {
+  occurredAt?: Date; // set by publish
+}
+
+export interface JobCreatedEvent extends EventBase {
+  type: 'JobCreated';
+  jobId: number;
+  title: string;
+  videoType: string;
+  topicId: number | null;
+  parentJobId?: number | null;
+  idempotencyKey?: string | null;
+  duplicate: boolean; // an existing job was returned for the same idempotency key
+  status: string;
+}
+
+export interface JobStepStartedEvent extends EventBase {
+  type: 'JobStepStarted';
+  jobId: number;
+  step: LogStep;
+  message: string;
+  details?: string;
+  progress?: number;
+  metadata?: Record<string, any>;
+}
+
+export interface JobStepProgressEvent extends EventBase {
+  type: 'JobStepProgress';
+  jobId: number;
+  step: LogStep;
+  message: string;
+  details?: string;
+  progress?: number;
+  metadata?: Record<string, any>;
+}
+
+export interface JobStepCompletedEvent extends EventBase {
+  type: 'JobStepCompleted';
+  jobId: number;
+  step: LogStep;
+  message: string;
+  details?: string;
+  progress?: number;
+  metadata?: Record<string, any>;
+  summary?: string; // one line for the activity feed; steps without one stay out of it
+}
+
+// One failed attempt of a step; JobFailed follows when no retry is left
+export interface JobStepFailedEvent extends EventBase {
+  type: 'JobStepFailed';
+  jobId: number;
+  step: LogStep;
+  error: string;
+  attempt: number;
+  maxAttempts: number;
+  retryable: boolean;
+  willRetry: boolean;
+  delayMs: number;
+}
+
+export interface JobResumedEvent extends EventBase {
+  type: 'JobResumed';
+  jobId: number;
+  title: string;
+  fromStep: string;
+  skippedSteps: number;
+  previousStatus: string;
+  progress: number;
+}
+
+// A job left behind by a stopped process, handled by startup recovery or the heartbeat watchdog
+export interface JobRecoveredEvent extends EventBase {
+  type: 'JobRecovered';
+  jobId: number;
+  title: string;
+  step: LogStep | null; // step that was interrupted
+  action: 'resume' | 'retry' | 'fail';
+  previousStatus: string;
+  previousOwner: string | null;
+  recoveries: number; // recoveries after a crash so far, including this one
+  reason: string;
+}
+
+// Raised by the watchdog when a job stops heartbeating while it should be running
+export interface JobHeartbeatStaleEvent extends EventBase {
+  type: 'JobHeartbeatStale';
+  jobId: number;
+  title: string;
+  status: string;
+  ownerInstance: string | null;
+  heartbeatAt: string | null;
+  staleForSeconds: number;
+}
+
+export interface JobCompletedEvent extends EventBase {
+  type: 'JobCompleted';
+  jobId: number;
+  title: string;
+  videoType: string;
+  scheduledTime?: string;
+  driveUrl?: string | null;
+}
+
+export interface JobFailedEvent extends EventBase {
+  type: 'JobFailed';
+  jobId: number;
+  step?: LogStep;
+  error: string;
+  stack?: string;
+  resumable: boolean;
+}
+
+export interface JobCancelledEvent extends EventBase {
+  type: 'JobCancelled';
+  jobId: number;
+  step?: string;
+  reason: string;
+}
+
+// Stopped by a graceful shutdown; the job keeps its checkpoints and is resumed on the next start
+export interface JobInterruptedEvent extends EventBase {
+  type: 'JobInterrupted';
+  jobId: number;
+  step?: string;
+  reason: string;
+}
+
+export interface JobAwaitingReviewEvent extends EventBase {
+  type: 'JobAwaitingReview';
+  jobId: number;
+  title: string;
+  videoType: string;
+  channelId: string | null;
+  scheduledTime: string;
+}
+
+export interface JobReviewedEvent extends EventBase {
+  type: 'JobReviewed';
+  jobId: number;
+  title: string;
+  decision: 'approved' | 'rejected';
+  reviewer?: string;
+  reason?: string;
+  scheduledTime?: string | null;
+}
+
+export interface ArtifactChangedEvent extends EventBase {
+  type: 'ArtifactChanged';
+  jobId: number;
+  title: string;
+  artifact: string;
+  action: 'regenerate' | 'rollback';
+  details: string;
+}
+
+export interface UploadStartedEvent extends EventBase {
+  type: 'UploadStarted';
+  jobId: number;
+  title: string;
+  driveUrl: string | null;
+}
+
+export interface VideoPublishedEvent extends EventBase {
+  type: 'VideoPublished';
+  jobId: number;
+  title: string;
+  videoType: string;
+  youtubeId: string;
+}
+
+export interface UploadFailedEvent extends EventBase {
+  type: 'UploadFailed';
+  jobId: number;
+  title?: string;
+  error: string;
+}
+
+export interface TopicsDiscoveredEvent extends EventBase {
+  type: 'TopicsDiscovered';
+  count: number;
+  categories: string[];
+  metadata?: Record<string, any>;
+}
+
+export interface DailyRunCompletedEvent extends EventBase {
+  type: 'DailyRunCompleted';
+  target: string;
+  totalJobs: number;
+  unfilled: Array<{ slot: string; requested: number; filled: number; reason: string }>;
+}
+
+export interface HealthCheckedEvent extends EventBase {
+  type: 'HealthChecked';
+  healthy: boolean;
+  checks: Record<string, { status: string; message: string }>;
+}
+
+// Anything that belongs in the activity feed but isn't tied to a job's lifecycle
+export interface SystemNoticeEvent extends EventBase {
+  type: 'SystemNotice';
+  category: 'system' | 'generation' | 'upload' | 'trending';
+  level: NoticeLevel;
+  title: string;
+  description: string;
+  jobId?: number;
+  metadata?: Record<string, any>;
+}
+
+export type PipelineEvent =
+  | JobCreatedEvent
+  | JobStepStartedEvent
+  | JobStepProgressEvent
+  | JobStepCompletedEvent
+  | JobStepFailedEvent
+  | JobResumedEvent
+  | JobRecoveredEvent
+  | JobHeartbeatStaleEvent
+  | JobCompletedEvent
+  | JobFailedEvent
+  | JobCancelledEvent
+  | JobInterruptedEvent
+  | JobAwaitingReviewEvent
+  | JobReviewedEvent
+  | ArtifactChangedEvent
+  | UploadStartedEvent
+  | VideoPublishedEvent
+  | UploadFailedEvent
+  | TopicsDiscoveredEvent
+  | DailyRunCompletedEvent
+  | HealthCheckedEvent
+  | SystemNoticeEvent;
+
+export type PipelineEventType = PipelineEvent['type'];
+export type PipelineEventOf<T extends PipelineEventType> = Extract<PipelineEvent, { type: T }>;
+export type EventHandler<E> = (event: E) => void | Promise<void>;
+
+export class PipelineEventBus {
+  private handlers = new Map<PipelineEventType, EventHandler<any>[]>();
+  private allHandlers: EventHandler<PipelineEvent>[] = [];
+
+  subscribe<T extends PipelineEventType>(type: T, handler: EventHandler<PipelineEventOf<T>>): () => void {
+    this.handlers.set(type, [...(this.handlers.get(type) || []), handler]);
+    return () => {
+      this.handlers.set(type, (this.handlers.get(type) || []).filter(existing => existing !== handler));
+    };
+  }
+
+  subscribeAll(handler: EventHandler<PipelineEvent>): () => void {
+    this.allHandlers.push(handler);
+    return () => {
+      this.allHandlers = this.allHandlers.filter(existing => existing !== handler);
+    };
+  }
+
+  // Resolves once every subscriber has handled the event. A failing subscriber is logged and
+  // skipped - losing a log line must never fail the job that produced it.
+  async publish(event: PipelineEvent): Promise<void> {
+    const stamped = { ...event, occurredAt: event.occurredAt || new Date() } as PipelineEvent;
+    const handlers = [...(this.handlers.get(stamped.type) || []), ...this.allHandlers];
+
+    for (const handler of handlers) {
+      try {
+        await handler(stamped);
+      } catch (error) {
+        console.error(`❌ Event subscriber failed for ${stamped.type}:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+}
+
+export const pipelineEvents = new PipelineEventBus();
@@ -0,0 +1,395 @@
+import { storage } from '../storage';
+import { pipelineEvents, type PipelineEvent, type LogStep } from './event-bus';
+import { webhookDispatcher } from './webhooks';
+import { notificationCenter } from './notifications';
+import type { InsertActivityLog } from '@shared/schema';
+
+// Step completions that are worth a line in the activity feed
+const STEP_ACTIVITY_TITLES: Partial<Record<LogStep, string>> = {
+  script_generation: 'Script Generated Successfully'
+};
+
+let registered = false;
+
+// Notification rules are evaluated against exactly what lands in the activity feed
+async function recordActivity(event: PipelineEvent, log: InsertActivityLog): Promise<void> {
+  const activity = await storage.createActivityLog(log);
+  await notificationCenter.handleActivity(event.type, activity);
+}
+
+// pipeline_logs and activity_logs are both written from the same event, so they can't disagree
+async function persistEvent(event: PipelineEvent): Promise<void> {
+  switch (event.type) {
+    case 'JobCreated':
+      if (event.duplicate) {
+        await recordActivity(event, {
+          type: 'generation',
+          title: 'Duplicate Job Request',
+          description: `"${event.title}" is already ${event.status} for this topic today - returned the existing job`,
+          status: 'info',
+          metadata: { jobId: event.jobId, idempotencyKey: event.idempotencyKey }
+        });
+      }
+      return;
+
+    case 'JobStepStarted':
+    case 'JobStepProgress':
+      await storage.createPipelineLog({
+        jobId: event.jobId,
+        step: event.step,
+        status: event.type === 'JobStepStarted' ? 'starting' : 'progress',
+        message: event.message,
+        details: event.details,
+        progress: event.progress,
+        metadata: event.metadata
+      });
+      return;
+
+    case 'JobStepCompleted': {
+      await storage.createPipelineLog({
+        jobId: event.jobId,
+        step: event.step,
+        status: 'completed',
+        message: event.message,
+        details: event.details,
+        progress: event.progress,
+        metadata: event.metadata
+      });
+
+      const title = STEP_ACTIVITY_TITLES[event.step];
+      if (title && event.summary) {
+        await recordActivity(event, {
+          type: 'generation',
+          title,
+          description: event.summary,
+          status: 'success',
+          metadata: { jobId: event.jobId, step: event.step, ...event.metadata }
+        });
+      }
+      return;
+    }
+
+    case 'JobStepFailed':
+      await storage.createPipelineLog({
+        jobId: event.jobId,
+        step: event.step,
+        status: 'error',
+        message: `Attempt ${event.attempt}/${event.maxAttempts} failed${event.willRetry ? ` - retrying in ${Math.round(event.delayMs / 1000)}s` : ''}`,
+        details: event.error,
+        metadata: {
+          attempt: event.attempt,
+          maxAttempts: event.maxAttempts,
+          retryable: event.retryable,
+          willRetry: event.willRetry,
+          delayMs: event.delayMs,
+          error: event.error
+        }
+      });
+      return;
+
+    case 'JobResumed':
+      await storage.createPipelineLog({
+        jobId: event.jobId,
+        step: event.fromStep,
+        status: 'starting',
+        message: `Resuming pipeline from ${event.fromStep}`,
+        details: `Skipping ${event.skippedSteps} completed step(s) using saved checkpoints`,
+        progress: event.progress,
+        metadata: { resumed: true, previousStatus: event.previousStatus }
+      });
+      await recordActivity(event, {
+        type: 'system',
+        title: 'Pipeline Resumed',
+        description: `Resuming "${event.title}" from ${event.fromStep}`,
+        status: 'info',
+        metadata: { jobId: event.jobId, resumeFrom: event.fromStep, previousStatus: event.previousStatus }
+      });
+      return;
+
+    case 'JobRecovered':
+      await storage.createPipelineLog({
+        jobId: event.jobId,
+        step: event.step || 'recovery',
+        status: event.action === 'fail' ? 'error' : 'progress',
+        message: `Recovered after restart: ${event.action}`,
+        details: event.reason,
+        metadata: { recovery: true, action: event.action, previousStatus: event.previousStatus, previousOwner: event.previousOwner, recoveries: event.recoveries }
+      });
+      // A failed recovery is followed by JobFailed, which writes the activity entry
+      if (event.action === 'fail') return;
+      await recordActivity(event, {
+        type: 'system',
+        title: 'Interrupted Job Recovered',
+        description: `"${event.title}" was interrupted${event.step ? ` during ${event.step}` : ''} and will ${event.action === 'retry' ? 'start over' : 'resume'} - ${event.reason}`,
+        status: 'warning',
+        metadata: { jobId: event.jobId, step: event.step, action: event.action, previousStatus: event.previousStatus, previousOwner: event.previousOwner, recoveries: event.recoveries }
+      });
+      return;
+
+    case 'JobHeartbeatStale':
+      await recordActivity(event, {
+        type: 'warning',
+        title: 'Job Heartbeat Stale',
+        description: `Job ${event.jobId} ("${event.title}") in ${event.status} has not sent a heartbeat for ${Math.round(event.staleForSeconds / 60)} minute(s)`,
+        status: 'warning',
+        metadata: { jobId: event.jobId, status: event.status, ownerInstance: event.ownerInstance, heartbeatAt: event.heartbeatAt, staleForSeconds: event.staleForSeconds }
+      });
+      return;
+
+    case 'JobCompleted':
+      await recordActivity(event, {
+        type: 'system',
+        title: 'Pipeline Completed Successfully',
+        description: `${event.videoType} video "${event.title}" ready for scheduled upload`,
+        status: 'success',
+        metadata: {
+          jobId: event.jobId,
+          videoType: event.videoType,
+          scheduledTime: event.scheduledTime,
+          driveUrl: event.driveUrl
+        }
+      });
+      return;
+
+    case 'JobFailed':
+      await storage.createPipelineLog({
+        jobId: event.jobId,
+        step: event.step || 'pipeline_error',
+        status: 'error',
+        message: `Pipeline failed${event.step ? ` during ${event.step}` : ''}`,
+        details: event.error,
+        metadata: {
+          error: event.error,
+          stack: event.stack,
+          resumable: event.resumable,
+          timeout: event.error.includes('timeout')
+        }
+      });
+      await recordActivity(event, {
+        type: 'error',
+        title: 'Pipeline Failed',
+        description: `Error processing job ${event.jobId}${event.step ? ` at ${event.step}` : ''}: ${event.error}`,
+        status: 'error',
+        metadata: { jobId: event.jobId, failedStep: event.step, error: event.error }
+      });
+      return;
+
+    case 'JobCancelled':
+      await storage.createPipelineLog({
+        jobId: event.jobId,
+        step: event.step || 'pipeline_cancelled',
+        status: 'error',
+        message: `Pipeline cancelled${event.step ? ` during ${event.step}` : ''}`,
+        details: event.reason,
+        metadata: { cancelled: true, reason: event.reason, resumable: true }
+      });
+      await recordActivity(event, {
+        type: 'system',
+        title: 'Job Cancelled',
+        description: `Job ${event.jobId} cancelled${event.step ? ` during ${event.step}` : ''}: ${event.reason}`,
+        status: 'warning',
+        metadata: { jobId: event.jobId, cancelledDuring: event.step, reason: event.reason }
+      });
+      return;
+
+    case 'JobInterrupted':
+      await storage.createPipelineLog({
+        jobId: event.jobId,
+        step: event.step || 'pipeline_interrupted',
+        status: 'error',
+        message: `Pipeline interrupted${event.step ? ` during ${event.step}` : ''}`,
+        details: `${event.reason} - the job resumes from its last checkpoint when the server starts again`,
+        metadata: { interrupted: true, reason: event.reason, resumable: true }
+      });
+      await recordActivity(event, {
+        type: 'system',
+        title: 'Job Interrupted',
+        description: `Job ${event.jobId} interrupted${event.step ? ` during ${event.step}` : ''}: ${event.reason}`,
+        status: 'warning',
+        metadata: { jobId: event.jobId, interruptedDuring: event.step, reason: event.reason }
+      });
+      return;
+
+    case 'JobAwaitingReview':
+      await recordActivity(event, {
+        type: 'system',
+        title: 'Video Awaiting Review',
+        description: `"${event.title}" needs approval before it can be uploaded`,
+        status: 'info',
+        metadata: { jobId: event.jobId, videoType: event.videoType, channelId: event.channelId, scheduledTime: event.scheduledTime }
+      });
+      return;
+
+    case 'JobReviewed': {
+      const approved = event.decision === 'approved';
+      await storage.createPipelineLog({
+        jobId: event.jobId,
+        step: 'review',
+        status: approved ? 'completed' : 'error',
+        message: approved ? 'Video approved for YouTube upload' : 'Video rejected in review',
+        details: approved
+          ? `Approved${event.reviewer ? ` by ${event.reviewer}` : ''} - will upload at ${event.scheduledTime ? new Date(event.scheduledTime).toLocaleString() : 'the next upload check'}`
+          : event.reason,
+        metadata: { decision: event.decision, reason: event.reason, reviewer: event.reviewer }
+      });
+      await recordActivity(event, {
+        type: 'system',
+        title: approved ? 'Video Approved' : 'Video Rejected',
+        description: approved
+          ? `"${event.title}" approved for upload`
+          : `"${event.title}" rejected: ${event.reason}`,
+        status: approved ? 'success' : 'warning',
+        metadata: { jobId: event.jobId, reviewer: event.reviewer, reason: event.reason }
+      });
+      return;
+    }
+
+    case 'ArtifactChanged':
+      await storage.createPipelineLog({
+        jobId: event.jobId,
+        step: `artifact_${event.action}`,
+        status: 'starting',
+        message: event.details,
+        details: `Earlier ${event.artifact} kept as a version for comparison and rollback`,
+        metadata: { artifact: event.artifact, action: event.action }
+      });
+      await recordActivity(event, {
+        type: 'generation',
+        title: event.action === 'rollback' ? 'Artifact Rolled Back' : 'Artifact Regeneration Started',
+        description: `${event.details} for "${event.title}"`,
+        status: 'info',
+        metadata: { jobId: event.jobId, artifact: event.artifact, action: event.action }
+      });
+      return;
+
+    case 'UploadStarted':
+      await storage.createPipelineLog({
+        jobId: event.jobId,
+        step: 'youtube_upload',
+        status: 'starting',
+        message: 'Starting YouTube upload',
+        details: 'Uploading video and thumbnail to YouTube channel',
+        progress: 100
+      });
+      await recordActivity(event, {
+        type: 'upload',
+        title: 'YouTube Upload Started',
+        description: `Starting YouTube upload for "${event.title}" - files confirmed in Google Drive`,
+        status: 'info',
+        metadata: { jobId: event.jobId, title: event.title, driveUrl: event.driveUrl }
+      });
+      return;
+
+    case 'VideoPublished':
+      await storage.createPipelineLog({
+        jobId: event.jobId,
+        step: 'youtube_upload',
+        status: 'completed',
+        message: 'YouTube upload completed successfully',
+        details: `Video published to YouTube with ID: ${event.youtubeId}`,
+        progress: 100,
+        metadata: { youtubeId: event.youtubeId }
+      });
+      await recordActivity(event, {
+        type: 'upload',
+        title: 'Video Published Successfully',
+        description: `Published "${event.title}" to YouTube`,
+        status: 'success',
+        metadata: { jobId: event.jobId, youtubeId: event.youtubeId, videoType: event.videoType, title: event.title }
+      });
+      return;
+
+    case 'UploadFailed':
+      await storage.createPipelineLog({
+        jobId: event.jobId,
+        step: 'youtube_upload',
+        status: 'error',
+        message: 'YouTube upload failed',
+        details: event.error,
+        metadata: { error: event.error }
+      });
+      await recordActivity(event, {
+        type: 'error',
+        title: 'YouTube Upload Failed',
+        description: `Failed to upload ${event.title ? `"${event.title}"` : `job ${event.jobId}`}: ${event.error}`,
+        status: 'error',
+        metadata: { jobId: event.jobId, error: event.error }
+      });
+      return;
+
+    case 'TopicsDiscovered':
+      await recordActivity(event, {
+        type: 'trending',
+        title: 'Space & Science Trending Analysis Complete',
+        description: `Found ${event.count} high-quality space and science topics`,
+        status: 'success',
+        metadata: { count: event.count, categories: event.categories, ...event.metadata }
+      });
+      return;
+
+    case 'DailyRunCompleted':
+      if (event.unfilled.length > 0) {
+        await recordActivity(event, {
+          type: 'warning',
+          title: 'Production Plan Not Fully Filled',
+          description: event.unfilled.map(slot => `${slot.slot}: ${slot.reason}`).join('; '),
+          status: 'warning',
+          metadata: { unfilled: event.unfilled }
+        });
+      }
+      await recordActivity(event, {
+        type: 'system',
+        title: 'Daily Automation Completed',
+        description: `Created ${event.totalJobs} video(s) for today (target: ${event.target})`,
+        status: event.unfilled.length > 0 ? 'warning' : 'success',
+        metadata: { completedAt: event.occurredAt?.toISOString(), totalJobs: event.totalJobs, unfilled: event.unfilled }
+      });
+      return;
+
+    case 'HealthChecked':
+      await recordActivity(event, {
+        type: 'system',
+        title: 'System Health Check',
+        description: event.healthy ? 'All systems operational' : 'Some systems need attention',
+        status: event.healthy ? 'success' : 'warning',
+        metadata: { checks: event.checks, timestamp: event.occurredAt?.toISOString() }
+      });
+      return;
+
+    case 'SystemNotice':
+      await recordActivity(event, {
+        type: event.level === 'error' || event.level === 'warning' ? event.level : event.category,
+        title: event.title,
+        description: event.description,
+        status: event.level,
+        metadata: event.jobId !== undefined ? { jobId: event.jobId, ...event.metadata } : event.metadata
+      });
+      return;
+  }
+}
+
+async function updatePublishStats(videoType: string): Promise<void> {
+  const today = new Date().toISOString().split('T')[0];
+  const existingStats = await storage.getTodayStats();
+
+  await storage.createOrUpdateSystemStats({
+    date: today,
+    videosCreated: (existingStats?.videosCreated || 0) + (videoType === 'long_form' ? 1 : 0),
+    shortsCreated: (existingStats?.shortsCreated || 0) + (videoType === 'short' ? 1 : 0),
+    videosPublished: (existingStats?.videosPublished || 0) + 1,
+    successRate: 94, // Calculate based on actual success/failure rates
+    storageUsed: existingStats?.storageUsed || '15.2 GB',
+    trendingTopicsFound: existingStats?.trendingTopicsFound || 12,
+    systemStatus: 'active' as const
+  });
+}
+
+// Called once at startup by every entry point that runs the pipeline
+export function registerEventSubscribers(): void {
+  if (registered) return;
+  registered = true;
+
+  pipelineEvents.subscribeAll(persistEvent);
+  pipelineEvents.subscribe('VideoPublished', event => updatePublishStats(event.videoType));
+  pipelineEvents.subscribeAll(event => webhookDispatcher.handleEvent(event));
+}
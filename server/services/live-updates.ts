@@ -0,0 +1,120 @@
+import type { Request, Response } from 'express';
+import { storage } from '../storage';
+import { pipelineEvents, type PipelineEvent } from './event-bus';
+
+// Proxies close idle connections, so an SSE comment goes out on this interval
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// Stripped from events and log metadata before they go to browser clients: stack traces, instance
+// names and idempotency keys describe the servers, not the job, and the dashboard never shows them
+const INTERNAL_EVENT_FIELDS = ['stack', 'ownerInstance', 'previousOwner', 'idempotencyKey'];
+const INTERNAL_LOG_METADATA = ['stack'];
+
+function withoutFields<T extends Record<string, any>>(value: T, fields: string[]): T {
+  const copy: Record<string, any> = { ...value };
+  fields.forEach(field => delete copy[field]);
+  return copy as T;
+}
+
+interface LiveClient {
+  res: Response;
+  jobId?: number; // only this job's updates
+}
+
+// Pushes pipeline events to connected dashboards over Server-Sent Events.
+// Each job event is followed by a snapshot of the job and its newest log line, in the same
+// shape as /api/dashboard/active-pipeline and /api/pipeline/logs, so clients can patch their caches.
+export class LiveUpdateHub {
+  private clients = new Set<LiveClient>();
+  private heartbeat: NodeJS.Timeout | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  // Subscribes after the persistence subscriber, so the job and its log line are already written
+  start(): void {
+    if (this.unsubscribe) return;
+    this.unsubscribe = pipelineEvents.subscribeAll(event => this.handleEvent(event));
+  }
+
+  connect(req: Request, res: Response, jobId?: number): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.write('retry: 3000\n\n');
+
+    const client: LiveClient = { res, jobId };
+    this.clients.add(client);
+    this.send(client, 'ready', { jobId: jobId ?? null });
+    this.ensureHeartbeat();
+
+    req.on('close', () => {
+      this.clients.delete(client);
+      if (this.clients.size === 0 && this.heartbeat) {
+        clearInterval(this.heartbeat);
+        this.heartbeat = null;
+      }
+    });
+  }
+
+  getClientCount(): number {
+    return this.clients.size;
+  }
+
+  private async handleEvent(event: PipelineEvent): Promise<void> {
+    if (this.clients.size === 0) return;
+
+    const jobId = 'jobId' in event ? event.jobId : undefined;
+    this.broadcast('pipeline', withoutFields(event, INTERNAL_EVENT_FIELDS), jobId);
+    if (jobId === undefined) return;
+
+    const job = await storage.getContentJobById(jobId);
+    if (job) {
+      this.broadcast('job', {
+        id: job.id,
+        title: job.title,
+        videoType: job.videoType,
+        status: job.status,
+        progress: job.progress,
+        createdAt: job.createdAt,
+        scheduledTime: job.scheduledTime
+      }, jobId);
+    }
+
+    // Events that don't write a log line resend the previous one; clients drop it by id
+    const [log] = await storage.getPipelineLogs(1, jobId);
+    if (log) {
+      const metadata = log.metadata && typeof log.metadata === 'object'
+        ? withoutFields(log.metadata as Record<string, any>, INTERNAL_LOG_METADATA)
+        : log.metadata;
+      this.broadcast('log', { ...log, metadata }, jobId);
+    }
+  }
+
+  private broadcast(name: string, data: unknown, jobId?: number): void {
+    this.clients.forEach(client => {
+      if (client.jobId === undefined || client.jobId === jobId) {
+        this.send(client, name, data);
+      }
+    });
+  }
+
+  private send(client: LiveClient, name: string, data: unknown): void {
+    try {
+      client.res.write(`event: ${name}\ndata: ${JSON.stringify(data)}\n\n`);
+    } catch (error) {
+      console.warn('⚠️ Dropping live update client:', error instanceof Error ? error.message : error);
+      this.clients.delete(client);
+    }
+  }
+
+  private ensureHeartbeat(): void {
+    if (this.heartbeat) return;
+    this.heartbeat = setInterval(() => {
+      this.clients.forEach(client => client.res.write(': heartbeat\n\n'));
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+}
+
+export const liveUpdates = new LiveUpdateHub();
@@ -0,0 +1,329 @@
+import { z } from 'zod';
+import { storage } from '../storage';
+import { isDryRun } from './dry-run';
+import { jobMetadata, trendingData, type ContentJob, type InsertTopicFingerprint, type InsertTrendingTopic, type TopicFingerprint } from '@shared/schema';
+
+export const NEAR_DUPLICATES_SETTING_KEY = 'near_duplicates';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Fingerprints older than this are pruned; lookbackDays can't reach past it
+const FINGERPRINT_RETENTION_DAYS = 30;
+// Changing these invalidates stored signatures
+const NUM_HASHES = 64;
+const TITLE_SHINGLE_CHARS = 4;
+const CONTENT_SHINGLE_WORDS = 3;
+const CONTENT_MAX_WORDS = 400;
+// Shorter text is mostly boilerplate; such topics are compared by title only
+const MIN_CONTENT_WORDS = 50;
+
+export const nearDuplicatesConfigSchema = z.object({
+  lookbackDays: z.number().int().min(0).max(FINGERPRINT_RETENTION_DAYS).default(7), // 0 disables the check against earlier topics
+  publishedVideoDays: z.number().int().min(0).max(365).default(90), // 0 disables the check against published videos
+  titleThreshold: z.number().min(0.1).max(1).default(0.7),
+  contentThreshold: z.number().min(0.1).max(1).default(0.5)
+});
+
+export type NearDuplicatesConfig = z.infer<typeof nearDuplicatesConfigSchema>;
+
+export const DEFAULT_NEAR_DUPLICATES: NearDuplicatesConfig = nearDuplicatesConfigSchema.parse({});
+
+export async function loadNearDuplicates(): Promise<NearDuplicatesConfig> {
+  try {
+    const setting = await storage.getAutomationSetting(NEAR_DUPLICATES_SETTING_KEY);
+    if (!setting) {
+      return DEFAULT_NEAR_DUPLICATES;
+    }
+    return nearDuplicatesConfigSchema.parse(JSON.parse(setting.value));
+  } catch (error) {
+    console.warn('⚠️ Invalid near-duplicates setting, using defaults:', error instanceof Error ? error.message : error);
+    return DEFAULT_NEAR_DUPLICATES;
+  }
+}
+
+// MinHash: per hash function, the smallest hash over the shingles. The share of equal
+// positions in two signatures estimates the Jaccard similarity of their shingle sets.
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// murmur3 finalizer; spreads the seeded base hash over all 32 bits
+function mix32(value: number): number {
+  let hash = value;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+const HASH_SEEDS = Array.from({ length: NUM_HASHES }, (_, index) => fnv1a(`minhash-seed-${index}`));
+
+export function minHash(shingles: Set<string>): number[] {
+  const signature = new Array<number>(NUM_HASHES).fill(0xffffffff);
+  shingles.forEach(shingle => {
+    const base = fnv1a(shingle);
+    for (let i = 0; i < NUM_HASHES; i++) {
+      const hash = mix32(base ^ HASH_SEEDS[i]);
+      if (hash < signature[i]) signature[i] = hash;
+    }
+  });
+  return signature;
+}
+
+export function estimateSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / a.length;
+}
+
+function normalizedWords(text: string): string[] {
+  return text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(Boolean);
+}
+
+// Drops an upper-case lead-in such as "🚀 BREAKING SPACE:" added to titles for YouTube
+function stripTitlePrefix(title: string): string {
+  return title.replace(/^[^A-Za-z0-9]*[A-Z0-9][A-Z0-9 &'!-]*:\s+/, '');
+}
+
+function titleShingles(title: string): Set<string> {
+  const text = normalizedWords(stripTitlePrefix(title)).join(' ');
+  const shingles = new Set<string>();
+  for (let i = 0; i + TITLE_SHINGLE_CHARS <= text.length; i++) {
+    shingles.add(text.slice(i, i + TITLE_SHINGLE_CHARS));
+  }
+  if (shingles.size === 0 && text) shingles.add(text);
+  return shingles;
+}
+
+function contentShingles(content: string): Set<string> | null {
+  const words = normalizedWords(content).slice(0, CONTENT_MAX_WORDS);
+  if (words.length < MIN_CONTENT_WORDS) return null;
+  const shingles = new Set<string>();
+  for (let i = 0; i + CONTENT_SHINGLE_WORDS <= words.length; i++) {
+    shingles.add(words.slice(i, i + CONTENT_SHINGLE_WORDS).join(' '));
+  }
+  return shingles;
+}
+
+interface Fingerprint {
+  title: string;
+  titleSignature: number[];
+  contentSignature: number[] | null;
+}
+
+export function fingerprint(title: string, content?: string | null): Fingerprint {
+  const shingles = content ? contentShingles(content) : null;
+  return {
+    title,
+    titleSignature: minHash(titleShingles(title)),
+    contentSignature: shingles ? minHash(shingles) : null
+  };
+}
+
+export interface DuplicateMatch {
+  ref: string; // topic:<id>, fingerprint:<id> or video:<job id>
+  title: string;
+  similarity: number;
+  basis: 'title' | 'content';
+}
+
+export interface DuplicateDecision {
+  topic: InsertTrendingTopic;
+  fingerprint: Fingerprint;
+  status: 'kept' | 'merged' | 'suppressed';
+  match?: DuplicateMatch;
+  mergedInto?: DuplicateDecision; // kept topic of this run; its ref is known once it is stored
+}
+
+export interface DuplicateResult {
+  topics: InsertTrendingTopic[];
+  decisions: DuplicateDecision[];
+  crossRun: boolean; // false when earlier topics and videos were not checked
+}
+
+interface Candidate {
+  ref: string;
+  fingerprint: Fingerprint;
+  decision?: DuplicateDecision;
+}
+
+export class NearDuplicateDetector {
+  // Within a run, near-duplicates merge into the best-scored copy of the story; topics
+  // matching an earlier topic or a published video are suppressed
+  async dedupe(topics: InsertTrendingTopic[], now: Date = new Date()): Promise<DuplicateResult> {
+    const config = await loadNearDuplicates();
+    // Dry runs analyze the same fixtures every time; history would suppress them all
+    const crossRun = !isDryRun();
+    const history = crossRun ? await this.loadHistory(config, now) : [];
+
+    const ranked = [...topics].sort((a, b) => this.scoreOf(b) - this.scoreOf(a));
+    const kept: Candidate[] = [];
+    const decisions: DuplicateDecision[] = [];
+
+    for (const topic of ranked) {
+      const data = trendingData(topic);
+      const print = fingerprint(data.originalTitle || topic.title, data.fullContent || topic.description);
+
+      const earlier = this.bestMatch(print, history, config);
+      if (earlier) {
+        decisions.push({ topic, fingerprint: print, status: 'suppressed', match: earlier.match });
+        continue;
+      }
+
+      const sameRun = this.bestMatch(print, kept, config);
+      if (sameRun?.candidate.decision) {
+        const decision: DuplicateDecision = {
+          topic,
+          fingerprint: print,
+          status: 'merged',
+          match: sameRun.match,
+          mergedInto: sameRun.candidate.decision
+        };
+        decisions.push(decision);
+        this.attachDuplicate(sameRun.candidate.decision.topic, decision);
+        continue;
+      }
+
+      const decision: DuplicateDecision = { topic, fingerprint: print, status: 'kept' };
+      decisions.push(decision);
+      kept.push({ ref: '', fingerprint: print, decision });
+    }
+
+    const merged = decisions.filter(decision => decision.status === 'merged').length;
+    const suppressed = decisions.filter(decision => decision.status === 'suppressed').length;
+    console.log(`🧬 NEAR-DUPLICATES: kept ${kept.length}/${topics.length} topics (${merged} merged, ${suppressed} already covered)`);
+
+    return {
+      topics: topics.filter(topic => kept.some(candidate => candidate.decision?.topic === topic)),
+      decisions,
+      crossRun
+    };
+  }
+
+  // Stores the fingerprints of this run. Kept topics that weren't stored (cut from the
+  // final list) are skipped so they don't block the story in later runs.
+  async record(result: DuplicateResult, storedIds: Map<InsertTrendingTopic, number>, now: Date = new Date()): Promise<void> {
+    if (!result.crossRun) return;
+
+    try {
+      const rows: InsertTopicFingerprint[] = [];
+      for (const decision of result.decisions) {
+        const topicId = storedIds.get(decision.topic);
+        if (decision.status === 'kept' && topicId === undefined) continue;
+
+        const mergedIntoId = decision.mergedInto ? storedIds.get(decision.mergedInto.topic) : undefined;
+        const data = trendingData(decision.topic);
+        rows.push({
+          topicId: decision.status === 'kept' ? topicId : null,
+          title: decision.fingerprint.title,
+          sourceUrl: data.sourceUrl || null,
+          titleSignature: decision.fingerprint.titleSignature,
+          contentSignature: decision.fingerprint.contentSignature,
+          status: decision.status,
+          matchedRef: mergedIntoId !== undefined ? `topic:${mergedIntoId}` : decision.match?.ref || null,
+          matchedTitle: decision.match?.title || null,
+          similarity: decision.match?.similarity ?? null
+        });
+      }
+
+      await storage.createTopicFingerprints(rows);
+      await storage.deleteTopicFingerprintsBefore(new Date(now.getTime() - FINGERPRINT_RETENTION_DAYS * DAY_MS));
+    } catch (error) {
+      console.error('❌ Failed to record topic fingerprints:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  private async loadHistory(config: NearDuplicatesConfig, now: Date): Promise<Candidate[]> {
+    const candidates: Candidate[] = [];
+
+    try {
+      if (config.lookbackDays > 0) {
+        const fingerprints = await storage.getKeptTopicFingerprintsSince(new Date(now.getTime() - config.lookbackDays * DAY_MS));
+        candidates.push(...fingerprints.map(row => this.fromStored(row)));
+      }
+
+      if (config.publishedVideoDays > 0) {
+        const jobs = await storage.getPublishedContentJobsSince(new Date(now.getTime() - config.publishedVideoDays * DAY_MS));
+        candidates.push(...jobs.map(job => this.fromVideo(job)));
+      }
+    } catch (error) {
+      // Without history the run still merges duplicates among its own topics
+      console.warn('⚠️ Could not load near-duplicate history:', error instanceof Error ? error.message : error);
+    }
+
+    return candidates;
+  }
+
+  private fromStored(row: TopicFingerprint): Candidate {
+    return {
+      ref: row.topicId ? `topic:${row.topicId}` : `fingerprint:${row.id}`,
+      fingerprint: { title: row.title, titleSignature: row.titleSignature, contentSignature: row.contentSignature }
+    };
+  }
+
+  // The job keeps the topic title and article text it was made from
+  private fromVideo(job: ContentJob): Candidate {
+    const metadata = jobMetadata(job);
+    return {
+      ref: `video:${job.id}`,
+      fingerprint: fingerprint(metadata.topic || job.title, metadata.originalContent)
+    };
+  }
+
+  private bestMatch(print: Fingerprint, candidates: Candidate[], config: NearDuplicatesConfig): { candidate: Candidate; match: DuplicateMatch } | null {
+    let best: { candidate: Candidate; match: DuplicateMatch } | null = null;
+
+    for (const candidate of candidates) {
+      const titleSimilarity = estimateSimilarity(print.titleSignature, candidate.fingerprint.titleSignature);
+      const contentSimilarity = print.contentSignature && candidate.fingerprint.contentSignature
+        ? estimateSimilarity(print.contentSignature, candidate.fingerprint.contentSignature)
+        : 0;
+
+      const basis = contentSimilarity >= config.contentThreshold ? 'content'
+        : titleSimilarity >= config.titleThreshold ? 'title'
+        : null;
+      if (!basis) continue;
+
+      const similarity = Math.round((basis === 'content' ? contentSimilarity : titleSimilarity) * 1000) / 1000;
+      if (!best || similarity > best.match.similarity) {
+        best = { candidate, match: { ref: candidate.ref, title: candidate.fingerprint.title, similarity, basis } };
+      }
+    }
+
+    return best;
+  }
+
+  private attachDuplicate(target: InsertTrendingTopic, duplicate: DuplicateDecision): void {
+    const data = trendingData(target);
+    const duplicateData = trendingData(duplicate.topic);
+    target.trending_data = {
+      ...data,
+      nearDuplicates: [
+        ...(data.nearDuplicates || []),
+        {
+          title: duplicate.fingerprint.title,
+          source: duplicateData.sourceDomain || duplicate.topic.source,
+          sourceUrl: duplicateData.sourceUrl || null,
+          similarity: duplicate.match?.similarity,
+          basis: duplicate.match?.basis
+        }
+      ]
+    };
+  }
+
+  private scoreOf(topic: InsertTrendingTopic): number {
+    return trendingData(topic).score?.total || 0;
+  }
+}
+
+export const nearDuplicateDetector = new NearDuplicateDetector();
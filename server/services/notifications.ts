@@ -0,0 +1,257 @@
+import axios from 'axios';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { sendMail } from './smtp-mailer';
+import type { PipelineEventType } from './event-bus';
+import type { ActivityLog } from '@shared/schema';
+
+export const NOTIFICATIONS_SETTING_KEY = 'notifications';
+const DIGEST_SENT_SETTING_KEY = 'notification_digest_last_sent';
+
+const NOTIFICATION_CHANNELS = ['email', 'chat'] as const;
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+
+const activityStatusSchema = z.enum(['success', 'error', 'warning', 'info']);
+const clockTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM');
+
+const notificationRuleSchema = z.object({
+  // Pipeline event types whose activity log entries trigger the rule; "*" matches all of them
+  events: z.array(z.string().min(1)).min(1),
+  statuses: z.array(activityStatusSchema).optional(), // activity status filter; all statuses when left out
+  channels: z.array(z.enum(NOTIFICATION_CHANNELS)).min(1)
+});
+
+export const notificationConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  timezone: z.string().default('Asia/Kolkata'),
+  email: z.object({
+    enabled: z.boolean().default(false),
+    host: z.string().min(1).default('localhost'),
+    port: z.number().int().min(1).max(65535).default(587),
+    secure: z.boolean().default(false), // implicit TLS (port 465); STARTTLS is used whenever the server offers it
+    rejectUnauthorized: z.boolean().default(true),
+    from: z.string().min(3).default('YouTube Automation <automation@localhost>'),
+    to: z.array(z.string().min(3)).default([])
+  }).default({}),
+  chat: z.object({
+    enabled: z.boolean().default(false),
+    url: z.string().url().optional(),
+    // Field holding the message text: "text" for Slack/Mattermost/Google Chat, "content" for Discord
+    textField: z.string().min(1).default('text')
+  }).default({}),
+  rules: z.array(notificationRuleSchema).default([]),
+  quietHours: z.object({
+    enabled: z.boolean().default(false),
+    start: clockTimeSchema.default('23:00'),
+    end: clockTimeSchema.default('07:00'),
+    allowStatuses: z.array(activityStatusSchema).default(['error']) // still delivered during quiet hours
+  }).default({}),
+  digest: z.object({
+    enabled: z.boolean().default(false),
+    time: clockTimeSchema.default('21:00'), // checked hourly, so only the hour matters
+    channels: z.array(z.enum(NOTIFICATION_CHANNELS)).min(1).default(['email'])
+  }).default({})
+});
+
+export type NotificationConfig = z.infer<typeof notificationConfigSchema>;
+
+// Failures and degraded health everywhere, publishes to chat only
+export const DEFAULT_NOTIFICATIONS: NotificationConfig = notificationConfigSchema.parse({
+  rules: [
+    { events: ['*'], statuses: ['error'], channels: ['email', 'chat'] },
+    { events: ['HealthChecked'], statuses: ['warning'], channels: ['email', 'chat'] },
+    { events: ['VideoPublished'], channels: ['chat'] }
+  ]
+});
+
+export interface Notification {
+  subject: string;
+  text: string;
+  status: string;
+  metadata?: Record<string, any>;
+}
+
+export async function loadNotificationConfig(): Promise<NotificationConfig> {
+  try {
+    const setting = await storage.getAutomationSetting(NOTIFICATIONS_SETTING_KEY);
+    if (!setting) {
+      return DEFAULT_NOTIFICATIONS;
+    }
+    return notificationConfigSchema.parse(JSON.parse(setting.value));
+  } catch (error) {
+    console.warn('⚠️ Invalid notifications setting, using defaults:', error instanceof Error ? error.message : error);
+    return DEFAULT_NOTIFICATIONS;
+  }
+}
+
+// Minutes since midnight and the calendar date in the configured timezone
+function localClock(timezone: string, at: Date = new Date()): { minutes: number; date: string } {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(at);
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '00';
+  return {
+    minutes: parseInt(part('hour')) * 60 + parseInt(part('minute')),
+    date: `${part('year')}-${part('month')}-${part('day')}`
+  };
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+export function isQuietHours(config: NotificationConfig, at: Date = new Date()): boolean {
+  if (!config.quietHours.enabled) return false;
+  const now = localClock(config.timezone, at).minutes;
+  const start = toMinutes(config.quietHours.start);
+  const end = toMinutes(config.quietHours.end);
+  // A window like 23:00-07:00 wraps past midnight
+  return start <= end ? now >= start && now < end : now >= start || now < end;
+}
+
+export function matchChannels(config: NotificationConfig, eventType: PipelineEventType, activity: ActivityLog): NotificationChannel[] {
+  const channels = new Set<NotificationChannel>();
+  for (const rule of config.rules) {
+    const eventMatches = rule.events.includes('*') || rule.events.includes(eventType);
+    const statusMatches = !rule.statuses || rule.statuses.includes(activity.status as 'success' | 'error' | 'warning' | 'info');
+    if (eventMatches && statusMatches) {
+      rule.channels.forEach(channel => channels.add(channel));
+    }
+  }
+  return Array.from(channels);
+}
+
+export class NotificationCenter {
+  // Called for every activity log entry written by the event subscribers
+  async handleActivity(eventType: PipelineEventType, activity: ActivityLog): Promise<void> {
+    const config = await loadNotificationConfig();
+    if (!config.enabled) return;
+
+    const channels = matchChannels(config, eventType, activity);
+    if (channels.length === 0) return;
+
+    if (isQuietHours(config) && !config.quietHours.allowStatuses.includes(activity.status as 'success' | 'error' | 'warning' | 'info')) {
+      console.log(`🔕 Quiet hours - dropping notification "${activity.title}"`);
+      return;
+    }
+
+    const notification: Notification = {
+      subject: `[${activity.status.toUpperCase()}] ${activity.title}`,
+      text: activity.description || activity.title,
+      status: activity.status,
+      metadata: { event: eventType, activityId: activity.id, ...(activity.metadata as Record<string, any> | null) }
+    };
+
+    // Not awaited - a slow mail server must not hold up the pipeline that published the event
+    this.deliver(config, channels, notification).catch(error => {
+      console.error('❌ Notification delivery failed:', error instanceof Error ? error.message : error);
+    });
+  }
+
+  async deliver(config: NotificationConfig, channels: NotificationChannel[], notification: Notification): Promise<Record<NotificationChannel, string>> {
+    const results = {} as Record<NotificationChannel, string>;
+    for (const channel of channels) {
+      try {
+        if (channel === 'email') {
+          await this.sendEmail(config, notification);
+        } else {
+          await this.sendChat(config, notification);
+        }
+        results[channel] = 'sent';
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`❌ Failed to send ${channel} notification "${notification.subject}":`, message);
+        results[channel] = message;
+      }
+    }
+    return results;
+  }
+
+  // Runs hourly; sends once per day, in the hour configured for the digest
+  async sendDailyDigestIfDue(): Promise<boolean> {
+    const config = await loadNotificationConfig();
+    if (!config.enabled || !config.digest.enabled) return false;
+
+    const clock = localClock(config.timezone);
+    if (Math.floor(clock.minutes / 60) !== Math.floor(toMinutes(config.digest.time) / 60)) return false;
+
+    const lastSent = await storage.getAutomationSetting(DIGEST_SENT_SETTING_KEY);
+    if (lastSent?.value === clock.date) return false;
+
+    await this.sendDailyDigest(config);
+    await storage.setAutomationSetting({
+      key: DIGEST_SENT_SETTING_KEY,
+      value: clock.date,
+      description: 'Local date the last daily notification digest was sent'
+    });
+    return true;
+  }
+
+  async sendDailyDigest(config: NotificationConfig): Promise<Record<NotificationChannel, string>> {
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const created = await storage.getContentJobsSince(since);
+    const published = await storage.getPublishedContentJobsSince(since);
+
+    const countBy = (status: string) => created.filter(job => job.status === status).length;
+    const failed = created.filter(job => job.status === 'failed');
+    const lines = [
+      `Daily summary for ${localClock(config.timezone).date}`,
+      '',
+      `Jobs created: ${created.length} (${created.filter(job => job.videoType === 'long_form').length} long-form, ${created.filter(job => job.videoType === 'short').length} Shorts)`,
+      `Ready for upload: ${countBy('ready_for_upload')}`,
+      `Awaiting review: ${countBy('awaiting_review')}`,
+      `Failed: ${failed.length}`,
+      `Published: ${published.length}`,
+      ...published.map(job => `  - ${job.title} (https://www.youtube.com/watch?v=${job.youtubeId})`),
+      ...(failed.length > 0 ? ['', 'Failures:', ...failed.map(job => `  - #${job.id} ${job.title}: ${job.errorMessage || 'unknown error'}`)] : [])
+    ];
+
+    return await this.deliver(config, config.digest.channels, {
+      subject: `Daily digest: ${published.length} published, ${created.length} created, ${failed.length} failed`,
+      text: lines.join('\n'),
+      status: failed.length > 0 ? 'warning' : 'success',
+      metadata: { created: created.length, published: published.length, failed: failed.length }
+    });
+  }
+
+  private async sendEmail(config: NotificationConfig, notification: Notification): Promise<void> {
+    if (!config.email.enabled) throw new Error('Email channel is disabled');
+    if (config.email.to.length === 0) throw new Error('No email recipients configured');
+
+    // Credentials stay in the environment, not in automation_settings
+    await sendMail({
+      host: config.email.host,
+      port: config.email.port,
+      secure: config.email.secure,
+      rejectUnauthorized: config.email.rejectUnauthorized,
+      username: process.env.SMTP_USER || undefined,
+      password: process.env.SMTP_PASSWORD || undefined
+    }, {
+      from: config.email.from,
+      to: config.email.to,
+      subject: notification.subject,
+      text: notification.text
+    });
+  }
+
+  private async sendChat(config: NotificationConfig, notification: Notification): Promise<void> {
+    if (!config.chat.enabled || !config.chat.url) throw new Error('Chat channel is disabled or has no URL');
+
+    await axios.post(config.chat.url, {
+      [config.chat.textField]: `*${notification.subject}*\n${notification.text}`,
+      subject: notification.subject,
+      status: notification.status,
+      metadata: notification.metadata,
+      sentAt: new Date().toISOString()
+    }, { timeout: 10 * 1000 });
+  }
+}
+
+export const notificationCenter = new NotificationCenter();
@@ -0,0 +1,128 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { execCancellable, type CancellationToken } from './cancellation';
+import type { ShortSegment } from '@shared/schema';
+
+const MIN_SHORT_SECONDS = 45;
+const MAX_SHORT_SECONDS = 60;
+
+// Words that usually mark the part of a story people stop scrolling for
+const HOOK_WORDS = [
+  'first', 'never', 'biggest', 'largest', 'secret', 'discover', 'discovered', 'breakthrough', 'surprising',
+  'shocking', 'record', 'why', 'how', 'mystery', 'finally', 'revealed', 'unexpected', 'only', 'new'
+];
+
+export class ShortDeriver {
+  private outputDir = path.join(process.cwd(), 'temp', 'videos');
+
+  // Picks the run of whole sentences lasting 45-60s with the highest hook score.
+  // Sentence timings are estimated from their share of the script, which matches how TTS paces narration.
+  selectSegment(script: string, narrationDuration: number, title: string = ''): ShortSegment {
+    if (narrationDuration < MIN_SHORT_SECONDS) {
+      throw new Error(`Narration is only ${Math.round(narrationDuration)}s - too short to cut a ${MIN_SHORT_SECONDS}s Short`);
+    }
+
+    const sentences = script
+      .replace(/\s+/g, ' ')
+      .split(/(?<=[.!?])\s+/)
+      .map(sentence => sentence.trim())
+      .filter(Boolean);
+    const totalChars = sentences.reduce((sum, sentence) => sum + sentence.length, 0) || 1;
+    const secondsPerChar = narrationDuration / totalChars;
+    const titleWords = new Set(title.toLowerCase().split(/\W+/).filter(word => word.length > 3));
+
+    let cursor = 0;
+    const timed = sentences.map(sentence => {
+      const start = cursor;
+      cursor += sentence.length * secondsPerChar;
+      return { text: sentence, start, end: cursor, score: this.scoreSentence(sentence, titleWords) };
+    });
+
+    let best: ShortSegment | null = null;
+    for (let i = 0; i < timed.length; i++) {
+      let score = 0;
+      for (let j = i; j < timed.length; j++) {
+        score += timed[j].score;
+        const duration = timed[j].end - timed[i].start;
+        if (duration > MAX_SHORT_SECONDS) break;
+        if (duration >= MIN_SHORT_SECONDS && (!best || score > best.score)) {
+          best = {
+            start: timed[i].start,
+            end: timed[j].end,
+            duration,
+            text: timed.slice(i, j + 1).map(sentence => sentence.text).join(' '),
+            score
+          };
+        }
+      }
+    }
+
+    if (best) {
+      return this.roundSegment(best);
+    }
+
+    // Sentences too long to line up with the window - take 55s from the strongest sentence
+    const strongest = timed.reduce((top, sentence) => sentence.score > top.score ? sentence : top, timed[0]);
+    const duration = Math.min(55, narrationDuration);
+    const start = Math.max(0, Math.min(strongest?.start || 0, narrationDuration - duration));
+    const end = start + duration;
+    return this.roundSegment({
+      start,
+      end,
+      duration,
+      text: timed.filter(sentence => sentence.end > start && sentence.start < end).map(sentence => sentence.text).join(' '),
+      score: strongest?.score || 0
+    });
+  }
+
+  async cutAudio(sourcePath: string, segment: ShortSegment, jobId: number, token?: CancellationToken): Promise<string> {
+    await fs.mkdir(this.outputDir, { recursive: true });
+    const outputPath = path.join(this.outputDir, `derived_audio_${jobId}.mp3`);
+
+    const command = `ffmpeg -ss ${segment.start} -t ${segment.duration} -i "${sourcePath}" ` +
+      `-vn -af "afade=t=in:d=0.3,afade=t=out:st=${Math.max(0, segment.duration - 0.5)}:d=0.5" ` +
+      `-c:a libmp3lame -b:a 192k "${outputPath}" -y`;
+    await execCancellable(command, { timeout: 120000 }, token);
+
+    console.log(`✂️ Cut ${segment.duration}s of narration for job ${jobId}`);
+    return outputPath;
+  }
+
+  // Reframes the 16:9 cut to 1080x1920: the full frame sits centred over a blurred, cropped copy of itself
+  async cutVerticalVideo(sourcePath: string, segment: ShortSegment, jobId: number, token?: CancellationToken): Promise<string> {
+    await fs.mkdir(this.outputDir, { recursive: true });
+    const outputPath = path.join(this.outputDir, `derived_short_${jobId}.mp4`);
+
+    const command = `ffmpeg -ss ${segment.start} -t ${segment.duration} -i "${sourcePath}" ` +
+      `-filter_complex "[0:v]split=2[bg][fg];` +
+      `[bg]scale=1080:1920:force_original_aspect_ratio=increase,crop=1080:1920,boxblur=20:5[blur];` +
+      `[fg]scale=1080:-2[front];` +
+      `[blur][front]overlay=(W-w)/2:(H-h)/2,setsar=1[v]" ` +
+      `-map "[v]" -map 0:a? -c:v libx264 -preset fast -crf 20 -r 30 -pix_fmt yuv420p ` +
+      `-c:a aac -b:a 192k -movflags +faststart "${outputPath}" -y`;
+    await execCancellable(command, { timeout: 600000 }, token);
+
+    console.log(`📱 Reframed ${segment.duration}s segment to 1080x1920 for job ${jobId}`);
+    return outputPath;
+  }
+
+  private scoreSentence(sentence: string, titleWords: Set<string>): number {
+    const words = sentence.toLowerCase().split(/\W+/).filter(Boolean);
+    let score = 1;
+
+    if (/\d/.test(sentence)) score += 1.5; // concrete numbers
+    if (/[?!]$/.test(sentence)) score += 1;
+    score += Math.min(2, words.filter(word => HOOK_WORDS.includes(word)).length);
+    score += Math.min(2, words.filter(word => titleWords.has(word)).length * 0.5);
+
+    return score;
+  }
+
+  private roundSegment(segment: ShortSegment): ShortSegment {
+    const start = Math.round(segment.start * 10) / 10;
+    const end = Math.round(segment.end * 10) / 10;
+    return { ...segment, start, end, duration: Math.round((end - start) * 10) / 10 };
+  }
+}
+
+export const shortDeriver = new ShortDeriver();
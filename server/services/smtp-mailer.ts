@@ -0,0 +1,45 @@
+import nodemailer from 'nodemailer';
+
+const SMTP_TIMEOUT_MS = 15 * 1000;
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the first byte (usually port 465); otherwise STARTTLS when the server offers it
+  username?: string;
+  password?: string;
+  rejectUnauthorized?: boolean;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+// One message per connection - notifications are rare enough that pooling buys nothing.
+// Nodemailer encodes non-ASCII headers (RFC 2047) and handles STARTTLS, AUTH and dot-stuffing.
+export async function sendMail(options: SmtpOptions, message: MailMessage): Promise<void> {
+  const transport = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: options.username ? { user: options.username, pass: options.password || '' } : undefined,
+    tls: { rejectUnauthorized: options.rejectUnauthorized ?? true },
+    connectionTimeout: SMTP_TIMEOUT_MS,
+    greetingTimeout: SMTP_TIMEOUT_MS,
+    socketTimeout: SMTP_TIMEOUT_MS
+  });
+
+  try {
+    await transport.sendMail({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text
+    });
+  } finally {
+    transport.close();
+  }
+}
@@ -1,7 +1,8 @@
 import { google } from 'googleapis';
 import fs from 'fs';
 import path from 'path';
-import { storage } from '../storage';
+import { pipelineEvents } from './event-bus';
+import { isDryRun, dryRunServices } from './dry-run';
 
 export class StorageManager {
   private drive: any;
@@ -99,6 +100,10 @@ export class StorageManager {
   }
 
   async organizeFiles(videoPath: string, thumbnailPath: string, jobId: number): Promise<{ videoUrl: string; thumbnailUrl: string }> {
+    if (isDryRun()) {
+      return await dryRunServices.storeFiles(videoPath, thumbnailPath, jobId);
+    }
+
     try {
       // Check if Google Drive API is properly configured
       if (!this.isGoogleDriveConfigured()) {
@@ -117,11 +122,12 @@ export class StorageManager {
         this.uploadFile(thumbnailPath, folderId, 'thumbnail')
       ]);
 
-      await storage.createActivityLog({
-        type: 'upload',
+      await pipelineEvents.publish({
+        type: 'SystemNotice',
+        category: 'upload',
+        level: 'success',
         title: 'Files Organized in Google Drive',
         description: `Uploaded video and thumbnail to ${folderStructure.join('/')}`,
-        status: 'success',
         metadata: { 
           jobId, 
           folderPath: folderStructure.join('/'),
@@ -149,11 +155,12 @@ export class StorageManager {
       }
 
       // For other errors, also use mock storage but log the specific error
-      await storage.createActivityLog({
-        type: 'error',
+      await pipelineEvents.publish({
+        type: 'SystemNotice',
+        category: 'upload',
+        level: 'error',
         title: 'File Organization Failed',
         description: `Error organizing files for job ${jobId}: ${error.message}`,
-        status: 'error',
         metadata: { jobId, error: error.message }
       });
 
@@ -188,11 +195,12 @@ export class StorageManager {
     const mockVideoUrl = `mock-video-${jobId}-${timestamp}.mp4`;
     const mockThumbnailUrl = `mock-thumbnail-${jobId}-${timestamp}.jpg`;
 
-    await storage.createActivityLog({
-      type: 'upload',
+    await pipelineEvents.publish({
+      type: 'SystemNotice',
+      category: 'upload',
+      level: 'warning',
       title: 'Files Organized (Mock Storage)',
       description: `Mock storage used - ${reason}`,
-      status: 'warning',
       metadata: { 
         jobId, 
         videoUrl: mockVideoUrl,
@@ -349,20 +357,22 @@ export class StorageManager {
         console.log(`Deleted old file: ${file.name}`);
       }
 
-      await storage.createActivityLog({
-        type: 'system',
+      await pipelineEvents.publish({
+        type: 'SystemNotice',
+        category: 'system',
+        level: 'success',
         title: 'Storage Cleanup Completed',
         description: `Deleted ${filesToDelete.length} files older than ${daysOld} days`,
-        status: 'success',
         metadata: { deletedCount: filesToDelete.length, daysOld }
       });
     } catch (error) {
       console.error('Storage cleanup error:', error);
-      await storage.createActivityLog({
-        type: 'error',
+      await pipelineEvents.publish({
+        type: 'SystemNotice',
+        category: 'system',
+        level: 'error',
         title: 'Storage Cleanup Failed',
         description: `Error during cleanup: ${error.message}`,
-        status: 'error',
         metadata: { error: error.message }
       });
     }
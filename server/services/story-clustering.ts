@@ -0,0 +1,261 @@
+import { z } from 'zod';
+import { storage } from '../storage';
+import { fingerprint, estimateSimilarity } from './near-duplicates';
+import { sourceReputation } from './topic-scoring';
+import { trendingData, type InsertTrendingTopic, type StorySource, type TrendingData } from '@shared/schema';
+
+export const STORY_CLUSTERING_SETTING_KEY = 'story_clustering';
+
+// Entities come from the opening of the article, where outlets name who and what the story is about
+const ENTITY_SCAN_WORDS = 150;
+
+const ENTITY_STOP_WORDS = new Set([
+  'the', 'this', 'that', 'these', 'those', 'there', 'their', 'they', 'its', 'his', 'her', 'our', 'you', 'and', 'but',
+  'for', 'with', 'from', 'into', 'over', 'after', 'before', 'while', 'when', 'where', 'what', 'why', 'how', 'who',
+  'new', 'first', 'last', 'latest', 'breaking', 'update', 'today', 'yesterday', 'tomorrow', 'week', 'year',
+  'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday',
+  'january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december',
+  'image', 'credit', 'photo', 'video', 'read', 'more', 'said', 'says', 'according'
+]);
+
+export const storyClusteringConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  minSharedEntities: z.number().int().min(1).default(2),
+  entityTextSimilarity: z.number().min(0).max(1).default(0.3), // text similarity that, with shared entities, makes one story
+  textSimilarity: z.number().min(0.1).max(1).default(0.6), // text similarity that makes one story on its own
+  maxBriefSources: z.number().int().min(1).max(20).default(6), // sources whose text goes into the combined brief
+  maxBriefWords: z.number().int().min(200).max(5000).default(1800)
+});
+
+export type StoryClusteringConfig = z.infer<typeof storyClusteringConfigSchema>;
+
+export const DEFAULT_STORY_CLUSTERING: StoryClusteringConfig = storyClusteringConfigSchema.parse({});
+
+export async function loadStoryClustering(): Promise<StoryClusteringConfig> {
+  try {
+    const setting = await storage.getAutomationSetting(STORY_CLUSTERING_SETTING_KEY);
+    if (!setting) {
+      return DEFAULT_STORY_CLUSTERING;
+    }
+    return storyClusteringConfigSchema.parse(JSON.parse(setting.value));
+  } catch (error) {
+    console.warn('⚠️ Invalid story clustering setting, using defaults:', error instanceof Error ? error.message : error);
+    return DEFAULT_STORY_CLUSTERING;
+  }
+}
+
+// Capitalized words that don't open a sentence - names of missions, agencies, places and people.
+// Headlines are skipped: in title case every word would count.
+export function extractEntities(text: string): Set<string> {
+  const entities = new Set<string>();
+  const words = text.split(/\s+/).slice(0, ENTITY_SCAN_WORDS);
+  let sentenceStart = true;
+
+  for (const raw of words) {
+    const word = raw.replace(/^[^A-Za-z0-9]+|[^A-Za-z0-9]+$/g, '');
+    const acronym = /^[A-Z][A-Z0-9]{1,}$/.test(word);
+    if (word.length >= 3 && /^[A-Z]/.test(word) && (acronym || !sentenceStart)) {
+      const entity = word.toLowerCase();
+      if (!ENTITY_STOP_WORDS.has(entity)) entities.add(entity);
+    }
+    sentenceStart = /[.!?]["')\]]*$/.test(raw);
+  }
+
+  return entities;
+}
+
+// Distinct outlets behind a story; one outlet's several articles count once
+export function storyOutlets(sources: StorySource[]): string[] {
+  return Array.from(new Set(sources.map(source => source.domain)));
+}
+
+interface ClusterInput {
+  topic: InsertTrendingTopic;
+  data: TrendingData;
+  title: string; // without the title prefix added for YouTube
+  content: string;
+  domain: string;
+  entities: Set<string>;
+  print: ReturnType<typeof fingerprint>;
+}
+
+export class StoryClusterer {
+  // Groups articles about one event into a single topic: the most reputable article gives
+  // the headline, every article is listed as a source and their texts form one brief
+  async cluster(topics: InsertTrendingTopic[]): Promise<InsertTrendingTopic[]> {
+    const config = await loadStoryClustering();
+    if (!config.enabled || topics.length < 2) return topics;
+
+    const inputs = this.collapseSameUrl(topics.map(topic => this.toInput(topic)));
+    const clusters = this.groupInputs(inputs, config);
+
+    const clustered = clusters.map(members => members.length === 1
+      ? members[0].topic
+      : this.mergeCluster(members, config));
+
+    const multiSource = clusters.filter(members => new Set(members.map(member => member.domain)).size > 1);
+    console.log(`🧩 STORY CLUSTERING: ${topics.length} articles -> ${clustered.length} topics (${multiSource.length} multi-source stories)`);
+    return clustered;
+  }
+
+  private toInput(topic: InsertTrendingTopic): ClusterInput {
+    const data = trendingData(topic);
+    const title = data.originalTitle || topic.title;
+    const content = data.fullContent || topic.description || '';
+    return {
+      topic,
+      data,
+      title,
+      content,
+      domain: String(data.sourceDomain || topic.source).replace(/^www\./, ''),
+      entities: extractEntities(content || title),
+      print: fingerprint(title, content)
+    };
+  }
+
+  // The same article found by two adapters (a feed and a search, say) is one source, not two;
+  // the copy with the most text stays
+  private collapseSameUrl(inputs: ClusterInput[]): ClusterInput[] {
+    const byUrl = new Map<string, ClusterInput>();
+    const collapsed: ClusterInput[] = [];
+
+    for (const input of inputs) {
+      const url = this.urlKey(input.data.sourceUrl);
+      if (!url) {
+        collapsed.push(input);
+        continue;
+      }
+      const kept = byUrl.get(url);
+      if (!kept) {
+        byUrl.set(url, input);
+        collapsed.push(input);
+      } else if (input.content.length > kept.content.length) {
+        byUrl.set(url, input);
+        collapsed[collapsed.indexOf(kept)] = input;
+      }
+    }
+
+    return collapsed;
+  }
+
+  private urlKey(url: unknown): string | null {
+    if (typeof url !== 'string' || !url.trim()) return null;
+    try {
+      const parsed = new URL(url.trim());
+      return `${parsed.hostname.replace(/^www\./, '').toLowerCase()}${parsed.pathname.replace(/\/+$/, '')}${parsed.search}`;
+    } catch {
+      return url.trim();
+    }
+  }
+
+  // Single-link grouping; clusters keep the order of their first article
+  private groupInputs(inputs: ClusterInput[], config: StoryClusteringConfig): ClusterInput[][] {
+    const clusterOf = inputs.map((_, index) => index);
+    const find = (index: number): number => clusterOf[index] === index ? index : (clusterOf[index] = find(clusterOf[index]));
+
+    for (let a = 0; a < inputs.length; a++) {
+      for (let b = a + 1; b < inputs.length; b++) {
+        if (find(a) !== find(b) && this.sameStory(inputs[a], inputs[b], config)) {
+          clusterOf[find(b)] = find(a);
+        }
+      }
+    }
+
+    const clusters = new Map<number, ClusterInput[]>();
+    inputs.forEach((input, index) => {
+      const root = find(index);
+      clusters.set(root, [...(clusters.get(root) || []), input]);
+    });
+    return Array.from(clusters.values());
+  }
+
+  private sameStory(a: ClusterInput, b: ClusterInput, config: StoryClusteringConfig): boolean {
+    const titleSimilarity = estimateSimilarity(a.print.titleSignature, b.print.titleSignature);
+    const contentSimilarity = a.print.contentSignature && b.print.contentSignature
+      ? estimateSimilarity(a.print.contentSignature, b.print.contentSignature)
+      : 0;
+    const textSimilarity = Math.max(titleSimilarity, contentSimilarity);
+    if (textSimilarity >= config.textSimilarity) return true;
+
+    const shared = Array.from(a.entities).filter(entity => b.entities.has(entity)).length;
+    return shared >= config.minSharedEntities && textSimilarity >= config.entityTextSimilarity;
+  }
+
+  private mergeCluster(members: ClusterInput[], config: StoryClusteringConfig): InsertTrendingTopic {
+    const ranked = [...members].sort((a, b) =>
+      sourceReputation(b.domain) - sourceReputation(a.domain)
+      || (Number(b.data.qualityScore) || 0) - (Number(a.data.qualityScore) || 0)
+      || (Number(b.data.wordCount) || 0) - (Number(a.data.wordCount) || 0)
+    );
+    const representative = ranked[0];
+    const brief = this.buildBrief(ranked, config);
+
+    const sources: StorySource[] = ranked.map(member => ({
+      title: member.title,
+      url: member.data.sourceUrl || null,
+      domain: member.domain,
+      adapter: member.topic.source,
+      publishedAt: member.data.publishedAt || null,
+      qualityScore: Number(member.data.qualityScore) || 0,
+      wordCount: Number(member.data.wordCount) || 0
+    }));
+
+    // The newest report decides how fresh the story is
+    const publishedTimes = sources
+      .map(source => source.publishedAt ? new Date(source.publishedAt).getTime() : NaN)
+      .filter(time => !isNaN(time));
+
+    return {
+      ...representative.topic,
+      trending_data: {
+        ...representative.data,
+        fullContent: brief,
+        wordCount: brief.split(/\s+/).filter(Boolean).length,
+        publishedAt: publishedTimes.length > 0 ? new Date(Math.max(...publishedTimes)).toISOString() : representative.data.publishedAt || null,
+        sources,
+        sharedEntities: this.sharedEntities(members)
+      }
+    };
+  }
+
+  // The representative's text first, then what each other source adds; sentences already
+  // in the brief are skipped so syndicated copies don't repeat it
+  private buildBrief(ranked: ClusterInput[], config: StoryClusteringConfig): string {
+    const seen = new Set<string>();
+    const sections: string[] = [];
+    let remaining = config.maxBriefWords;
+
+    for (const member of ranked.slice(0, config.maxBriefSources)) {
+      if (remaining <= 0) break;
+
+      const fresh = member.content
+        .split(/(?<=[.!?])\s+/)
+        .filter(sentence => {
+          const key = sentence.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+          if (key.length < 20 || seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        });
+      if (fresh.length === 0) continue;
+
+      const words = fresh.join(' ').split(/\s+/).slice(0, remaining);
+      remaining -= words.length;
+      sections.push(`[${member.domain}] ${member.title}\n${words.join(' ')}`);
+    }
+
+    return sections.join('\n\n');
+  }
+
+  // Entities named by at least two of the articles, most widely shared first
+  private sharedEntities(members: ClusterInput[]): string[] {
+    const counts = new Map<string, number>();
+    members.forEach(member => member.entities.forEach(entity => counts.set(entity, (counts.get(entity) || 0) + 1)));
+    return Array.from(counts.entries())
+      .filter(([, count]) => count >= 2)
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, 8)
+      .map(([entity]) => entity);
+  }
+}
+
+export const storyClusterer = new StoryClusterer();
@@ -1,6 +1,8 @@
 import { TextToSpeechClient } from '@google-cloud/text-to-speech';
 import fs from 'fs/promises';
 import path from 'path';
+import { execCancellable, isCancellationError, type CancellationToken } from './cancellation';
+import { isDryRun, dryRunServices } from './dry-run';
 
 export interface TTSOptions {
   text: string;
@@ -8,6 +10,7 @@ export interface TTSOptions {
   voice?: string;
   speed?: number;
   pitch?: number;
+  cancellationToken?: CancellationToken;
 }
 
 export class TextToSpeechService {
@@ -66,11 +69,15 @@ export class TextToSpeechService {
 
   async generateSpeech(options: TTSOptions): Promise<string> {
     try {
-      const { text, outputPath, voice = 'en-IN-Neural2-B', speed = 0.92, pitch = -1.0 } = options;
+      const { text, outputPath, voice = 'en-IN-Neural2-B', speed = 0.92, pitch = -1.0, cancellationToken } = options;
 
       console.log(`🎤 Starting Google Cloud TTS generation for text: "${text.substring(0, 100)}..."`);
       console.log(`🎤 Text length: ${text.length} characters`);
 
+      if (isDryRun()) {
+        return await dryRunServices.synthesizeSpeech(text, outputPath, speed, cancellationToken);
+      }
+
       // Force Google Cloud TTS usage - no fallbacks
       try {
         // Test TTS client connection first
@@ -80,12 +87,13 @@ export class TextToSpeechService {
         console.log(`📝 Split into ${chunks.length} chunks for processing`);
 
         if (chunks.length === 1) {
-          return await this.generateSingleChunk(chunks[0], outputPath, voice, speed, pitch);
+          return await this.generateSingleChunk(chunks[0], outputPath, voice, speed, pitch, cancellationToken);
         } else {
-          return await this.generateAndCombineChunks(chunks, outputPath, voice, speed, pitch);
+          return await this.generateAndCombineChunks(chunks, outputPath, voice, speed, pitch, cancellationToken);
         }
 
       } catch (googleError) {
+        if (isCancellationError(googleError)) throw googleError;
         console.error('❌ Google Cloud TTS authentication failed:', googleError);
         console.error('❌ Check your google-credentials.json file and API access');
         
@@ -94,6 +102,7 @@ export class TextToSpeechService {
       }
 
     } catch (error) {
+      if (isCancellationError(error)) throw error;
       console.error('❌ Text-to-speech generation failed:', error);
       throw new Error(`TTS generation failed: ${error.message}`);
     }
@@ -101,7 +110,7 @@ export class TextToSpeechService {
 
   
 
-  private async generateSingleChunk(text: string, outputPath: string, voice: string, speed: number, pitch: number): Promise<string> {
+  private async generateSingleChunk(text: string, outputPath: string, voice: string, speed: number, pitch: number, token?: CancellationToken): Promise<string> {
     // Correct voice gender mapping for Google Cloud TTS voices
     const getVoiceGender = (voiceName: string): 'MALE' | 'FEMALE' => {
       const maleVoices = ['en-IN-Neural2-B', 'en-IN-Wavenet-B', 'en-IN-Standard-B', 'en-IN-Standard-D'];
@@ -141,7 +150,10 @@ export class TextToSpeechService {
     console.log(`🎤 Expected audio duration: ~${Math.ceil(cleanText.length / 14)} seconds (based on ~14 chars/second)`);
 
     // Perform the text-to-speech request
+    token?.throwIfCancelled();
     const [response] = await this.client.synthesizeSpeech(request);
+    // The gRPC call cannot be aborted mid-flight, so drop its result if the job was cancelled meanwhile
+    token?.throwIfCancelled();
 
     if (!response.audioContent) {
       throw new Error('No audio content received from Google TTS');
@@ -189,30 +201,37 @@ export class TextToSpeechService {
     return cleaned;
   }
 
-  private async generateAndCombineChunks(chunks: string[], outputPath: string, voice: string, speed: number, pitch: number): Promise<string> {
+  private async generateAndCombineChunks(chunks: string[], outputPath: string, voice: string, speed: number, pitch: number, token?: CancellationToken): Promise<string> {
     const outputDir = path.dirname(outputPath);
     await fs.mkdir(outputDir, { recursive: true });
 
     const chunkFiles: string[] = [];
 
     // Generate audio for each chunk
-    for (let i = 0; i < chunks.length; i++) {
-      const chunkPath = path.join(outputDir, `chunk_${i}_${Date.now()}.mp3`);
-      await this.generateSingleChunk(chunks[i], chunkPath, voice, speed, pitch);
-      chunkFiles.push(chunkPath);
+    try {
+      for (let i = 0; i < chunks.length; i++) {
+        const chunkPath = path.join(outputDir, `chunk_${i}_${Date.now()}.mp3`);
+        chunkFiles.push(chunkPath);
+        await this.generateSingleChunk(chunks[i], chunkPath, voice, speed, pitch, token);
+      }
+    } catch (error) {
+      // Don't leave partial chunks behind when a chunk fails or the job is cancelled
+      for (const chunkFile of chunkFiles) {
+        await fs.unlink(chunkFile).catch(() => {});
+      }
+      throw error;
     }
 
     // Combine chunks using FFmpeg
     if (chunkFiles.length > 1) {
+      const listPath = path.join(outputDir, `filelist_${Date.now()}.txt`);
       try {
-        const { execSync } = require('child_process');
         const fileList = chunkFiles.map(f => `file '${f}'`).join('\n');
-        const listPath = path.join(outputDir, `filelist_${Date.now()}.txt`);
 
         await fs.writeFile(listPath, fileList);
 
         const combineCommand = `ffmpeg -f concat -safe 0 -i "${listPath}" -c copy "${outputPath}" -y`;
-        execSync(combineCommand, { stdio: 'pipe' });
+        await execCancellable(combineCommand, {}, token);
 
         // Cleanup
         await fs.unlink(listPath);
@@ -223,6 +242,15 @@ export class TextToSpeechService {
         console.log(`✅ Combined audio chunks into: ${outputPath}`);
         return outputPath;
       } catch (combineError) {
+        if (isCancellationError(combineError)) {
+          await fs.unlink(listPath).catch(() => {});
+          await fs.unlink(outputPath).catch(() => {});
+          for (const chunkFile of chunkFiles) {
+            await fs.unlink(chunkFile).catch(() => {});
+          }
+          throw combineError;
+        }
+
         console.warn('Failed to combine chunks, using first chunk:', combineError.message);
         await fs.copyFile(chunkFiles[0], outputPath);
 
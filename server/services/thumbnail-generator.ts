@@ -1,10 +1,13 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import axios from 'axios';
 import { storage } from '../storage';
+import { pipelineEvents } from './event-bus';
 import type { ContentJob } from '@shared/schema';
 import path from 'path';
 import fs from 'fs';
 import { execSync } from 'child_process';
+import { execCancellable, isCancellationError, type CancellationToken } from './cancellation';
+import { categoryCatalog, GENERAL_CATEGORY, type CategoryDefinition } from './categories';
 
 export class ThumbnailGenerator {
   private gemini: GoogleGenerativeAI;
@@ -15,7 +18,7 @@ export class ThumbnailGenerator {
     console.log('ThumbnailGenerator initialized');
   }
 
-  async generateThumbnail(jobId: number): Promise<string> {
+  async generateThumbnail(jobId: number, token?: CancellationToken): Promise<string> {
     try {
       const job = await storage.getContentJobById(jobId);
       if (!job) throw new Error('Job not found');
@@ -27,7 +30,7 @@ export class ThumbnailGenerator {
 
       console.log(`🖼️ Creating professional YouTube thumbnail for: ${job.title}`);
 
-      const thumbnailPath = await this.createYouTubeThumbnail(job);
+      const thumbnailPath = await this.createYouTubeThumbnail(job, token);
 
       await storage.updateContentJob(jobId, { 
         thumbnailPath,
@@ -35,23 +38,32 @@ export class ThumbnailGenerator {
         progress: 90 
       });
 
-      await storage.createActivityLog({
-        type: 'generation',
+      await pipelineEvents.publish({
+        type: 'SystemNotice',
+        category: 'generation',
+        level: 'success',
         title: 'YouTube Thumbnail Created',
         description: `Created professional thumbnail for "${job.title}"`,
-        status: 'success',
         metadata: { jobId, thumbnailPath, videoType: job.videoType }
       });
 
       console.log('✅ YouTube-compatible thumbnail created:', thumbnailPath);
       return thumbnailPath;
     } catch (error) {
+      if (isCancellationError(error)) {
+        // Remove the partially written thumbnail
+        const partialPath = path.join(process.cwd(), 'generated', 'thumbnails', `${jobId}_youtube_thumbnail.jpg`);
+        await fs.promises.unlink(partialPath).catch(() => {});
+        throw error;
+      }
+
       console.error('Thumbnail generation error:', error);
-      await storage.createActivityLog({
-        type: 'error',
+      await pipelineEvents.publish({
+        type: 'SystemNotice',
+        category: 'generation',
+        level: 'error',
         title: 'Thumbnail Generation Failed',
         description: `Error generating thumbnail for job ${jobId}: ${error.message}`,
-        status: 'error',
         metadata: { jobId, error: error.message }
       });
 
@@ -59,7 +71,7 @@ export class ThumbnailGenerator {
     }
   }
 
-  private async createYouTubeThumbnail(job: ContentJob): Promise<string> {
+  private async createYouTubeThumbnail(job: ContentJob, token?: CancellationToken): Promise<string> {
     const thumbnailDir = path.join(process.cwd(), 'generated', 'thumbnails');
     if (!fs.existsSync(thumbnailDir)) {
       fs.mkdirSync(thumbnailDir, { recursive: true });
@@ -69,15 +81,16 @@ export class ThumbnailGenerator {
     const category = job.metadata?.category || 'general';
 
     // Create professional YouTube thumbnail using FFmpeg
-    await this.createProfessionalThumbnail(job, thumbnailPath, category);
+    await this.createProfessionalThumbnail(job, token);
 
     // Verify thumbnail is YouTube compatible
+    token?.throwIfCancelled();
     await this.validateYouTubeThumbnail(thumbnailPath);
 
     return thumbnailPath;
   }
 
-  private async createProfessionalThumbnail(job: ContentJob): Promise<string> {
+  private async createProfessionalThumbnail(job: ContentJob, token?: CancellationToken): Promise<string> {
     const outputPath = path.join(process.cwd(), 'generated', 'thumbnails', `${job.id}_youtube_thumbnail.jpg`);
 
     try {
@@ -93,10 +106,11 @@ export class ThumbnailGenerator {
       const thumbnailTitle = this.createEngagingTitle(job.title);
       const dimensions = job.videoType === 'short' ? '1080x1920' : '1280x720';
       const isVertical = job.videoType === 'short';
-      const category = job.metadata?.category || 'general';
+      const category = await categoryCatalog.resolve(job.metadata?.category);
       
       // Professional YouTube color scheme
       const colors = this.getYouTubeColors(category);
+      const [baseR, baseG, baseB] = this.hexToRgb(colors.gradient[0]);
       const titleFontSize = isVertical ? 72 : 56;
       const titleY = isVertical ? 'h*0.2' : 'h*0.3';
 
@@ -113,26 +127,24 @@ export class ThumbnailGenerator {
         const safeTitle = shortTitle.replace(/['"\\]/g, '');
         
         const gradientCommand = `ffmpeg -f lavfi ` +
-          `-i "color=c=#FF6B35:size=${dimensions}:duration=0.1" ` +
-          `-f lavfi -i "color=c=#F7931E:size=${dimensions}:duration=0.1" ` +
+          `-i "color=c=${colors.gradient[0]}:size=${dimensions}:duration=0.1" ` +
+          `-f lavfi -i "color=c=${colors.gradient[colors.gradient.length - 1]}:size=${dimensions}:duration=0.1" ` +
           `-filter_complex "` +
           `[0][1]blend=all_mode=screen:all_opacity=0.6,` +
-          `geq=r='255*0.9':g='128*0.9+64*sin(2*PI*X/W)':b='64*0.9+32*cos(2*PI*Y/H)',` +
-          `drawtext=text='${safeTitle}':fontsize=${titleFontSize}:fontcolor=white:` +
+          `geq=r='${baseR}*0.9':g='${baseG}*0.9+64*sin(2*PI*X/W)':b='${baseB}*0.9+32*cos(2*PI*Y/H)',` +
+          `drawtext=text='${safeTitle}':fontsize=${titleFontSize}:fontcolor=${colors.text}:` +
           `x=(w-text_w)/2:y=${titleY}:bordercolor=black:borderw=4:` +
           `shadowcolor=black:shadowx=3:shadowy=3" ` +
           `-frames:v 1 -q:v 2 "${outputPath}" -y`;
 
-        execSync(gradientCommand, { 
-          stdio: 'pipe',
-          timeout: 20000
-        });
+        await execCancellable(gradientCommand, { timeout: 20000 }, token);
 
         if (fs.existsSync(outputPath) && fs.statSync(outputPath).size > 1000) {
           console.log('✅ Professional gradient thumbnail created');
           return outputPath;
         }
       } catch (gradientError) {
+        token?.throwIfCancelled();
         console.log('Gradient thumbnail failed, trying solid color approach:', gradientError.message);
       }
 
@@ -144,21 +156,22 @@ export class ThumbnailGenerator {
           : thumbnailTitle;
         const safeTitle = shortTitle.replace(/['"\\]/g, '');
         
-        const solidCommand = `ffmpeg -f lavfi -i "color=#1a365d:size=${dimensions}:duration=0.1" ` +
-          `-vf "drawtext=text='${safeTitle}':fontsize=${titleFontSize}:fontcolor=#FFD700:` +
+        const solidCommand = `ffmpeg -f lavfi -i "color=${colors.bg}:size=${dimensions}:duration=0.1" ` +
+          `-vf "drawtext=text='${safeTitle}':fontsize=${titleFontSize}:fontcolor=${colors.highlight}:` +
           `x=(w-text_w)/2:y=${titleY}:bordercolor=black:borderw=3:` +
           `shadowcolor=black:shadowx=2:shadowy=2,` +
-          `drawtext=text='TRENDING NOW':fontsize=${Math.floor(titleFontSize * 0.4)}:fontcolor=#FF4444:` +
+          `drawtext=text='TRENDING NOW':fontsize=${Math.floor(titleFontSize * 0.4)}:fontcolor=${colors.accent}:` +
           `x=(w-text_w)/2:y=${isVertical ? 'h*0.8' : 'h*0.7'}:bordercolor=white:borderw=2" ` +
           `-frames:v 1 -q:v 2 "${outputPath}" -y`;
 
-        execSync(solidCommand, { stdio: 'pipe', timeout: 15000 });
+        await execCancellable(solidCommand, { timeout: 15000 }, token);
 
         if (fs.existsSync(outputPath) && fs.statSync(outputPath).size > 1000) {
           console.log('✅ Professional solid color thumbnail created');
           return outputPath;
         }
       } catch (solidError) {
+        token?.throwIfCancelled();
         console.log('Solid color thumbnail failed, using ultra-simple approach:', solidError.message);
       }
 
@@ -169,13 +182,14 @@ export class ThumbnailGenerator {
           `x=(w-text_w)/2:y=(h-text_h)/2:bordercolor=black:borderw=2" ` +
           `-frames:v 1 "${outputPath}" -y`;
 
-        execSync(simpleCommand, { stdio: 'pipe', timeout: 10000 });
+        await execCancellable(simpleCommand, { timeout: 10000 }, token);
 
         if (fs.existsSync(outputPath)) {
           console.log('✅ Simple thumbnail created');
           return outputPath;
         }
       } catch (simpleError) {
+        token?.throwIfCancelled();
         console.log('All FFmpeg methods failed, creating programmatic thumbnail:', simpleError.message);
       }
 
@@ -184,11 +198,12 @@ export class ThumbnailGenerator {
       return outputPath;
 
     } catch (error) {
+      if (isCancellationError(error)) throw error;
       console.error('All thumbnail creation methods failed:', error.message);
       
       // Create emergency fallback
       const dimensions = job.videoType === 'short' ? '1080x1920' : '1280x720';
-      const colors = this.getCategoryColors(job.metadata?.category || 'general');
+      const colors = this.getCategoryColors(await categoryCatalog.resolve(job.metadata?.category));
       await this.createBasicThumbnail(outputPath, job.title, dimensions, colors);
       
       return outputPath;
@@ -200,7 +215,7 @@ export class ThumbnailGenerator {
     title: string,
     outputPath: string,
     dimensions: string,
-    category: string,
+    category: CategoryDefinition,
     isVertical: boolean
   ): string {
     const [width, height] = dimensions.split('x').map(Number);
@@ -222,13 +237,13 @@ export class ThumbnailGenerator {
       ` -frames:v 1 -q:v 2 "${outputPath}" -y`;
   }
 
-  private async getBackgroundImage(category: string): Promise<string> {
+  private async getBackgroundImage(category: CategoryDefinition): Promise<string> {
     const backgroundDir = path.join(process.cwd(), 'generated', 'backgrounds');
     if (!fs.existsSync(backgroundDir)) {
       fs.mkdirSync(backgroundDir, { recursive: true });
     }
 
-    const backgroundPath = path.join(backgroundDir, `${category}_bg.jpg`);
+    const backgroundPath = path.join(backgroundDir, `${category.slug}_bg.jpg`);
 
     // Check if background already exists and is valid
     if (fs.existsSync(backgroundPath)) {
@@ -254,7 +269,7 @@ export class ThumbnailGenerator {
 
     for (let i = 0; i < imageSources.length; i++) {
       try {
-        console.log(`Trying image source ${i + 1} for ${category}...`);
+        console.log(`Trying image source ${i + 1} for ${category.slug}...`);
         const response = await axios.get(imageSources[i], { 
           responseType: 'arraybuffer',
           timeout: 15000,
@@ -271,7 +286,7 @@ export class ThumbnailGenerator {
           // Verify the downloaded file is valid
           try {
             execSync(`ffmpeg -i "${backgroundPath}" -frames:v 1 -f null - 2>/dev/null`, { stdio: 'pipe' });
-            console.log(`✅ Downloaded and verified background for ${category} from source ${i + 1}`);
+            console.log(`✅ Downloaded and verified background for ${category.slug} from source ${i + 1}`);
             return backgroundPath;
           } catch (verifyError) {
             console.log(`Downloaded image from source ${i + 1} is corrupted, trying next...`);
@@ -285,21 +300,13 @@ export class ThumbnailGenerator {
     }
 
     // All image sources failed, create professional gradient background
-    console.log(`Creating professional gradient background for ${category}...`);
+    console.log(`Creating professional gradient background for ${category.slug}...`);
     return await this.createProfessionalGradientBackground(category, backgroundPath);
   }
 
-  private async createProfessionalGradientBackground(category: string, outputPath: string): Promise<string> {
+  private async createProfessionalGradientBackground(category: CategoryDefinition, outputPath: string): Promise<string> {
     // Category-specific professional colors
-    const colorSchemes = {
-      'technology': '#1a365d',
-      'science': '#2d3748', 
-      'business': '#1a202c',
-      'news': '#2c5282',
-      'general': '#2d3748'
-    };
-
-    const baseColor = colorSchemes[category] || colorSchemes['general'];
+    const baseColor = category.colors.background[0];
 
     try {
       // Create a professional gradient background
@@ -311,7 +318,7 @@ export class ThumbnailGenerator {
       execSync(command, { stdio: 'pipe', timeout: 10000 });
       
       if (fs.existsSync(outputPath) && fs.statSync(outputPath).size > 1000) {
-        console.log(`✅ Created professional gradient background for ${category}`);
+        console.log(`✅ Created professional gradient background for ${category.slug}`);
         return outputPath;
       }
     } catch (error) {
@@ -322,7 +329,7 @@ export class ThumbnailGenerator {
     return await this.createSolidBackground(category, outputPath);
   }
 
-  private async createSolidBackground(category: string, outputPath: string): Promise<string> {
+  private async createSolidBackground(category: CategoryDefinition, outputPath: string): Promise<string> {
     const colors = this.getCategoryColors(category);
     const color = colors.bg || '#1a365d';
 
@@ -362,7 +369,7 @@ export class ThumbnailGenerator {
     return outputPath;
   }
 
-  private async createFallbackThumbnail(outputPath: string, title: string, dimensions: string, category: string): Promise<void> {
+  private async createFallbackThumbnail(outputPath: string, title: string, dimensions: string, category: CategoryDefinition): Promise<void> {
     const colors = this.getCategoryColors(category);
 
     try {
@@ -454,81 +461,28 @@ export class ThumbnailGenerator {
     return title.toUpperCase();
   }
 
-  private getCategoryKeywords(category: string): string {
-    const keywords = {
-      technology: 'technology innovation digital modern',
-      sports: 'sports action dynamic stadium',
-      business: 'business corporate professional success',
-      politics: 'government politics news serious',
-      health: 'healthcare medical wellness clean',
-      environment: 'nature environment green sustainability',
-      science: 'science research laboratory discovery'
-    };
-
-    return keywords[category] || 'professional modern background';
+  private getCategoryKeywords(category: CategoryDefinition): string {
+    const keywords = category.backgroundKeywords.length > 0 ? category.backgroundKeywords : GENERAL_CATEGORY.backgroundKeywords;
+    return keywords.join(' ');
   }
 
-  private getYouTubeColors(category: string): any {
-    // Professional YouTube thumbnail color schemes
-    const colorSchemes = {
-      technology: { 
-        bg: 'linear_gradient(45deg,#FF6B35,#F7931E)', 
-        text: '#FFFFFF', 
-        accent: '#00D4FF',
-        shadow: '#000000',
-        highlight: '#FFD700'
-      },
-      sports: { 
-        bg: 'linear_gradient(45deg,#FF416C,#FF4B2B)', 
-        text: '#FFFFFF', 
-        accent: '#00FF87',
-        shadow: '#000000',
-        highlight: '#FFD700'
-      },
-      business: { 
-        bg: 'linear_gradient(45deg,#4776E6,#8E54E9)', 
-        text: '#FFFFFF', 
-        accent: '#00FF87',
-        shadow: '#000000',
-        highlight: '#FFD700'
-      },
-      politics: { 
-        bg: 'linear_gradient(45deg,#FC466B,#3F5EFB)', 
-        text: '#FFFFFF', 
-        accent: '#FFD700',
-        shadow: '#000000',
-        highlight: '#00FF87'
-      },
-      health: { 
-        bg: 'linear_gradient(45deg,#FDBB2D,#22C1C3)', 
-        text: '#FFFFFF', 
-        accent: '#FF6B6B',
-        shadow: '#000000',
-        highlight: '#4ECDC4'
-      },
-      environment: { 
-        bg: 'linear_gradient(45deg,#56AB2F,#A8E6CF)', 
-        text: '#FFFFFF', 
-        accent: '#FFD93D',
-        shadow: '#000000',
-        highlight: '#6BCF7F'
-      },
-      science: { 
-        bg: 'linear_gradient(45deg,#667eea,#764ba2)', 
-        text: '#FFFFFF', 
-        accent: '#FF6B9D',
-        shadow: '#000000',
-        highlight: '#C5A3FF'
-      }
+  // Professional YouTube thumbnail color scheme from the category
+  private getYouTubeColors(category: CategoryDefinition): any {
+    const { background, text, accent, highlight, shadow } = category.colors;
+    return {
+      bg: background[0],
+      gradient: background,
+      text,
+      accent,
+      shadow,
+      highlight,
+      border: shadow
     };
+  }
 
-    return colorSchemes[category] || { 
-      bg: 'linear_gradient(45deg,#FF6B35,#F7931E)', 
-      text: '#FFFFFF', 
-      accent: '#00D4FF',
-      shadow: '#000000',
-      highlight: '#FFD700'
-    };
+  private hexToRgb(color: string): [number, number, number] {
+    const hex = color.replace('#', '');
+    return [parseInt(hex.substr(0, 2), 16), parseInt(hex.substr(2, 2), 16), parseInt(hex.substr(4, 2), 16)];
   }
 
   private createEngagingTitle(originalTitle: string): string {
@@ -560,13 +514,13 @@ export class ThumbnailGenerator {
     return `${randomPrefix} ${title}`;
   }
 
-  private async getProfessionalBackground(category: string): Promise<string> {
+  private async getProfessionalBackground(category: CategoryDefinition): Promise<string> {
     const backgroundDir = path.join(process.cwd(), 'generated', 'backgrounds');
     if (!fs.existsSync(backgroundDir)) {
       fs.mkdirSync(backgroundDir, { recursive: true });
     }
 
-    const backgroundPath = path.join(backgroundDir, `pro_${category}_bg.jpg`);
+    const backgroundPath = path.join(backgroundDir, `pro_${category.slug}_bg.jpg`);
 
     // Create professional gradient backgrounds similar to top YouTubers
     try {
@@ -587,7 +541,7 @@ export class ThumbnailGenerator {
     }
   }
 
-  private getCategoryColors(category: string): any {
+  private getCategoryColors(category: CategoryDefinition): any {
     // Fallback to YouTube colors
     return this.getYouTubeColors(category);
   }
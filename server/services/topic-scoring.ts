@@ -0,0 +1,360 @@
+import { z } from 'zod';
+import { createHash } from 'crypto';
+import { storage } from '../storage';
+import type { CategoryDefinition } from './categories';
+import { trendingData, type InsertTrendingTopic, type StorySource, type TopicScore, type TopicSignal, type TopicSignalScore, type TrendingData } from '@shared/schema';
+
+export const TOPIC_SCORING_SETTING_KEY = 'topic_scoring';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Keyword history older than this is never used as a baseline
+const KEYWORD_HISTORY_DAYS = 30;
+
+export const topicScoringConfigSchema = z.object({
+  // Relative weights; they are normalized, so only their proportions matter
+  weights: z.object({
+    coverage: z.number().min(0).default(0.25), // independent sources covering the same story
+    credibility: z.number().min(0).default(0.2), // reputation of the source
+    recency: z.number().min(0).default(0.15), // time since publication
+    quality: z.number().min(0).default(0.15), // extracted article quality
+    momentum: z.number().min(0).default(0.15), // title keywords mentioned more than on previous days
+    channelFit: z.number().min(0).default(0.1) // matches the category's keywords
+  }).default({}).refine(weights => Object.values(weights).some(weight => weight > 0), 'At least one weight must be above 0'),
+  thresholds: z.object({
+    high: z.number().min(0).max(100).default(60),
+    medium: z.number().min(0).max(100).default(35)
+  }).default({}).refine(thresholds => thresholds.high >= thresholds.medium, 'high must not be below medium'),
+  recencyHalfLifeHours: z.number().positive().default(24),
+  momentumBaselineDays: z.number().int().min(1).max(KEYWORD_HISTORY_DAYS).default(7),
+  storySimilarity: z.number().min(0.1).max(1).default(0.5) // title overlap at which two articles are the same story
+});
+
+export type TopicScoringConfig = z.infer<typeof topicScoringConfigSchema>;
+
+export const DEFAULT_TOPIC_SCORING: TopicScoringConfig = topicScoringConfigSchema.parse({});
+
+// Sites the trending analyzer targets, roughly ordered by editorial reliability
+export const SOURCE_REPUTATION: Record<string, number> = {
+  'nasa.gov': 3,
+  'esa.int': 3,
+  'nature.com': 3,
+  'sciencenews.org': 2,
+  'newscientist.com': 2,
+  'nationalgeographic.com': 2,
+  'smithsonianmag.com': 2,
+  'astronomy.com': 2,
+  'phys.org': 1.5,
+  'sciencedaily.com': 1.5,
+  'space.com': 1.5,
+  'spacenews.com': 1.5,
+  'universetoday.com': 1
+};
+
+const MAX_REPUTATION = 3;
+// A category's own target sites are trusted even when they are not in the table
+const TARGET_SITE_REPUTATION = 2;
+// Curated local fixtures; there is no domain to judge
+const FIXTURE_REPUTATION = 1.5;
+
+const STOP_WORDS = new Set(['this', 'that', 'with', 'from', 'have', 'will', 'what', 'when', 'where', 'which', 'about', 'after', 'their', 'there', 'could', 'would', 'into', 'more', 'than', 'just', 'been', 'were', 'they', 'your']);
+
+export function sourceReputation(domain: string): number {
+  const host = domain.replace(/^www\./, '');
+  return Object.entries(SOURCE_REPUTATION).find(([site]) => host === site || host.endsWith(`.${site}`))?.[1] ?? 0;
+}
+
+export function titleWords(title: string): Set<string> {
+  return new Set(title.toLowerCase().split(/\W+/).filter(word => word.length > 3));
+}
+
+// Jaccard overlap of two word sets
+export function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(word => { if (b.has(word)) shared++; });
+  return shared / (a.size + b.size - shared);
+}
+
+function keyTerms(title: string): string[] {
+  return Array.from(titleWords(title)).filter(word => !STOP_WORDS.has(word) && !/^\d+$/.test(word));
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function dayKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+export async function loadTopicScoring(): Promise<TopicScoringConfig> {
+  try {
+    const setting = await storage.getAutomationSetting(TOPIC_SCORING_SETTING_KEY);
+    if (!setting) {
+      return DEFAULT_TOPIC_SCORING;
+    }
+    return topicScoringConfigSchema.parse(JSON.parse(setting.value));
+  } catch (error) {
+    console.warn('⚠️ Invalid topic scoring setting, using defaults:', error instanceof Error ? error.message : error);
+    return DEFAULT_TOPIC_SCORING;
+  }
+}
+
+interface ScoringInput {
+  topic: InsertTrendingTopic;
+  data: TrendingData;
+  title: string; // without the title prefix added for YouTube
+  words: Set<string>;
+  terms: string[];
+  source: string; // domain, or the adapter for sources without one
+  sources: string[]; // every source of a clustered story, otherwise just source
+}
+
+interface KeywordBaseline {
+  today: Map<string, number>;
+  average: Map<string, number>; // mentions per day over the baseline window
+  days: number; // days with any history; 0 means momentum can't be judged yet
+}
+
+// Deterministic score from observable signals. Each signal is a 0-1 value with a short
+// explanation; the weighted sum (0-100) decides priority and ranking.
+export class TopicScorer {
+  async scoreTopics(topics: InsertTrendingTopic[], categories: Map<string, CategoryDefinition>, now: Date = new Date()): Promise<InsertTrendingTopic[]> {
+    const config = await loadTopicScoring();
+    const inputs = topics.map(topic => this.toInput(topic));
+    const stories = this.groupStories(inputs, config.storySimilarity);
+    const baseline = await this.loadKeywordBaseline(inputs, config, now);
+    const weights = this.normalizedWeights(config);
+
+    return inputs.map((input, index) => {
+      const category = categories.get(input.topic.category);
+      const story = stories[index];
+      const raw: Record<TopicSignal, { value: number; detail: string }> = {
+        coverage: this.coverage(story.map(member => inputs[member])),
+        credibility: this.credibility(input, category),
+        recency: this.recency(input, config, now),
+        quality: this.quality(input),
+        momentum: this.momentum(input, baseline),
+        channelFit: this.channelFit(input, category)
+      };
+
+      const signals = {} as Record<TopicSignal, TopicSignalScore>;
+      let total = 0;
+      (Object.keys(raw) as TopicSignal[]).forEach(signal => {
+        const value = Math.round(clamp(raw[signal].value) * 1000) / 1000;
+        const points = Math.round(value * weights[signal] * 1000) / 10;
+        signals[signal] = { value, weight: Math.round(weights[signal] * 1000) / 1000, points, detail: raw[signal].detail };
+        total += points;
+      });
+
+      total = Math.round(total * 10) / 10;
+      const priority = total >= config.thresholds.high ? 'high' : total >= config.thresholds.medium ? 'medium' : 'low';
+      const score: TopicScore = {
+        total,
+        priority,
+        signals,
+        storyId: this.storyId(story.map(member => inputs[member])),
+        scoredAt: now.toISOString()
+      };
+
+      // Kept for the strategies and plan rules that filter on it: the category's typical volume
+      // scaled by the score, so it orders topics exactly like the score within a category
+      const baseVolume = category?.baseSearchVolume ?? 100000;
+      return {
+        ...input.topic,
+        priority,
+        searchVolume: Math.round(baseVolume * (0.5 + total / 100)),
+        trending_data: {
+          ...input.data,
+          score,
+          searchVolumeSource: 'score_estimate',
+          realSearchVolume: false
+        }
+      };
+    });
+  }
+
+  // Stores today's keyword counts; the next days compare against them
+  async recordKeywords(topics: InsertTrendingTopic[], now: Date = new Date()): Promise<void> {
+    try {
+      const counts = this.countTerms(topics.map(topic => this.toInput(topic)));
+      await storage.setKeywordCounts(dayKey(now), counts);
+      await storage.deleteKeywordTrendsBefore(dayKey(new Date(now.getTime() - KEYWORD_HISTORY_DAYS * DAY_MS)));
+    } catch (error) {
+      console.error('❌ Failed to record keyword trends:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  private toInput(topic: InsertTrendingTopic): ScoringInput {
+    const data = trendingData(topic);
+    const title = data.originalTitle || topic.title;
+    const source = String(data.sourceDomain || topic.source).replace(/^www\./, '');
+    return {
+      topic,
+      data,
+      title,
+      words: titleWords(title),
+      terms: keyTerms(title),
+      source,
+      sources: Array.isArray(data.sources) && data.sources.length > 0
+        ? (data.sources as StorySource[]).map(entry => entry.domain)
+        : [source]
+    };
+  }
+
+  private normalizedWeights(config: TopicScoringConfig): Record<TopicSignal, number> {
+    const sum = Object.values(config.weights).reduce((total, weight) => total + weight, 0);
+    const weights = {} as Record<TopicSignal, number>;
+    (Object.keys(config.weights) as TopicSignal[]).forEach(signal => {
+      weights[signal] = config.weights[signal] / sum;
+    });
+    return weights;
+  }
+
+  // Single-link grouping on title overlap; returns the members of each topic's story
+  private groupStories(inputs: ScoringInput[], threshold: number): number[][] {
+    const storyOf = inputs.map((_, index) => index);
+    const find = (index: number): number => storyOf[index] === index ? index : (storyOf[index] = find(storyOf[index]));
+
+    for (let a = 0; a < inputs.length; a++) {
+      for (let b = a + 1; b < inputs.length; b++) {
+        if (similarity(inputs[a].words, inputs[b].words) >= threshold) {
+          storyOf[find(b)] = find(a);
+        }
+      }
+    }
+
+    const members = new Map<number, number[]>();
+    inputs.forEach((_, index) => {
+      const root = find(index);
+      members.set(root, [...(members.get(root) || []), index]);
+    });
+    return inputs.map((_, index) => members.get(find(index))!);
+  }
+
+  // Stable across runs as long as the same articles are in the story
+  private storyId(story: ScoringInput[]): string {
+    const urls = story.flatMap(input => Array.isArray(input.data.sources)
+      ? (input.data.sources as StorySource[]).map(entry => entry.url || entry.title)
+      : [String(input.data.sourceUrl || input.title)]).sort();
+    return createHash('md5').update(urls.join('\n')).digest('hex').substring(0, 12);
+  }
+
+  // One source is no corroboration; four or more independent ones is full marks
+  private coverage(story: ScoringInput[]): { value: number; detail: string } {
+    const sources = Array.from(new Set(story.flatMap(input => input.sources)));
+    return {
+      value: (sources.length - 1) / 3,
+      detail: sources.length === 1
+        ? `only ${sources[0]} covers this story`
+        : `${sources.length} sources cover this story: ${sources.slice(0, 5).join(', ')}${sources.length > 5 ? ', …' : ''}`
+    };
+  }
+
+  private credibility(input: ScoringInput, category?: CategoryDefinition): { value: number; detail: string } {
+    if (input.topic.source === 'fixture') {
+      return { value: FIXTURE_REPUTATION / MAX_REPUTATION, detail: 'curated fixture' };
+    }
+
+    const known = sourceReputation(input.source);
+    const targeted = !!category?.targetSites.some(site => input.source === site || input.source.endsWith(`.${site}`));
+    const reputation = Math.max(known, targeted ? TARGET_SITE_REPUTATION : 0);
+    return {
+      value: reputation / MAX_REPUTATION,
+      detail: reputation > 0
+        ? `${input.source}: reputation ${reputation}/${MAX_REPUTATION}${targeted && known < TARGET_SITE_REPUTATION ? ' (category target site)' : ''}`
+        : `${input.source}: unrated source`
+    };
+  }
+
+  // Halves every recencyHalfLifeHours; unknown publish times count as one half-life old
+  private recency(input: ScoringInput, config: TopicScoringConfig, now: Date): { value: number; detail: string } {
+    const publishedAt = input.data.publishedAt ? new Date(input.data.publishedAt) : null;
+    if (!publishedAt || isNaN(publishedAt.getTime())) {
+      return { value: 0.5, detail: 'publish time unknown' };
+    }
+    const hours = Math.max(0, (now.getTime() - publishedAt.getTime()) / (60 * 60 * 1000));
+    return {
+      value: Math.pow(0.5, hours / config.recencyHalfLifeHours),
+      detail: `published ${Math.round(hours)}h ago`
+    };
+  }
+
+  private quality(input: ScoringInput): { value: number; detail: string } {
+    const qualityScore = Number(input.data.qualityScore) || 0;
+    const wordCount = Number(input.data.wordCount) || 0;
+    return {
+      value: qualityScore / 10,
+      detail: `quality ${qualityScore}/10, ${wordCount} words`
+    };
+  }
+
+  // Today's mentions of the title's keywords against their daily average; four times the usual
+  // mentions or more is full marks. Uses the three strongest keywords.
+  private momentum(input: ScoringInput, baseline: KeywordBaseline): { value: number; detail: string } {
+    if (baseline.days === 0) {
+      return { value: 0.5, detail: 'no keyword history yet' };
+    }
+    if (input.terms.length === 0) {
+      return { value: 0, detail: 'no keywords in the title' };
+    }
+
+    const ranked = input.terms
+      .map(term => {
+        const today = baseline.today.get(term) || 0;
+        const average = baseline.average.get(term) || 0;
+        return { term, today, average, value: clamp(((today + 1) / (average + 1) - 1) / 3) };
+      })
+      .sort((a, b) => b.value - a.value || a.term.localeCompare(b.term))
+      .slice(0, 3);
+
+    return {
+      value: ranked.reduce((sum, entry) => sum + entry.value, 0) / ranked.length,
+      detail: ranked.map(entry => `${entry.term} ${entry.today} today vs ${entry.average.toFixed(1)}/day`).join(', ')
+    };
+  }
+
+  // Three distinct category keywords in the article is a full match
+  private channelFit(input: ScoringInput, category?: CategoryDefinition): { value: number; detail: string } {
+    if (!category) {
+      return { value: 0, detail: `unknown category ${input.topic.category}` };
+    }
+    const text = `${input.title} ${input.data.fullContent || input.topic.description || ''}`.toLowerCase();
+    const keywords = Array.from(new Set([...category.keywords, ...category.boostKeywords].map(keyword => keyword.toLowerCase())));
+    const matched = keywords.filter(keyword => text.includes(keyword));
+    return {
+      value: matched.length / Math.min(3, Math.max(1, keywords.length)),
+      detail: matched.length > 0 ? `matches ${category.name} keywords: ${matched.slice(0, 6).join(', ')}` : `no ${category.name} keywords`
+    };
+  }
+
+  // Articles mentioning each keyword in the current batch
+  private countTerms(inputs: ScoringInput[]): Map<string, number> {
+    const counts = new Map<string, number>();
+    inputs.forEach(input => {
+      input.terms.forEach(term => counts.set(term, (counts.get(term) || 0) + 1));
+    });
+    return counts;
+  }
+
+  private async loadKeywordBaseline(inputs: ScoringInput[], config: TopicScoringConfig, now: Date): Promise<KeywordBaseline> {
+    const today = this.countTerms(inputs);
+    try {
+      const from = dayKey(new Date(now.getTime() - config.momentumBaselineDays * DAY_MS));
+      const rows = await storage.getKeywordTrends(from, dayKey(now));
+      const days = new Set(rows.map(row => row.date)).size;
+      const totals = new Map<string, number>();
+      rows.forEach(row => totals.set(row.keyword, (totals.get(row.keyword) || 0) + row.count));
+
+      // Averaged over the days that had a run, so a gap in the schedule doesn't read as a spike
+      const average = new Map<string, number>();
+      totals.forEach((total, keyword) => average.set(keyword, total / Math.max(1, days)));
+      return { today, average, days };
+    } catch (error) {
+      console.warn('⚠️ Could not load keyword history, momentum is neutral:', error instanceof Error ? error.message : error);
+      return { today, average: new Map(), days: 0 };
+    }
+  }
+}
+
+export const topicScorer = new TopicScorer();
@@ -1,22 +1,21 @@
-
 import { google } from 'googleapis';
 import { storage } from '../storage';
-import type { InsertTrendingTopic } from '@shared/schema';
+import { pipelineEvents } from './event-bus';
+import { isDryRun, dryRunServices } from './dry-run';
+import { loadTrendingSources, createTrendingSources, type TrendingSource, type SourceArticle } from './trending-sources';
+import { categoryCatalog } from './categories';
+import { topicScorer } from './topic-scoring';
+import { nearDuplicateDetector } from './near-duplicates';
+import { storyClusterer, storyOutlets } from './story-clustering';
+import { trendingData, type InsertTrendingTopic, type ContentCategory } from '@shared/schema';
 import * as cheerio from 'cheerio';
 import fetch from 'node-fetch';
 
 export class TrendingAnalyzer {
   private youtube: any;
-  private customSearch: any;
 
   constructor() {
     const youtubeKey = process.env.YOUTUBE_API_KEY;
-    const customSearchKey = process.env.GOOGLE_CUSTOM_SEARCH_API_KEY;
-    const customSearchEngineId = process.env.GOOGLE_CUSTOM_SEARCH_ENGINE_ID;
-
-    if (!customSearchKey || !customSearchEngineId) {
-      throw new Error('GOOGLE_CUSTOM_SEARCH_API_KEY and GOOGLE_CUSTOM_SEARCH_ENGINE_ID are required for trending analysis');
-    }
 
     // Initialize YouTube Data API
     if (youtubeKey) {
@@ -27,15 +26,6 @@ export class TrendingAnalyzer {
       console.log('✅ YouTube Data API initialized');
     }
 
-    // Initialize Custom Search API
-    if (customSearchKey && customSearchEngineId) {
-      this.customSearch = google.customsearch({
-        version: 'v1',
-        auth: customSearchKey
-      });
-      console.log('✅ Google Custom Search API initialized');
-    }
-
     console.log('🚀 SPACE & SCIENCE TrendingAnalyzer initialized - Targeting space, astronomy, and science content only');
   }
 
@@ -44,63 +34,91 @@ export class TrendingAnalyzer {
       const currentDate = new Date();
       console.log(`🔥 SPACE & SCIENCE TRENDING ANALYSIS: Scanning for space, astronomy, and science content`);
 
+      // Sources are built per run so config and env changes apply without a restart
+      const sourcesConfig = await loadTrendingSources();
+      const sources = createTrendingSources(sourcesConfig);
+      const activeSources = sources.filter(source => source.isConfigured());
+      sources.filter(source => !source.isConfigured()).forEach(source => {
+        console.log(`⏭️ Trending source ${source.id} not configured: ${source.describe()}`);
+      });
+
+      if (activeSources.length === 0 && !isDryRun()) {
+        console.warn('⚠️ No trending sources are configured - skipping analysis');
+        await pipelineEvents.publish({
+          type: 'SystemNotice',
+          category: 'trending',
+          level: 'warning',
+          title: 'No Trending Sources Configured',
+          description: 'Set the Google Custom Search keys or add feeds, sitemaps or fixtures in the trending sources settings',
+          metadata: { sources: sources.map(source => ({ id: source.id, status: source.describe() })) }
+        });
+        return;
+      }
+
+      // Checked before the cleanup so a misconfigured niche doesn't wipe the current topics
+      const categories = await categoryCatalog.listActive();
+      if (categories.length === 0) {
+        console.warn('⚠️ No active content categories - skipping analysis');
+        await pipelineEvents.publish({
+          type: 'SystemNotice',
+          category: 'trending',
+          level: 'warning',
+          title: 'No Active Content Categories',
+          description: 'Add or activate a category through /api/categories to analyze trending topics',
+          metadata: {}
+        });
+        return;
+      }
+
       // Step 1: Clean up old topics
       await this.cleanupOldTopics();
 
-      // Step 2: Get trending content from EACH SPACE & SCIENCE CATEGORY
-      const categoryQueries = [
-        { query: 'space news NASA SpaceX Mars moon', category: 'space_news' },
-        { query: 'space facts astronomy solar system planets', category: 'space_facts' },
-        { query: 'space astronomy telescope exoplanets cosmic', category: 'space_astronomy' },
-        { query: 'earth science geology climate atmosphere', category: 'earth_space_science' },
-        { query: 'science physics chemistry biology discovery', category: 'general_science_facts' },
-        { query: 'environment nature universe cosmic ecology', category: 'nature_environment_cosmic' }
-      ];
-
+      // Step 2: Get trending content from each active category
       const categoryResults = await Promise.all(
-        categoryQueries.map(({ query, category }) => 
-          this.getSpaceAndScienceContent(query, category)
+        categories.map(category =>
+          this.getSpaceAndScienceContent(activeSources, category, sourcesConfig.maxArticlesPerSource)
         )
       );
+      const collected = categoryResults.flat();
 
-      const [
-        spaceNews,
-        spaceFacts,
-        spaceAstronomy,
-        earthSpaceScience,
-        generalScienceFacts,
-        natureEnvironmentCosmic
-      ] = categoryResults;
-
-      const allTopics = [
-        ...spaceNews,
-        ...spaceFacts,
-        ...spaceAstronomy,
-        ...earthSpaceScience,
-        ...generalScienceFacts,
-        ...natureEnvironmentCosmic
-      ];
+      console.log(`📊 SPACE & SCIENCE RESULTS: Found ${collected.length} space and science topics`);
 
-      console.log(`📊 SPACE & SCIENCE RESULTS: Found ${allTopics.length} space and science topics`);
+      // Articles about one event become one topic listing every source
+      const stories = await storyClusterer.cluster(collected);
 
-      // Step 3: Enhanced filtering for YouTube space/science content
-      const spaceReadyTopics = await this.filterForSpaceAndScienceContent(allTopics);
-      const finalTopics = this.prioritizeByEngagement(spaceReadyTopics);
+      // Scored as one batch - coverage counts the other sources reporting the same story
+      const allTopics = await topicScorer.scoreTopics(stories, new Map(categories.map(category => [category.slug, category])));
+      await topicScorer.recordKeywords(stories);
+
+      // Step 3: Merge the same story from several outlets, drop stories already covered
+      const deduplicated = await nearDuplicateDetector.dedupe(allTopics);
+      const finalTopics = this.prioritizeByEngagement(deduplicated.topics);
 
       // Step 4: Store trending topics
+      const storedIds = new Map<InsertTrendingTopic, number>();
       for (const topic of finalTopics) {
-        await storage.createTrendingTopic(topic);
+        const stored = await storage.createTrendingTopic(topic);
+        storedIds.set(topic, stored.id);
       }
+      await nearDuplicateDetector.record(deduplicated, storedIds);
 
-      await storage.createActivityLog({
-        type: 'trending',
-        title: 'Space & Science Trending Analysis Complete',
-        description: `Found ${finalTopics.length} high-quality space and science topics`,
-        status: 'success',
-        metadata: { 
-          count: finalTopics.length,
+      await pipelineEvents.publish({
+        type: 'TopicsDiscovered',
+        count: finalTopics.length,
+        categories: Array.from(new Set(finalTopics.map(topic => topic.category))),
+        metadata: {
           date: currentDate.toISOString().split('T')[0],
-          sources: 'space_science_only',
+          sources: activeSources.map(source => source.id),
+          topicsBySource: finalTopics.reduce<Record<string, number>>((counts, topic) => {
+            counts[topic.source] = (counts[topic.source] || 0) + 1;
+            return counts;
+          }, {}),
+          articles: collected.length,
+          multiSourceStories: stories.filter(topic => storyOutlets(trendingData(topic).sources || []).length > 1).length,
+          mergedDuplicates: deduplicated.decisions.filter(decision => decision.status === 'merged').length,
+          suppressedDuplicates: deduplicated.decisions
+            .filter(decision => decision.status === 'suppressed')
+            .map(decision => ({ title: decision.fingerprint.title, matched: decision.match?.ref, similarity: decision.match?.similarity })),
           contentQuality: 'space_optimized'
         }
       });
@@ -108,226 +126,173 @@ export class TrendingAnalyzer {
       console.log(`✅ SPACE & SCIENCE ANALYSIS COMPLETE: ${finalTopics.length} space and science topics stored`);
     } catch (error) {
       console.error('❌ Space & science trending analysis failed:', error);
-      await storage.createActivityLog({
-        type: 'error',
+      await pipelineEvents.publish({
+        type: 'SystemNotice',
+        category: 'trending',
+        level: 'error',
         title: 'Space & Science Trending Analysis Failed',
         description: `Error: ${error.message}`,
-        status: 'error',
         metadata: { error: error.message }
       });
     }
   }
 
-  private async getSpaceAndScienceContent(query: string, category: string): Promise<InsertTrendingTopic[]> {
-    try {
-      console.log(`🔍 SCANNING ${category.toUpperCase()} CONTENT: ${query}`);
-
-      const now = new Date();
-      const topics: InsertTrendingTopic[] = [];
-      let totalProcessed = 0;
-      let validArticles = 0;
-
-      // Enhanced search strategies to get direct article URLs
-      const searchStrategies = [
-        { 
-          query: `"${query}" article OR news OR story OR report filetype:html -category -tag -index`, 
-          num: 10, 
-          description: 'Direct news articles' 
-        },
-        { 
-          query: `"${query}" discovery OR breakthrough OR research OR study filetype:html`, 
-          num: 10, 
-          description: 'Research articles' 
-        },
-        { 
-          query: `${query} site:astrobiology.com OR site:space.com OR site:sciencenews.org OR site:phys.org`, 
-          num: 10, 
-          description: 'Trusted sources' 
-        },
-        { 
-          query: `${query} "2025" OR "June 2025" OR "recent" article news -homepage -category`, 
-          num: 10, 
-          description: 'Recent articles' 
-        }
-      ];
-
-      for (const strategy of searchStrategies) {
-        if (validArticles >= 5) break; // Get at least 5 per category
-
-        console.log(`\n🔍 ${strategy.description}: ${strategy.query}`);
-
-        try {
-          const response = await this.customSearch.cse.list({
-            cx: process.env.GOOGLE_CUSTOM_SEARCH_ENGINE_ID,
-            q: strategy.query,
-            num: strategy.num,
-            dateRestrict: 'd1',
-            lr: 'lang_en',
-            safe: 'medium'
-          });
-
-          if (response.data.items && response.data.items.length > 0) {
-            console.log(`📊 Found ${response.data.items.length} potential articles`);
-
-            for (const item of response.data.items) {
-              if (validArticles >= 5) break;
-              
-              totalProcessed++;
-              let itemUrl = item.link || '';
-              console.log(`\n🔍 PROCESSING ${totalProcessed}: ${item.title?.substring(0, 60)}...`);
-              console.log(`📎 Original URL: ${itemUrl}`);
-
-              // Try to extract better URL from pagemap if available
-              const betterUrl = this.extractBetterArticleUrl(item, itemUrl);
-              if (betterUrl !== itemUrl) {
-                console.log(`🔧 Found better URL: ${betterUrl}`);
-                itemUrl = betterUrl;
-              }
+  private async getSpaceAndScienceContent(sources: TrendingSource[], category: ContentCategory, limit: number): Promise<InsertTrendingTopic[]> {
+    if (isDryRun()) {
+      console.log(`🧪 [DRY RUN] Using fixture articles for ${category.slug}`);
+      return dryRunServices.getFixtureArticles(category.slug);
+    }
 
-              // Skip if not a valid article URL
-              if (!this.isValidArticleUrl(itemUrl)) {
-                console.log(`❌ Invalid article URL (homepage/category page)`);
-                continue;
-              }
+    console.log(`🔍 SCANNING ${category.slug.toUpperCase()} CONTENT: ${category.searchQueries.join(' | ')}`);
+    const topics: InsertTrendingTopic[] = [];
+
+    // Sources run one after another per category; a failing source only loses its own articles
+    for (const source of sources) {
+      try {
+        const found = await this.collectFromSource(source, category, limit);
+        console.log(`📈 ${category.slug.toUpperCase()} via ${source.id}: ${found.length} articles found`);
+        topics.push(...found);
+      } catch (error) {
+        console.error(`❌ Error getting ${category.slug} content from ${source.id}:`, error instanceof Error ? error.message : error);
+      }
+    }
 
-              // Basic content validation
-              if (!this.isBasicSpaceContent(item.title, item.snippet || '', category)) {
-                console.log(`❌ Not relevant to ${category}`);
-                continue;
-              }
+    return topics;
+  }
 
-              // Try to extract detailed content from the actual article
-              let fullContent = item.snippet || '';
-              let contentQuality = 'low';
-              let realWordCount = (item.snippet || '').split(' ').length;
-
-              try {
-                console.log(`🔧 EXTRACTING CONTENT from: ${itemUrl}`);
-                const contentData = await this.extractCleanContent(itemUrl, item.snippet || '', item.title);
-                
-                if (contentData.isValidContent) {
-                  fullContent = contentData.cleanText;
-                  contentQuality = contentData.qualityScore >= 8 ? 'high' : contentData.qualityScore >= 6 ? 'medium' : 'low';
-                  realWordCount = contentData.wordCount;
-                  console.log(`✅ CONTENT EXTRACTED: ${realWordCount} words, quality: ${contentQuality}`);
-                } else {
-                  console.log(`⚠️ CONTENT EXTRACTION FAILED: Using fallback snippet`);
-                }
-              } catch (error) {
-                console.warn(`❌ Content extraction error for ${itemUrl}: ${error.message}`);
-              }
+  private async collectFromSource(source: TrendingSource, category: ContentCategory, limit: number): Promise<InsertTrendingTopic[]> {
+    const now = new Date();
+    const topics: InsertTrendingTopic[] = [];
+    let totalProcessed = 0;
+    let validArticles = 0;
+
+    const request = { category: category.slug, queries: category.searchQueries, targetSites: category.targetSites };
+    for await (const article of source.articles(request)) {
+      if (validArticles >= limit) break;
+
+      totalProcessed++;
+      const itemUrl = article.url;
+      console.log(`\n🔍 PROCESSING ${source.id} ${totalProcessed}: ${article.title.substring(0, 60)}...`);
+      console.log(`📎 URL: ${itemUrl}`);
+
+      // Skip if not a valid article URL; fixtures without a web address have a file:// one
+      const isWebUrl = /^https?:\/\//i.test(itemUrl);
+      if (isWebUrl && !this.isValidArticleUrl(itemUrl)) {
+        console.log(`❌ Invalid article URL (homepage/category page)`);
+        continue;
+      }
 
-              // Skip articles with too little content or poor quality indicators
-              if (realWordCount < 50) {
-                console.log(`❌ Article too short: ${realWordCount} words`);
-                continue;
-              }
+      // Basic content validation
+      if (!this.isBasicSpaceContent(article.title, article.snippet, category)) {
+        console.log(`❌ Not relevant to ${category.slug}`);
+        continue;
+      }
 
-              // Additional quality checks for full articles
-              if (contentQuality === 'low' && realWordCount < 100) {
-                console.log(`❌ Low quality content with insufficient length`);
-                continue;
-              }
+      const { fullContent, contentQuality, realWordCount } = await this.resolveArticleContent(article, isWebUrl);
 
-              // Check if content seems to be a homepage/category listing
-              if (this.isListingContent(fullContent)) {
-                console.log(`❌ Content appears to be a listing/category page`);
-                continue;
-              }
+      // Skip articles with too little content or poor quality indicators
+      if (realWordCount < 50) {
+        console.log(`❌ Article too short: ${realWordCount} words`);
+        continue;
+      }
 
-              // Generate realistic search volume based on category and keywords
-              const searchVolume = this.generateRealisticSearchVolume(item.title, category);
-              
-              validArticles++;
-              console.log(`✅ VALID ${category} ARTICLE ${validArticles}`);
-              console.log(`  🔥 Search Volume: ${searchVolume.toLocaleString()}`);
-              console.log(`  📝 Word Count: ${realWordCount}`);
-              console.log(`  ⭐ Quality: ${contentQuality}`);
-
-              topics.push({
-                title: this.optimizeForSpace(item.title, category),
-                description: fullContent.substring(0, 800) + (fullContent.length > 800 ? '...' : ''),
-                searchVolume: searchVolume,
-                priority: searchVolume >= 200000 ? 'high' : 'medium',
-                category: category,
-                source: 'space_science_search',
-                trending_data: {
-                  date: now.toISOString().split('T')[0],
-                  timestamp: now.toISOString(),
-                  timeframe: 'last_48_hours',
-                  sourceUrl: itemUrl, // Use the actual article URL, not item.link
-                  originalSearchUrl: itemUrl,
-                  realTime: true,
-                  dataFreshness: 'current',
-                  fullContent: fullContent,
-                  spaceOptimized: true,
-                  qualityScore: contentQuality === 'high' ? 9 : contentQuality === 'medium' ? 7 : 5,
-                  contentQuality: contentQuality,
-                  extractedAt: now.toISOString(),
-                  sourceDomain: this.extractDomain(itemUrl),
-                  wordCount: realWordCount,
-                  isSpaceScience: true,
-                  realSearchVolume: true,
-                  searchVolumeSource: 'estimated',
-                  withinLast48Hours: true,
-                  articleType: 'full_article',
-                  publishDateFormatted: 'Recently published',
-                  contentHash: this.generateContentHash(fullContent),
-                  articleValidated: true,
-                  contentExtracted: true
-                },
-                status: 'pending'
-              });
-            }
-          }
-        } catch (error) {
-          console.error(`❌ Search strategy failed for ${category}:`, error.message);
-          continue;
-        }
+      // Additional quality checks for full articles
+      if (contentQuality === 'low' && realWordCount < 100) {
+        console.log(`❌ Low quality content with insufficient length`);
+        continue;
       }
 
-      console.log(`📈 ${category.toUpperCase()} COMPLETE: ${validArticles} articles found`);
-      return topics;
+      // Check if content seems to be a homepage/category listing
+      if (this.isListingContent(fullContent)) {
+        console.log(`❌ Content appears to be a listing/category page`);
+        continue;
+      }
 
-    } catch (error) {
-      console.error(`❌ Error getting ${category} content:`, error.message);
-      return [];
+      validArticles++;
+      console.log(`✅ VALID ${category.slug} ARTICLE ${validArticles} (${source.id})`);
+      console.log(`  📝 Word Count: ${realWordCount}`);
+      console.log(`  ⭐ Quality: ${contentQuality}`);
+
+      topics.push({
+        title: this.optimizeForSpace(article.title, category),
+        description: fullContent.substring(0, 800) + (fullContent.length > 800 ? '...' : ''),
+        searchVolume: 0, // set with the priority once the whole batch is scored
+        priority: 'low',
+        category: category.slug,
+        source: source.id,
+        trending_data: {
+          date: now.toISOString().split('T')[0],
+          timestamp: now.toISOString(),
+          timeframe: 'last_48_hours',
+          sourceUrl: itemUrl,
+          originalSearchUrl: itemUrl,
+          originalTitle: article.title,
+          sourceOrigin: article.origin || null, // feed, sitemap, fixture file or search strategy
+          publishedAt: article.publishedAt?.toISOString() || null,
+          realTime: true,
+          dataFreshness: 'current',
+          fullContent: fullContent,
+          spaceOptimized: true,
+          qualityScore: contentQuality === 'high' ? 9 : contentQuality === 'medium' ? 7 : 5,
+          contentQuality: contentQuality,
+          extractedAt: now.toISOString(),
+          sourceDomain: isWebUrl ? this.extractDomain(itemUrl) : source.id,
+          wordCount: realWordCount,
+          isSpaceScience: true,
+          withinLast48Hours: true,
+          articleType: 'full_article',
+          publishDateFormatted: article.publishedAt ? article.publishedAt.toISOString().split('T')[0] : 'Recently published',
+          articleValidated: true,
+          contentExtracted: true
+        },
+        status: 'pending'
+      });
     }
+
+    return topics;
   }
 
-  private buildEnhancedSearchQuery(query: string, category: string): string {
-    // Build highly specific query for article targeting
-    const articleTerms = ['article', 'story', 'report', 'news', 'research', 'study', 'discovery', 'breakthrough'];
-    const excludeTerms = ['home', 'category', 'tag', 'index', 'archive', 'search', 'feed', 'rss', 'sitemap'];
-    
-    // Category-specific enhancements
-    const categoryEnhancements = {
-      space_news: 'NASA SpaceX launch mission',
-      space_facts: 'astronomy universe solar system',
-      space_astronomy: 'telescope discovery exoplanet',
-      earth_space_science: 'earth science climate geology',
-      general_science_facts: 'physics chemistry biology',
-      nature_environment_cosmic: 'environment nature cosmic'
-    };
+  // Uses the text the source already has when it is a full article (fixtures, full-text feeds),
+  // otherwise extracts it from the page
+  private async resolveArticleContent(article: SourceArticle, isWebUrl: boolean): Promise<{
+    fullContent: string;
+    contentQuality: string;
+    realWordCount: number;
+  }> {
+    const toQuality = (score: number) => score >= 8 ? 'high' : score >= 6 ? 'medium' : 'low';
 
-    const enhancement = categoryEnhancements[category] || '';
-    const articleQuery = `(${articleTerms.map(term => `"${term}"`).join(' OR ')})`;
-    const excludeQuery = excludeTerms.map(term => `-"${term}"`).join(' ');
-    
-    return `${query} ${enhancement} ${articleQuery} ${excludeQuery} published 2025 filetype:html`;
-  }
+    if (article.content) {
+      const quality = this.analyzeContentQuality(article.content, article.title, article.url);
+      if (quality.wordCount >= 100 || !isWebUrl) {
+        console.log(`✅ CONTENT FROM SOURCE: ${quality.wordCount} words, quality: ${toQuality(quality.qualityScore)}`);
+        return { fullContent: article.content, contentQuality: toQuality(quality.qualityScore), realWordCount: quality.wordCount };
+      }
+    }
 
-  private getTargetSites(category: string): string {
-    const siteMap = {
-      space_news: 'nasa.gov space.com spacenews.com',
-      space_facts: 'astronomy.com universetoday.com space.com',
-      space_astronomy: 'astronomy.com universetoday.com nasa.gov',
-      earth_space_science: 'nasa.gov nationalgeographic.com phys.org',
-      general_science_facts: 'sciencenews.org newscientist.com sciencedaily.com',
-      nature_environment_cosmic: 'nationalgeographic.com smithsonianmag.com phys.org'
-    };
-    
-    return siteMap[category] || 'nasa.gov space.com sciencenews.org';
+    // Try to extract detailed content from the actual article
+    let fullContent = article.snippet;
+    let contentQuality = 'low';
+    let realWordCount = article.snippet.split(' ').length;
+
+    if (isWebUrl) {
+      try {
+        console.log(`🔧 EXTRACTING CONTENT from: ${article.url}`);
+        const contentData = await this.extractCleanContent(article.url, article.snippet, article.title);
+
+        if (contentData.isValidContent) {
+          fullContent = contentData.cleanText;
+          contentQuality = toQuality(contentData.qualityScore);
+          realWordCount = contentData.wordCount;
+          console.log(`✅ CONTENT EXTRACTED: ${realWordCount} words, quality: ${contentQuality}`);
+        } else {
+          console.log(`⚠️ CONTENT EXTRACTION FAILED: Using fallback snippet`);
+        }
+      } catch (error) {
+        console.warn(`❌ Content extraction error for ${article.url}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    return { fullContent, contentQuality, realWordCount };
   }
 
   private isValidArticleUrl(url: string): boolean {
@@ -1024,205 +989,18 @@ export class TrendingAnalyzer {
     };
   }
 
-  private async getRealSearchVolume(title: string, contentData: any): Promise<number> {
-    try {
-      // Extract key terms from title
-      const keyTerms = this.extractKeyTerms(title);
-      
-      // For now, calculate based on content quality and trending factors
-      // In production, you would integrate with Google Trends API or similar service
-      let baseVolume = 50000;
-
-      // Quality multiplier
-      const qualityMultiplier = 1 + (contentData.qualityScore / 10);
-      
-      // Trending keywords boost
-      const trendingKeywords = [
-        'nasa', 'spacex', 'mars', 'moon', 'breakthrough', 'discovery',
-        'telescope', 'galaxy', 'planet', 'space', 'science'
-      ];
-      
-      const keywordBoost = keyTerms.filter(term => 
-        trendingKeywords.some(keyword => term.toLowerCase().includes(keyword))
-      ).length;
-      
-      const keywordMultiplier = 1 + (keywordBoost * 0.3);
-      
-      // Recency boost
-      const recencyMultiplier = 1.2;
-      
-      const estimatedVolume = Math.floor(
-        baseVolume * qualityMultiplier * keywordMultiplier * recencyMultiplier
-      );
-
-      console.log(`📊 SEARCH VOLUME ESTIMATION:`);
-      console.log(`  Base: ${baseVolume.toLocaleString()}`);
-      console.log(`  Quality: x${qualityMultiplier.toFixed(2)}`);
-      console.log(`  Keywords: x${keywordMultiplier.toFixed(2)}`);
-      console.log(`  Recency: x${recencyMultiplier.toFixed(2)}`);
-      console.log(`  Final: ${estimatedVolume.toLocaleString()}`);
-
-      return Math.max(estimatedVolume, 50000);
-    } catch (error) {
-      console.error('Error calculating search volume:', error.message);
-      return 100000;
-    }
-  }
-
-  private extractKeyTerms(title: string): string[] {
-    // Remove common words and extract meaningful terms
-    const stopWords = ['the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by'];
-    return title.toLowerCase()
-      .replace(/[^\w\s]/g, '')
-      .split(/\s+/)
-      .filter(word => word.length > 3 && !stopWords.includes(word));
-  }
-
-  private generateContentHash(content: string): string {
-    // Simple hash for duplicate detection
-    let hash = 0;
-    for (let i = 0; i < content.length; i++) {
-      const char = content.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
-    }
-    return hash.toString(36);
-  }
-
-  private isBasicSpaceContent(title: string, snippet: string, category: string): boolean {
+  private isBasicSpaceContent(title: string, snippet: string, category: ContentCategory): boolean {
     const content = `${title} ${snippet}`.toLowerCase();
-    
-    const categoryKeywords = {
-      space_news: ['space', 'nasa', 'spacex', 'rocket', 'mars', 'moon', 'satellite', 'astronaut'],
-      space_facts: ['space', 'astronomy', 'universe', 'galaxy', 'planet', 'solar system', 'star'],
-      space_astronomy: ['telescope', 'astronomy', 'cosmic', 'exoplanet', 'galaxy', 'universe'],
-      earth_space_science: ['earth', 'climate', 'geology', 'atmosphere', 'space'],
-      general_science_facts: ['science', 'physics', 'chemistry', 'biology', 'research', 'discovery'],
-      nature_environment_cosmic: ['environment', 'nature', 'cosmic', 'universe', 'space', 'ecology']
-    };
-
-    const keywords = categoryKeywords[category] || ['science', 'space'];
-    return keywords.some(keyword => content.includes(keyword));
-  }
-
-  private generateRealisticSearchVolume(title: string, category: string): number {
-    const baseVolumes = {
-      space_news: 150000,
-      space_facts: 120000,
-      space_astronomy: 100000,
-      earth_space_science: 90000,
-      general_science_facts: 110000,
-      nature_environment_cosmic: 80000
-    };
-
-    const baseVolume = baseVolumes[category] || 100000;
-    
-    // Add variation based on trending keywords
-    const trendingBoost = ['nasa', 'spacex', 'mars', 'breakthrough', 'discovery'].some(keyword => 
-      title.toLowerCase().includes(keyword)
-    ) ? 1.5 : 1.0;
-    
-    // Random variation ±30%
-    const randomFactor = 0.7 + (Math.random() * 0.6);
-    
-    return Math.floor(baseVolume * trendingBoost * randomFactor);
-  }
-
-  private optimizeForSpace(title: string, category: string): string {
-    const prefixes = {
-      space_news: ['🚀 BREAKING SPACE:', '🌟 SPACE DISCOVERY:', '🛸 NASA BREAKTHROUGH:'],
-      space_facts: ['🌌 AMAZING SPACE FACT:', '⭐ COSMIC DISCOVERY:', '🚀 SPACE SCIENCE:'],
-      space_astronomy: ['🔭 ASTRONOMICAL DISCOVERY:', '🌟 TELESCOPE BREAKTHROUGH:', '🌌 COSMIC PHENOMENON:'],
-      earth_space_science: ['🌍 EARTH FROM SPACE:', '🌎 PLANETARY SCIENCE:', '🌍 SPACE EARTH CONNECTION:'],
-      general_science_facts: ['🧬 SCIENCE BREAKTHROUGH:', '⚗️ SCIENTIFIC DISCOVERY:', '🔬 RESEARCH BREAKTHROUGH:'],
-      nature_environment_cosmic: ['🌿 COSMIC NATURE:', '🌱 SPACE ENVIRONMENT:', '🌺 UNIVERSAL CONNECTION:']
-    };
-
-    const categoryPrefixes = prefixes[category] || ['🔥 SPACE TRENDING:'];
-    const randomPrefix = categoryPrefixes[Math.floor(Math.random() * categoryPrefixes.length)];
-
-    return `${randomPrefix} ${title}`.substring(0, 100);
-  }
-
-  private extractBetterArticleUrl(item: any, originalUrl: string): string {
-    try {
-      // Check pagemap for canonical or og:url
-      if (item.pagemap) {
-        // Try canonical URL first
-        if (item.pagemap.metatags?.[0]?.['og:url']) {
-          const ogUrl = item.pagemap.metatags[0]['og:url'];
-          if (this.isMoreSpecificUrl(ogUrl, originalUrl)) {
-            console.log(`🔗 Found og:url: ${ogUrl}`);
-            return ogUrl;
-          }
-        }
-
-        // Try canonical link
-        if (item.pagemap.metatags?.[0]?.['canonical']) {
-          const canonicalUrl = item.pagemap.metatags[0]['canonical'];
-          if (this.isMoreSpecificUrl(canonicalUrl, originalUrl)) {
-            console.log(`🔗 Found canonical: ${canonicalUrl}`);
-            return canonicalUrl;
-          }
-        }
-
-        // Check for article-specific URLs in cse_thumbnail or other sources
-        if (item.pagemap.cse_thumbnail?.[0]?.src) {
-          const thumbnailSrc = item.pagemap.cse_thumbnail[0].src;
-          // Sometimes thumbnail URLs contain the article path
-          const articlePath = this.extractArticlePathFromThumbnail(thumbnailSrc, originalUrl);
-          if (articlePath && this.isMoreSpecificUrl(articlePath, originalUrl)) {
-            console.log(`🔗 Extracted from thumbnail: ${articlePath}`);
-            return articlePath;
-          }
-        }
-      }
-
-      return originalUrl;
-    } catch (error) {
-      console.warn(`⚠️ Error extracting better URL: ${error.message}`);
-      return originalUrl;
-    }
+    return category.keywords.some(keyword => content.includes(keyword.toLowerCase()));
   }
 
-  private isMoreSpecificUrl(newUrl: string, originalUrl: string): boolean {
-    try {
-      const newUrlObj = new URL(newUrl);
-      const originalUrlObj = new URL(originalUrl);
-      
-      // Same domain check
-      if (newUrlObj.hostname !== originalUrlObj.hostname) {
-        return false;
-      }
-      
-      // More specific if it has more path segments
-      const newPathSegments = newUrlObj.pathname.split('/').filter(p => p.length > 0);
-      const originalPathSegments = originalUrlObj.pathname.split('/').filter(p => p.length > 0);
-      
-      return newPathSegments.length > originalPathSegments.length ||
-             newUrlObj.pathname.includes('/article/') ||
-             newUrlObj.pathname.includes('/news/') ||
-             newUrlObj.pathname.includes('/story/') ||
-             /\d{4}\/\d{2}/.test(newUrlObj.pathname);
-    } catch {
-      return false;
+  private optimizeForSpace(title: string, category: ContentCategory): string {
+    if (category.titlePrefixes.length === 0) {
+      return title.substring(0, 100);
     }
-  }
+    const randomPrefix = category.titlePrefixes[Math.floor(Math.random() * category.titlePrefixes.length)];
 
-  private extractArticlePathFromThumbnail(thumbnailUrl: string, baseUrl: string): string | null {
-    try {
-      const baseUrlObj = new URL(baseUrl);
-      
-      // Look for patterns in thumbnail URL that might indicate article path
-      if (thumbnailUrl.includes('article') || thumbnailUrl.includes('news') || thumbnailUrl.includes('story')) {
-        // This is a simple heuristic - you might need to adjust based on specific sites
-        return baseUrl; // For now, return the base URL
-      }
-      
-      return null;
-    } catch {
-      return null;
-    }
+    return `${randomPrefix} ${title}`.substring(0, 100);
   }
 
   private extractDomain(url: string): string {
@@ -1233,38 +1011,16 @@ export class TrendingAnalyzer {
     }
   }
 
-  private async filterForSpaceAndScienceContent(topics: InsertTrendingTopic[]): Promise<InsertTrendingTopic[]> {
-    // Simple duplicate removal based on title similarity
-    const uniqueFiltered = [];
-    const seenTitles = new Set();
-    
-    for (const topic of topics) {
-      // Create a normalized title for comparison
-      const normalizedTitle = topic.title.toLowerCase()
-        .replace(/[^\w\s]/g, '')
-        .replace(/\s+/g, ' ')
-        .trim();
-      
-      if (!seenTitles.has(normalizedTitle)) {
-        seenTitles.add(normalizedTitle);
-        uniqueFiltered.push(topic);
-      }
-    }
-
-    console.log(`🚀 FILTERED: ${uniqueFiltered.length}/${topics.length} unique topics (removed duplicates)`);
-    return uniqueFiltered;
-  }
-
   private prioritizeByEngagement(topics: InsertTrendingTopic[]): InsertTrendingTopic[] {
     return topics
       .sort((a, b) => {
-        const volumeDiff = (b.searchVolume || 0) - (a.searchVolume || 0);
-        if (Math.abs(volumeDiff) > 50000) return volumeDiff;
-
         const aData = a.trending_data as any;
         const bData = b.trending_data as any;
+        const scoreDiff = (bData.score?.total || 0) - (aData.score?.total || 0);
+        if (scoreDiff !== 0) return scoreDiff;
+
         const qualityDiff = (bData.qualityScore || 0) - (aData.qualityScore || 0);
-        if (Math.abs(qualityDiff) > 1) return qualityDiff;
+        if (qualityDiff !== 0) return qualityDiff;
 
         return (bData.wordCount || 0) - (aData.wordCount || 0);
       })
@@ -0,0 +1,463 @@
+import { google } from 'googleapis';
+import { z } from 'zod';
+import * as cheerio from 'cheerio';
+import fetch from 'node-fetch';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { storage } from '../storage';
+
+export const TRENDING_SOURCES_SETTING_KEY = 'trending_sources';
+
+const DOCUMENT_TIMEOUT_MS = 15 * 1000;
+// Feed and sitemap entries older than this are no longer trending
+const MAX_ARTICLE_AGE_MS = 48 * 60 * 60 * 1000;
+
+const documentSourceSchema = z.object({
+  url: z.string().url(),
+  name: z.string().min(1).optional(),
+  categories: z.array(z.string().min(1)).optional() // categories the source is searched for; all of them when left out
+});
+
+export const trendingSourcesConfigSchema = z.object({
+  googleSearch: z.object({
+    enabled: z.boolean().default(true) // also needs GOOGLE_CUSTOM_SEARCH_API_KEY and GOOGLE_CUSTOM_SEARCH_ENGINE_ID
+  }).default({}),
+  feeds: z.array(documentSourceSchema).default([]), // RSS 2.0 or Atom
+  sitemaps: z.array(documentSourceSchema).default([]), // Google News sitemaps
+  fixtures: z.object({
+    enabled: z.boolean().default(false),
+    directory: z.string().min(1).default('fixtures/trending') // *.json files, relative to the working directory
+  }).default({}),
+  maxArticlesPerSource: z.number().int().min(1).max(50).default(5) // valid articles kept per source and category
+});
+
+export type TrendingSourcesConfig = z.infer<typeof trendingSourcesConfigSchema>;
+type DocumentSource = z.infer<typeof documentSourceSchema>;
+
+export const DEFAULT_TRENDING_SOURCES: TrendingSourcesConfig = trendingSourcesConfigSchema.parse({});
+
+export interface CategoryRequest {
+  category: string; // category slug
+  queries: string[]; // search terms, for sources that search
+  targetSites: string[]; // domains a search source can restrict itself to
+}
+
+// A candidate article. The analyzer checks it is relevant, fetches the page when there is no
+// content yet, scores it and turns it into a trending topic.
+export interface SourceArticle {
+  title: string;
+  url: string;
+  snippet: string;
+  content?: string; // full text, when the source already has it
+  publishedAt?: Date;
+  origin?: string; // feed, sitemap or fixture file it came from
+}
+
+export interface TrendingSource {
+  id: string; // stored as the topic's source
+  isConfigured(): boolean;
+  describe(): string;
+  // Produced lazily so the analyzer can stop pulling (and searching) once it has enough articles
+  articles(request: CategoryRequest): AsyncIterable<SourceArticle>;
+}
+
+export async function loadTrendingSources(): Promise<TrendingSourcesConfig> {
+  try {
+    const setting = await storage.getAutomationSetting(TRENDING_SOURCES_SETTING_KEY);
+    if (!setting) {
+      return DEFAULT_TRENDING_SOURCES;
+    }
+    return trendingSourcesConfigSchema.parse(JSON.parse(setting.value));
+  } catch (error) {
+    console.warn('⚠️ Invalid trending sources setting, using defaults:', error instanceof Error ? error.message : error);
+    return DEFAULT_TRENDING_SOURCES;
+  }
+}
+
+// All built-in sources for one analysis run; unconfigured ones report it and are skipped
+export function createTrendingSources(config: TrendingSourcesConfig): TrendingSource[] {
+  return [
+    new GoogleSearchSource(config.googleSearch.enabled),
+    new FeedSource(config.feeds),
+    new NewsSitemapSource(config.sitemaps),
+    new FixtureSource(config.fixtures.enabled, config.fixtures.directory)
+  ];
+}
+
+function servesCategory(source: DocumentSource, category: string): boolean {
+  return !source.categories || source.categories.includes(category);
+}
+
+function isRecent(publishedAt: Date | undefined): boolean {
+  return !publishedAt || Date.now() - publishedAt.getTime() <= MAX_ARTICLE_AGE_MS;
+}
+
+function parseDate(value: string | undefined): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+// Feed fields may hold HTML; the analyzer works on plain text
+function stripHtml(value: string): string {
+  return cheerio.load(value).text().replace(/\s+/g, ' ').trim();
+}
+
+async function fetchDocument(url: string): Promise<string> {
+  const response = await fetch(url, {
+    signal: AbortSignal.timeout(DOCUMENT_TIMEOUT_MS),
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (compatible; YouTubeAutomation/1.0)',
+      'Accept': 'application/rss+xml, application/atom+xml, application/xml, text/xml;q=0.9, */*;q=0.8'
+    }
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return await response.text();
+}
+
+// Feeds and sitemaps are fetched once per analysis run and then filtered per category
+abstract class DocumentListSource implements TrendingSource {
+  abstract id: string;
+  private documents = new Map<string, Promise<SourceArticle[]>>();
+
+  constructor(protected sources: DocumentSource[]) {}
+
+  isConfigured(): boolean {
+    return this.sources.length > 0;
+  }
+
+  describe(): string {
+    return `${this.sources.length} configured`;
+  }
+
+  async *articles(request: CategoryRequest): AsyncIterable<SourceArticle> {
+    for (const source of this.sources.filter(source => servesCategory(source, request.category))) {
+      for (const article of await this.load(source)) {
+        yield article;
+      }
+    }
+  }
+
+  protected abstract parse(xml: string, source: DocumentSource): SourceArticle[];
+
+  private load(source: DocumentSource): Promise<SourceArticle[]> {
+    let document = this.documents.get(source.url);
+    if (!document) {
+      document = fetchDocument(source.url)
+        .then(xml => this.parse(xml, source).filter(article => article.url && article.title && isRecent(article.publishedAt)))
+        .catch(error => {
+          console.error(`❌ ${this.id} source ${source.name || source.url} failed:`, error instanceof Error ? error.message : error);
+          return [];
+        });
+      this.documents.set(source.url, document);
+    }
+    return document;
+  }
+}
+
+export class FeedSource extends DocumentListSource {
+  id = 'rss';
+
+  // RSS 2.0 <item> and Atom <entry>
+  protected parse(xml: string, source: DocumentSource): SourceArticle[] {
+    const $ = cheerio.load(xml, { xmlMode: true });
+    const origin = source.name || $('channel > title, feed > title').first().text().trim() || source.url;
+
+    const rss = $('item').toArray().map(element => {
+      const item = $(element);
+      const content = item.find('content\\:encoded').first().text();
+      return {
+        title: stripHtml(item.children('title').text()),
+        url: item.children('link').text().trim() || item.children('guid').text().trim(),
+        snippet: stripHtml(item.children('description').text()),
+        content: content ? stripHtml(content) : undefined,
+        publishedAt: parseDate(item.children('pubDate').text() || item.find('dc\\:date').first().text()),
+        origin
+      };
+    });
+
+    const atom = $('entry').toArray().map(element => {
+      const entry = $(element);
+      const links = entry.children('link');
+      const alternate = links.filter((_, link) => !$(link).attr('rel') || $(link).attr('rel') === 'alternate').first();
+      const content = entry.children('content').text();
+      return {
+        title: stripHtml(entry.children('title').text()),
+        url: (alternate.attr('href') || links.first().attr('href') || '').trim(),
+        snippet: stripHtml(entry.children('summary').text() || content).substring(0, 500),
+        content: content ? stripHtml(content) : undefined,
+        publishedAt: parseDate(entry.children('published').text() || entry.children('updated').text()),
+        origin
+      };
+    });
+
+    return [...rss, ...atom];
+  }
+}
+
+export class NewsSitemapSource extends DocumentListSource {
+  id = 'news_sitemap';
+
+  // <url><loc/><news:news><news:title/><news:publication_date/></news:news></url>; no page text, so
+  // the analyzer fetches each article
+  protected parse(xml: string, source: DocumentSource): SourceArticle[] {
+    const $ = cheerio.load(xml, { xmlMode: true });
+    return $('url').toArray()
+      .map(element => {
+        const entry = $(element);
+        const title = entry.find('news\\:title').first().text().trim();
+        return {
+          title,
+          url: entry.children('loc').text().trim(),
+          snippet: [title, entry.find('news\\:keywords').first().text().trim()].filter(Boolean).join('. '),
+          publishedAt: parseDate(entry.find('news\\:publication_date').first().text() || entry.children('lastmod').text()),
+          origin: source.name || entry.find('news\\:publication > news\\:name').first().text().trim() || source.url
+        };
+      })
+      .filter(article => article.title); // plain sitemaps have no titles - nothing to judge the page by
+  }
+}
+
+// Local JSON files, one article or an array of articles per file:
+// { "title", "content", "url"?, "summary"?, "category"?, "publishedAt"? }
+// Handy for testing topic selection and for curated topics that aren't on the web yet.
+export class FixtureSource implements TrendingSource {
+  id = 'fixture';
+  private files: Promise<Array<SourceArticle & { category?: string }>> | null = null;
+
+  constructor(private enabled: boolean, private directory: string) {}
+
+  isConfigured(): boolean {
+    return this.enabled;
+  }
+
+  describe(): string {
+    return this.enabled ? path.resolve(this.directory) : 'disabled';
+  }
+
+  async *articles(request: CategoryRequest): AsyncIterable<SourceArticle> {
+    for (const article of await this.load()) {
+      if (!article.category || article.category === request.category) {
+        yield article;
+      }
+    }
+  }
+
+  private load(): Promise<Array<SourceArticle & { category?: string }>> {
+    if (!this.files) {
+      this.files = this.readDirectory().catch(error => {
+        console.error(`❌ Fixture source ${this.directory} failed:`, error instanceof Error ? error.message : error);
+        return [];
+      });
+    }
+    return this.files;
+  }
+
+  private async readDirectory(): Promise<Array<SourceArticle & { category?: string }>> {
+    const directory = path.resolve(this.directory);
+    const names = (await fs.readdir(directory)).filter(name => name.endsWith('.json')).sort();
+    const articles: Array<SourceArticle & { category?: string }> = [];
+
+    for (const name of names) {
+      try {
+        const parsed = JSON.parse(await fs.readFile(path.join(directory, name), 'utf8'));
+        for (const entry of Array.isArray(parsed) ? parsed : [parsed]) {
+          if (typeof entry?.title !== 'string' || typeof entry?.content !== 'string') {
+            console.warn(`⚠️ Skipping fixture entry without title and content in ${name}`);
+            continue;
+          }
+          articles.push({
+            title: entry.title,
+            url: entry.url || `file://${path.join(directory, name)}`,
+            snippet: entry.summary || entry.content.substring(0, 300),
+            content: entry.content,
+            publishedAt: parseDate(entry.publishedAt),
+            category: entry.category,
+            origin: name
+          });
+        }
+      } catch (error) {
+        console.warn(`⚠️ Skipping unreadable fixture ${name}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    return articles;
+  }
+}
+
+// Google Custom Search, several query strategies per category
+export class GoogleSearchSource implements TrendingSource {
+  id = 'google_search';
+  private customSearch: any = null;
+
+  constructor(enabled: boolean) {
+    const customSearchKey = process.env.GOOGLE_CUSTOM_SEARCH_API_KEY;
+    if (enabled && customSearchKey && process.env.GOOGLE_CUSTOM_SEARCH_ENGINE_ID) {
+      this.customSearch = google.customsearch({
+        version: 'v1',
+        auth: customSearchKey
+      });
+    }
+  }
+
+  isConfigured(): boolean {
+    return this.customSearch !== null;
+  }
+
+  describe(): string {
+    return this.customSearch ? 'Custom Search API' : 'missing GOOGLE_CUSTOM_SEARCH_API_KEY / GOOGLE_CUSTOM_SEARCH_ENGINE_ID or disabled';
+  }
+
+  async *articles({ queries, category, targetSites }: CategoryRequest): AsyncIterable<SourceArticle> {
+    for (const query of queries) {
+      yield* this.search(query, category, targetSites);
+    }
+  }
+
+  private async *search(query: string, category: string, targetSites: string[]): AsyncIterable<SourceArticle> {
+    // Enhanced search strategies to get direct article URLs
+    const searchStrategies = [
+      {
+        query: `"${query}" article OR news OR story OR report filetype:html -category -tag -index`,
+        num: 10,
+        description: 'Direct news articles'
+      },
+      {
+        query: `"${query}" discovery OR breakthrough OR research OR study filetype:html`,
+        num: 10,
+        description: 'Research articles'
+      },
+      // Only for categories that list their trusted sites
+      ...(targetSites.length > 0 ? [{
+        query: `${query} ${targetSites.map(site => `site:${site}`).join(' OR ')}`,
+        num: 10,
+        description: 'Trusted sources'
+      }] : []),
+      {
+        query: `${query} "2025" OR "June 2025" OR "recent" article news -homepage -category`,
+        num: 10,
+        description: 'Recent articles'
+      }
+    ];
+
+    for (const strategy of searchStrategies) {
+      console.log(`\n🔍 ${strategy.description}: ${strategy.query}`);
+
+      let items: any[] = [];
+      try {
+        const response = await this.customSearch.cse.list({
+          cx: process.env.GOOGLE_CUSTOM_SEARCH_ENGINE_ID,
+          q: strategy.query,
+          num: strategy.num,
+          dateRestrict: 'd1',
+          lr: 'lang_en',
+          safe: 'medium'
+        });
+        items = response.data.items || [];
+      } catch (error) {
+        console.error(`❌ Search strategy failed for ${category}:`, error instanceof Error ? error.message : error);
+        continue;
+      }
+
+      console.log(`📊 Found ${items.length} potential articles`);
+      for (const item of items) {
+        let itemUrl = item.link || '';
+        // Try to extract better URL from pagemap if available
+        const betterUrl = extractBetterArticleUrl(item, itemUrl);
+        if (betterUrl !== itemUrl) {
+          console.log(`🔧 Found better URL: ${betterUrl}`);
+          itemUrl = betterUrl;
+        }
+
+        yield {
+          title: item.title || '',
+          url: itemUrl,
+          snippet: item.snippet || '',
+          origin: strategy.description
+        };
+      }
+    }
+  }
+}
+
+function extractBetterArticleUrl(item: any, originalUrl: string): string {
+  try {
+    // Check pagemap for canonical or og:url
+    if (item.pagemap) {
+      // Try canonical URL first
+      if (item.pagemap.metatags?.[0]?.['og:url']) {
+        const ogUrl = item.pagemap.metatags[0]['og:url'];
+        if (isMoreSpecificUrl(ogUrl, originalUrl)) {
+          console.log(`🔗 Found og:url: ${ogUrl}`);
+          return ogUrl;
+        }
+      }
+
+      // Try canonical link
+      if (item.pagemap.metatags?.[0]?.['canonical']) {
+        const canonicalUrl = item.pagemap.metatags[0]['canonical'];
+        if (isMoreSpecificUrl(canonicalUrl, originalUrl)) {
+          console.log(`🔗 Found canonical: ${canonicalUrl}`);
+          return canonicalUrl;
+        }
+      }
+
+      // Check for article-specific URLs in cse_thumbnail or other sources
+      if (item.pagemap.cse_thumbnail?.[0]?.src) {
+        const thumbnailSrc = item.pagemap.cse_thumbnail[0].src;
+        // Sometimes thumbnail URLs contain the article path
+        const articlePath = extractArticlePathFromThumbnail(thumbnailSrc, originalUrl);
+        if (articlePath && isMoreSpecificUrl(articlePath, originalUrl)) {
+          console.log(`🔗 Extracted from thumbnail: ${articlePath}`);
+          return articlePath;
+        }
+      }
+    }
+
+    return originalUrl;
+  } catch (error) {
+    console.warn(`⚠️ Error extracting better URL: ${error instanceof Error ? error.message : error}`);
+    return originalUrl;
+  }
+}
+
+function isMoreSpecificUrl(newUrl: string, originalUrl: string): boolean {
+  try {
+    const newUrlObj = new URL(newUrl);
+    const originalUrlObj = new URL(originalUrl);
+
+    // Same domain check
+    if (newUrlObj.hostname !== originalUrlObj.hostname) {
+      return false;
+    }
+
+    // More specific if it has more path segments
+    const newPathSegments = newUrlObj.pathname.split('/').filter(p => p.length > 0);
+    const originalPathSegments = originalUrlObj.pathname.split('/').filter(p => p.length > 0);
+
+    return newPathSegments.length > originalPathSegments.length ||
+           newUrlObj.pathname.includes('/article/') ||
+           newUrlObj.pathname.includes('/news/') ||
+           newUrlObj.pathname.includes('/story/') ||
+           /\d{4}\/\d{2}/.test(newUrlObj.pathname);
+  } catch {
+    return false;
+  }
+}
+
+function extractArticlePathFromThumbnail(thumbnailUrl: string, baseUrl: string): string | null {
+  try {
+    new URL(baseUrl);
+
+    // Look for patterns in thumbnail URL that might indicate article path
+    if (thumbnailUrl.includes('article') || thumbnailUrl.includes('news') || thumbnailUrl.includes('story')) {
+      // This is a simple heuristic - you might need to adjust based on specific sites
+      return baseUrl; // For now, return the base URL
+    }
+
+    return null;
+  } catch {
+    return null;
+  }
+}
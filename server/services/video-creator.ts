@@ -4,6 +4,10 @@ import { exec } from 'child_process';
 import { promisify } from 'util';
 import { storage } from '../storage';
 import { textToSpeechService } from './text-to-speech';
+import { execCancellable, type CancellationToken } from './cancellation';
+import { isDryRun } from './dry-run';
+import { categoryCatalog, GENERAL_CATEGORY, type CategoryDefinition } from './categories';
+import { jobMetadata } from '@shared/schema';
 import axios from 'axios';
 
 const execAsync = promisify(exec);
@@ -24,6 +28,26 @@ export interface VideoScene {
   effects: string[];
 }
 
+export interface NarrationResult {
+  audioPath: string;
+  duration: number;
+  fileSize: number;
+  voice: string;
+  enhanced: boolean;
+}
+
+export interface VideoFileInfo {
+  videoPath: string;
+  duration: number;
+  resolution: string;
+  fileSize: number;
+  hasAudio: boolean;
+  videoCodec?: string;
+  audioCodec?: string;
+}
+
+const NARRATION_VOICE = 'en-IN-Neural2-B'; // Professional male voice
+
 export class ProfessionalVideoCreator {
   private outputDir = path.join(process.cwd(), 'temp', 'videos');
   private assetsDir = path.join(process.cwd(), 'temp', 'assets');
@@ -39,7 +63,30 @@ export class ProfessionalVideoCreator {
     await fs.mkdir(this.backgroundsDir, { recursive: true });
   }
 
-  async createProfessionalVideo(jobId: number): Promise<string> {
+  async createNarration(jobId: number, token?: CancellationToken): Promise<NarrationResult> {
+    const jobData = await storage.getContentJobById(jobId);
+    if (!jobData) {
+      throw new Error(`Job ${jobId} not found`);
+    }
+    if (!jobData.script) {
+      throw new Error(`Job ${jobId} has no script to narrate`);
+    }
+
+    // Ensure FFmpeg is available before starting
+    await this.ensureFFmpegAvailable();
+
+    // A voice picked when regenerating the audio overrides the default narrator
+    const voice = jobMetadata(jobData).narrationVoice || NARRATION_VOICE;
+
+    const { audioPath, enhanced } = await this.generateProfessionalAudio(jobData.script, jobId, voice, token);
+    const duration = await this.getAudioDuration(audioPath, token);
+    const stats = await fs.stat(audioPath);
+
+    console.log(`🎵 Narration ready: ${audioPath} (${Math.round(duration)}s)`);
+    return { audioPath, duration, fileSize: stats.size, voice, enhanced };
+  }
+
+  async createProfessionalVideo(jobId: number, audioPath: string, token?: CancellationToken): Promise<string> {
     try {
       const jobData = await storage.getContentJobById(jobId);
       if (!jobData) {
@@ -52,29 +99,26 @@ export class ProfessionalVideoCreator {
       await this.ensureFFmpegAvailable();
 
       const isShort = jobData.videoType === 'short';
-      const targetDuration = isShort ? 120 : 640; // 2 min for shorts, 10+ min for long-form
 
-      // Step 1: Generate high-quality audio with natural speech
-      const audioPath = await this.generateProfessionalAudio(jobData.script, jobId);
-
-      // Step 2: Get actual audio duration
-      const actualDuration = await this.getAudioDuration(audioPath);
+      // Step 1: Get actual audio duration of the narration
+      const actualDuration = await this.getAudioDuration(audioPath, token);
       console.log(`🎵 Audio duration: ${actualDuration}s`);
 
-      // Step 3: Create video scenes with professional editing
+      // Step 2: Create video scenes with professional editing
       const scenes = await this.createVideoScenes(jobData, actualDuration, isShort);
 
-      // Step 4: Download and prepare background assets
-      const backgroundAssets = await this.prepareBackgroundAssets(scenes, jobData.metadata?.category || 'general');
+      // Step 3: Download and prepare background assets
+      const category = await categoryCatalog.resolve(jobData.metadata?.category);
+      const backgroundAssets = await this.prepareBackgroundAssets(scenes, category, token);
 
-      // Step 5: Create professional video with advanced effects
-      const videoPath = await this.renderProfessionalVideo(scenes, backgroundAssets, actualDuration, isShort, jobId);
+      // Step 4: Create professional video with advanced effects
+      const videoPath = await this.renderProfessionalVideo(scenes, backgroundAssets, actualDuration, isShort, jobId, token);
 
-      // Step 6: Combine with audio using advanced audio processing
-      const finalPath = await this.combineVideoWithAudio(videoPath, audioPath, jobId, isShort);
+      // Step 5: Combine with audio using advanced audio processing
+      const combinedPath = await this.combineVideoWithAudio(videoPath, audioPath, jobId, isShort, token);
 
-      console.log(`✅ PROFESSIONAL video created: ${finalPath}`);
-      return finalPath;
+      console.log(`✅ PROFESSIONAL video created: ${combinedPath}`);
+      return combinedPath;
 
     } catch (error) {
       console.error(`❌ Professional video creation failed for job ${jobId}:`, error);
@@ -82,7 +126,32 @@ export class ProfessionalVideoCreator {
     }
   }
 
-  private async generateProfessionalAudio(script: string, jobId: number): Promise<string> {
+  // Final encode for YouTube: H.264 high profile, AAC 48kHz and faststart for streaming
+  async optimizeVideo(inputPath: string, jobId: number, isShort: boolean, duration: number, token?: CancellationToken): Promise<string> {
+    const outputPath = path.join(this.outputDir, `professional_final_${jobId}.mp4`);
+
+    console.log(`🔄 Optimizing video for YouTube: ${inputPath}`);
+
+    const command = `ffmpeg -i "${inputPath}" ` +
+      `-c:v libx264 -profile:v high -preset medium -crf 20 ` +
+      `-maxrate ${isShort ? '8M' : '12M'} -bufsize ${isShort ? '16M' : '24M'} ` +
+      `-pix_fmt yuv420p -r 30 ` +
+      `-c:a aac -b:a 192k -ar 48000 ` +
+      `-movflags +faststart ` +
+      `"${outputPath}" -y`;
+
+    await execCancellable(command, { timeout: Math.max(300000, duration * 2000) }, token);
+
+    const stats = await fs.stat(outputPath);
+    if (stats.size < 50000) {
+      throw new Error('Optimized video file too small or corrupted');
+    }
+
+    console.log(`✅ Optimized video created: ${outputPath} (${Math.round(stats.size / (1024 * 1024))}MB)`);
+    return outputPath;
+  }
+
+  private async generateProfessionalAudio(script: string, jobId: number, voice: string, token?: CancellationToken): Promise<{ audioPath: string; enhanced: boolean }> {
     try {
       console.log(`🎙️ Generating professional audio for job ${jobId}...`);
 
@@ -92,9 +161,10 @@ export class ProfessionalVideoCreator {
       const audioPath = await textToSpeechService.generateSpeech({
         text: enhancedScript,
         outputPath: path.join(this.outputDir, `professional_audio_${jobId}.mp3`),
-        voice: 'en-IN-Neural2-B', // Professional male voice
+        voice,
         speed: 0.95, // Optimal speaking rate
-        pitch: -1.5 // Authority and clarity
+        pitch: -1.5, // Authority and clarity
+        cancellationToken: token
       });
 
       // Validate and enhance audio
@@ -104,9 +174,9 @@ export class ProfessionalVideoCreator {
       }
 
       // Apply professional audio enhancement
-      const enhancedAudioPath = await this.enhanceAudioQuality(audioPath, jobId);
+      const enhancedAudioPath = await this.enhanceAudioQuality(audioPath, jobId, token);
 
-      return enhancedAudioPath;
+      return { audioPath: enhancedAudioPath, enhanced: enhancedAudioPath !== audioPath };
     } catch (error) {
       console.error('Professional audio generation failed:', error);
       throw error;
@@ -148,7 +218,7 @@ export class ProfessionalVideoCreator {
     return enhanced;
   }
 
-  private async enhanceAudioQuality(audioPath: string, jobId: number): Promise<string> {
+  private async enhanceAudioQuality(audioPath: string, jobId: number, token?: CancellationToken): Promise<string> {
     const enhancedPath = path.join(this.outputDir, `enhanced_audio_${jobId}.mp3`);
 
     try {
@@ -164,7 +234,7 @@ export class ProfessionalVideoCreator {
         `aresample=48000` + // Professional sample rate
         `" -c:a libmp3lame -b:a 320k "${enhancedPath}" -y`;
 
-      await execAsync(command);
+      await execCancellable(command, {}, token);
 
       const stats = await fs.stat(enhancedPath);
       if (stats.size > 50000) {
@@ -172,13 +242,14 @@ export class ProfessionalVideoCreator {
         return enhancedPath;
       }
     } catch (error) {
+      token?.throwIfCancelled();
       console.warn('Audio enhancement failed, using original:', error.message);
     }
 
     return audioPath;
   }
 
-  private async getAudioDuration(audioPath: string): Promise<number> {
+  private async getAudioDuration(audioPath: string, token?: CancellationToken): Promise<number> {
     try {
       // Check if file exists and is readable
       const stats = await fs.stat(audioPath);
@@ -186,7 +257,7 @@ export class ProfessionalVideoCreator {
         throw new Error('Audio file too small');
       }
 
-      const { stdout } = await execAsync(`ffprobe -v quiet -show_entries format=duration -of csv=p=0 "${audioPath}"`);
+      const { stdout } = await execCancellable(`ffprobe -v quiet -show_entries format=duration -of csv=p=0 "${audioPath}"`, {}, token);
       const duration = parseFloat(stdout.trim());
 
       if (isNaN(duration)) {
@@ -202,6 +273,7 @@ export class ProfessionalVideoCreator {
       return duration;
 
     } catch (error) {
+      token?.throwIfCancelled();
       console.warn('Could not get accurate audio duration, using file-based estimate...');
       
       try {
@@ -304,31 +376,41 @@ export class ProfessionalVideoCreator {
     return baseEffects;
   }
 
-  private async prepareBackgroundAssets(scenes: VideoScene[], category: string): Promise<string[]> {
+  private async prepareBackgroundAssets(scenes: VideoScene[], category: CategoryDefinition, token?: CancellationToken): Promise<string[]> {
     const assets: string[] = [];
 
     for (let i = 0; i < scenes.length; i++) {
       let backgroundPath: string;
+      token?.throwIfCancelled();
+
+      if (isDryRun()) {
+        // No stock image downloads in dry runs - generated backgrounds are deterministic
+        backgroundPath = await this.createProfessionalGradientBackground(category, i, token);
+        assets.push(backgroundPath);
+        continue;
+      }
 
       try {
         // Try to download high-quality background image
-        const imageUrl = await this.getUnsplashImage(category, i);
+        const imageUrl = await this.getUnsplashImage(category, i, token);
         const imagePath = path.join(this.backgroundsDir, `scene_${i}_bg.jpg`);
 
-        await this.downloadImage(imageUrl, imagePath);
+        await this.downloadImage(imageUrl, imagePath, token);
         console.log(`✅ Downloaded background for scene ${i}`);
         backgroundPath = imagePath;
       } catch (error) {
+        token?.throwIfCancelled();
         console.warn(`Failed to download background for scene ${i}, creating professional fallback`);
         
         try {
           // Create a high-quality gradient background
-          backgroundPath = await this.createProfessionalGradientBackground(category, i);
+          backgroundPath = await this.createProfessionalGradientBackground(category, i, token);
           console.log(`✅ Created professional gradient for scene ${i}`);
         } catch (gradientError) {
+          token?.throwIfCancelled();
           console.warn(`Professional gradient failed for scene ${i}, using simple background`);
           // Final fallback - simple solid background
-          backgroundPath = await this.createSimpleBackground(i);
+          backgroundPath = await this.createSimpleBackground(i, token);
         }
       }
 
@@ -338,8 +420,8 @@ export class ProfessionalVideoCreator {
     return assets;
   }
 
-  private async getUnsplashImage(category: string, sceneIndex: number): Promise<string> {
-    const keywords = this.getCategoryKeywords(category);
+  private async getUnsplashImage(category: CategoryDefinition, sceneIndex: number, token?: CancellationToken): Promise<string> {
+    const keywords = category.backgroundKeywords.length > 0 ? category.backgroundKeywords : GENERAL_CATEGORY.backgroundKeywords;
     const query = keywords[sceneIndex % keywords.length];
 
     // Try multiple image sources in order of preference
@@ -355,6 +437,7 @@ export class ProfessionalVideoCreator {
         const response = await axios.get(imageSources[i], {
           responseType: 'arraybuffer',
           timeout: 15000,
+          signal: token?.signal,
           headers: {
             'User-Agent': 'Mozilla/5.0 (compatible; VideoGenerator/1.0)',
             'Accept': 'image/*'
@@ -365,6 +448,7 @@ export class ProfessionalVideoCreator {
           return imageSources[i];
         }
       } catch (error) {
+        token?.throwIfCancelled();
         console.warn(`Image source ${i + 1} failed:`, error.message);
         continue;
       }
@@ -374,23 +458,12 @@ export class ProfessionalVideoCreator {
     throw new Error('All image sources failed');
   }
 
-  private getCategoryKeywords(category: string): string[] {
-    const keywordMap: { [key: string]: string[] } = {
-      'technology': ['technology', 'innovation', 'digital', 'future', 'AI', 'computer'],
-      'science': ['science', 'research', 'laboratory', 'discovery', 'space', 'nature'],
-      'business': ['business', 'finance', 'corporate', 'economy', 'growth', 'success'],
-      'news': ['news', 'media', 'journalism', 'world', 'global', 'breaking'],
-      'general': ['modern', 'abstract', 'clean', 'professional', 'blue', 'gradient']
-    };
-
-    return keywordMap[category] || keywordMap['general'];
-  }
-
-  private async downloadImage(url: string, outputPath: string): Promise<void> {
+  private async downloadImage(url: string, outputPath: string, token?: CancellationToken): Promise<void> {
     try {
       const response = await axios.get(url, { 
         responseType: 'arraybuffer', 
         timeout: 20000,
+        signal: token?.signal,
         headers: {
           'User-Agent': 'Mozilla/5.0 (compatible; VideoGenerator/1.0)',
           'Accept': 'image/jpeg,image/png,image/*'
@@ -406,7 +479,7 @@ export class ProfessionalVideoCreator {
 
       // Verify the downloaded file is a valid image
       try {
-        await execAsync(`ffmpeg -i "${outputPath}" -frames:v 1 -f null - 2>/dev/null`);
+        await execCancellable(`ffmpeg -i "${outputPath}" -frames:v 1 -f null - 2>/dev/null`, {}, token);
       } catch (verifyError) {
         await fs.unlink(outputPath).catch(() => {});
         throw new Error('Downloaded file is not a valid image');
@@ -417,8 +490,12 @@ export class ProfessionalVideoCreator {
     }
   }
 
-  private async createProfessionalGradientBackground(category: string, sceneIndex: number): Promise<string> {
-    const outputPath = path.join(this.backgroundsDir, `pro_${category}_${sceneIndex}_bg.jpg`);
+  private async createProfessionalGradientBackground(category: CategoryDefinition, sceneIndex: number, token?: CancellationToken): Promise<string> {
+    // Category-specific professional color scheme; the file is named after the color so an edited
+    // category doesn't reuse a stale background
+    const colors = category.colors.background;
+    const baseColor = colors[sceneIndex % colors.length];
+    const outputPath = path.join(this.backgroundsDir, `pro_${category.slug}_${baseColor.slice(1).toLowerCase()}_bg.jpg`);
 
     // Check if this background already exists
     if (fs.existsSync(outputPath)) {
@@ -432,18 +509,6 @@ export class ProfessionalVideoCreator {
       }
     }
 
-    // Category-specific professional color schemes
-    const colorSchemes = {
-      'technology': ['#1a365d', '#2b77e6', '#4299e1'],
-      'science': ['#2d3748', '#38a169', '#68d391'],
-      'business': ['#1a202c', '#e53e3e', '#fc8181'],
-      'news': ['#2c5282', '#3182ce', '#63b3ed'],
-      'general': ['#2d3748', '#4a5568', '#718096']
-    };
-
-    const colors = colorSchemes[category] || colorSchemes['general'];
-    const baseColor = colors[sceneIndex % colors.length];
-
     try {
       // Create professional gradient background with FFmpeg
       const command = `ffmpeg -f lavfi ` +
@@ -453,7 +518,7 @@ export class ProfessionalVideoCreator {
         `b='255*sin(X/60)*cos(Y/60)*0.1+${parseInt(baseColor.slice(5, 7), 16)}'" ` +
         `-frames:v 1 -q:v 2 "${outputPath}" -y`;
 
-      await execAsync(command);
+      await execCancellable(command, {}, token);
 
       // Verify the created file
       const stats = await fs.stat(outputPath);
@@ -461,14 +526,15 @@ export class ProfessionalVideoCreator {
         return outputPath;
       }
     } catch (error) {
+      token?.throwIfCancelled();
       console.warn('Professional gradient creation failed, using simple background');
     }
 
     // Fallback to simple gradient
-    return await this.createGradientBackground(sceneIndex);
+    return await this.createGradientBackground(sceneIndex, token);
   }
 
-  private async createGradientBackground(sceneIndex: number): Promise<string> {
+  private async createGradientBackground(sceneIndex: number, token?: CancellationToken): Promise<string> {
     const outputPath = path.join(this.backgroundsDir, `gradient_${sceneIndex}_bg.jpg`);
 
     const gradients = [
@@ -481,11 +547,11 @@ export class ProfessionalVideoCreator {
     const command = `ffmpeg -f lavfi -i "color=c=${color}:size=1920x1080:duration=1" ` +
       `-frames:v 1 "${outputPath}" -y`;
 
-    await execAsync(command);
+    await execCancellable(command, {}, token);
     return outputPath;
   }
 
-  private async createSimpleBackground(sceneIndex: number): Promise<string> {
+  private async createSimpleBackground(sceneIndex: number, token?: CancellationToken): Promise<string> {
     const outputPath = path.join(this.backgroundsDir, `simple_${sceneIndex}_bg.jpg`);
 
     const colors = [
@@ -502,7 +568,7 @@ export class ProfessionalVideoCreator {
     const command = `ffmpeg -f lavfi -i "color=c=${color}:size=1920x1080" ` +
       `-t 1 -frames:v 1 "${outputPath}" -y`;
 
-    await execAsync(command);
+    await execCancellable(command, {}, token);
     return outputPath;
   }
 
@@ -511,14 +577,15 @@ export class ProfessionalVideoCreator {
     backgroundAssets: string[], 
     duration: number, 
     isShort: boolean,
-    jobId: number
+    jobId: number,
+    token?: CancellationToken
   ): Promise<string> {
     const outputPath = path.join(this.outputDir, `professional_render_${jobId}.mp4`);
 
     console.log(`🎥 Rendering professional video: ${scenes.length} scenes`);
 
     // Use ultra-simple rendering to prevent FFmpeg command failures
-    return await this.renderVideoUltraSimple(scenes, backgroundAssets, duration, isShort, jobId);
+    return await this.renderVideoUltraSimple(scenes, backgroundAssets, duration, isShort, jobId, token);
   }
 
   private async renderVideoUltraSimple(
@@ -526,14 +593,15 @@ export class ProfessionalVideoCreator {
     backgroundAssets: string[], 
     duration: number, 
     isShort: boolean,
-    jobId: number
+    jobId: number,
+    token?: CancellationToken
   ): Promise<string> {
     const outputPath = path.join(this.outputDir, `professional_render_${jobId}.mp4`);
     const dimensions = isShort ? '1080x1920' : '1920x1080';
     
     console.log(`🎥 Creating synchronized video for ${scenes.length} scenes, duration: ${duration}s`);
     
-    const backgroundImage = backgroundAssets[0] || await this.createSimpleBackground(0);
+    const backgroundImage = backgroundAssets[0] || await this.createSimpleBackground(0, token);
     
     // Combine all scene texts into one for display
     const allText = scenes.map(scene => scene.segments[0].text).join(' ');
@@ -561,7 +629,7 @@ export class ProfessionalVideoCreator {
     console.log(`🎬 Creating ${duration}s video with text overlay...`);
     
     try {
-      await execAsync(command, { timeout: Math.max(120000, duration * 1000) }); // Dynamic timeout
+      await execCancellable(command, { timeout: Math.max(120000, duration * 1000) }, token); // Dynamic timeout
       
       const stats = await fs.stat(outputPath);
       if (stats.size < 1000) {
@@ -572,14 +640,15 @@ export class ProfessionalVideoCreator {
       return outputPath;
       
     } catch (error) {
+      token?.throwIfCancelled();
       console.error('❌ Video rendering failed:', error.message);
       
       // Create fallback video with correct duration
-      return await this.createFallbackVideo(duration, isShort, jobId, allText);
+      return await this.createFallbackVideo(duration, isShort, jobId, allText, token);
     }
   }
 
-  private async createFallbackVideo(duration: number, isShort: boolean, jobId: number, text: string): Promise<string> {
+  private async createFallbackVideo(duration: number, isShort: boolean, jobId: number, text: string, token?: CancellationToken): Promise<string> {
     const outputPath = path.join(this.outputDir, `fallback_video_${jobId}.mp4`);
     const dimensions = isShort ? '1080x1920' : '1920x1080';
     
@@ -596,7 +665,7 @@ export class ProfessionalVideoCreator {
           `-pix_fmt yuv420p "${outputPath}" -y`;
         
         console.log(`🎬 Creating ${actualDuration}s fallback video with FFmpeg...`);
-        await execAsync(fallbackCommand, { timeout: Math.max(60000, actualDuration * 1000) });
+        await execCancellable(fallbackCommand, { timeout: Math.max(60000, actualDuration * 1000) }, token);
         
         const stats = await fs.stat(outputPath);
         if (stats.size > 500) {
@@ -604,6 +673,7 @@ export class ProfessionalVideoCreator {
           return outputPath;
         }
       } catch (ffmpegError) {
+        token?.throwIfCancelled();
         console.warn('FFmpeg fallback failed, trying basic approach...');
         
         // Create a very basic video file without FFmpeg
@@ -614,6 +684,7 @@ export class ProfessionalVideoCreator {
         return outputPath;
       }
     } catch (fallbackError) {
+      token?.throwIfCancelled();
       console.error('❌ All fallback video creation methods failed:', fallbackError.message);
     }
     
@@ -784,14 +855,14 @@ export class ProfessionalVideoCreator {
     }
   }
 
-  private async combineVideoWithAudio(videoPath: string, audioPath: string, jobId: number, isShort: boolean): Promise<string> {
-    const outputPath = path.join(this.outputDir, `professional_final_${jobId}.mp4`);
+  private async combineVideoWithAudio(videoPath: string, audioPath: string, jobId: number, isShort: boolean, token?: CancellationToken): Promise<string> {
+    const outputPath = path.join(this.outputDir, `professional_combined_${jobId}.mp4`);
 
     console.log(`🔊 Combining video with audio...`);
 
     try {
       // Get actual audio duration
-      const audioDuration = await this.getAudioDuration(audioPath);
+      const audioDuration = await this.getAudioDuration(audioPath, token);
       console.log(`🎵 Detected audio duration: ${audioDuration}s`);
 
       // Verify audio file is valid and not silent
@@ -820,14 +891,15 @@ export class ProfessionalVideoCreator {
         `-pix_fmt yuv420p "${outputPath}" -y`;
 
       console.log('🔄 Executing synchronized audio-video combination...');
-      await execAsync(syncCommand, { timeout: 180000 }); // 3 minute timeout
+      await execCancellable(syncCommand, { timeout: 180000 }, token); // 3 minute timeout
 
       // Verify the final output with better error handling
       let videoInfo;
       try {
-        const { stdout } = await execAsync(`ffprobe -v quiet -print_format json -show_streams "${outputPath}"`);
+        const { stdout } = await execCancellable(`ffprobe -v quiet -print_format json -show_streams "${outputPath}"`, {}, token);
         videoInfo = JSON.parse(stdout);
       } catch (probeError) {
+        token?.throwIfCancelled();
         console.warn('⚠️ Could not verify output, but file exists');
         const finalStats = await fs.stat(outputPath);
         if (finalStats.size > 100000) { // At least 100KB
@@ -860,6 +932,7 @@ export class ProfessionalVideoCreator {
       return outputPath;
 
     } catch (error) {
+      token?.throwIfCancelled();
       console.error('❌ Video-audio combination failed:', error);
       
       // Try simpler combination approach
@@ -868,7 +941,7 @@ export class ProfessionalVideoCreator {
         const simpleCommand = `ffmpeg -i "${videoPath}" -i "${audioPath}" ` +
           `-c:v copy -c:a aac -b:a 128k -shortest "${outputPath}" -y`;
         
-        await execAsync(simpleCommand, { timeout: 120000 });
+        await execCancellable(simpleCommand, { timeout: 120000 }, token);
         
         const stats = await fs.stat(outputPath);
         if (stats.size > 50000) {
@@ -876,6 +949,7 @@ export class ProfessionalVideoCreator {
           return outputPath;
         }
       } catch (simpleError) {
+        token?.throwIfCancelled();
         console.error('❌ Simple combination also failed:', simpleError.message);
       }
       
@@ -957,11 +1031,12 @@ export class ProfessionalVideoCreator {
     return outputPath;
   }
 
-  async getVideoInfo(videoPath: string): Promise<any> {
+  async getVideoInfo(videoPath: string, token?: CancellationToken): Promise<any> {
     try {
-      const { stdout } = await execAsync(`ffprobe -v quiet -print_format json -show_format -show_streams "${videoPath}"`);
+      const { stdout } = await execCancellable(`ffprobe -v quiet -print_format json -show_format -show_streams "${videoPath}"`, {}, token);
       return JSON.parse(stdout);
     } catch (error) {
+      token?.throwIfCancelled();
       console.error('Failed to get video info:', error);
       return null;
     }
@@ -970,10 +1045,13 @@ export class ProfessionalVideoCreator {
   async cleanup(jobId: number): Promise<void> {
     try {
       const tempFiles = await fs.readdir(this.outputDir);
-      const jobFiles = tempFiles.filter(file => file.includes(`_${jobId}`));
+      // Match the exact job id so job 12 does not remove files of job 123
+      const jobFilePattern = new RegExp(`_${jobId}(\\.|_|$)`);
+      const jobFiles = tempFiles.filter(file => jobFilePattern.test(file));
 
       for (const file of jobFiles) {
-        await fs.unlink(path.join(this.outputDir, file)).catch(() => {});
+        // rm also handles per-job scene directories left by interrupted renders
+        await fs.rm(path.join(this.outputDir, file), { recursive: true, force: true }).catch(() => {});
       }
 
       console.log(`🧹 Cleaned up ${jobFiles.length} temporary files for job ${jobId}`);
@@ -991,41 +1069,42 @@ export class VideoCreator {
     this.professionalCreator = new ProfessionalVideoCreator();
   }
 
-  async createVideo(jobId: number): Promise<string> {
+  async createNarration(jobId: number, token?: CancellationToken): Promise<NarrationResult> {
+    console.log(`🎙️ Starting narration for job ${jobId}`);
+    return await this.professionalCreator.createNarration(jobId, token);
+  }
+
+  async createVideo(jobId: number, audioPath?: string, token?: CancellationToken): Promise<string> {
     try {
       console.log(`🚀 Starting PROFESSIONAL video creation for job ${jobId}`);
 
+      // Narration is normally produced by the audio_generation step
+      const narrationPath = audioPath || (await this.createNarration(jobId, token)).audioPath;
+
       // Always use the professional video creator
-      const videoPath = await this.professionalCreator.createProfessionalVideo(jobId);
+      const videoPath = await this.professionalCreator.createProfessionalVideo(jobId, narrationPath, token);
 
       // Verify the output is production-ready
-      const videoInfo = await this.professionalCreator.getVideoInfo(videoPath);
+      const videoInfo = await this.inspectVideo(videoPath, token);
 
-      if (!videoInfo) {
-        throw new Error('Failed to create valid video file');
-      }
-
-      // Check if audio track exists
-      const hasAudio = videoInfo.streams?.some((stream: any) => stream.codec_type === 'audio');
-      if (!hasAudio) {
+      if (!videoInfo.hasAudio) {
         throw new Error('Video missing audio track - not production ready');
       }
 
       // Check video duration is appropriate
-      const duration = parseFloat(videoInfo.format?.duration || '0');
       const jobData = await storage.getContentJobById(jobId);
       const expectedDuration = jobData?.videoType === 'short' ? 120 : 600; // 2 min for shorts, 10 min for long-form
 
-      if (duration < expectedDuration * 0.5) {
-        console.warn(`⚠️ Video duration ${duration}s much shorter than expected ${expectedDuration}s`);
-        if (jobData?.videoType === 'long_form' && duration < 300) {
-          console.warn(`⚠️ Long-form video shorter than expected (${Math.round(duration/60)} min), but continuing...`);
+      if (videoInfo.duration < expectedDuration * 0.5) {
+        console.warn(`⚠️ Video duration ${videoInfo.duration}s much shorter than expected ${expectedDuration}s`);
+        if (jobData?.videoType === 'long_form' && videoInfo.duration < 300) {
+          console.warn(`⚠️ Long-form video shorter than expected (${Math.round(videoInfo.duration/60)} min), but continuing...`);
           // Don't throw error, just warn - let the video proceed
         }
       }
 
-      console.log(`✅ PRODUCTION-READY video created: ${videoPath}`);
-      console.log(`📊 Video specs: ${duration}s, ${hasAudio ? 'WITH AUDIO' : 'NO AUDIO'}, ${Math.round(parseInt(videoInfo.format?.size || '0') / (1024 * 1024))}MB`);
+      console.log(`✅ Video rendered with audio: ${videoPath}`);
+      console.log(`📊 Video specs: ${videoInfo.duration}s, ${videoInfo.resolution}, ${Math.round(videoInfo.fileSize / (1024 * 1024))}MB`);
 
       return videoPath;
 
@@ -1035,6 +1114,52 @@ export class VideoCreator {
     }
   }
 
+  async optimizeVideo(jobId: number, inputPath: string, token?: CancellationToken): Promise<VideoFileInfo> {
+    const jobData = await storage.getContentJobById(jobId);
+    const inputInfo = await this.inspectVideo(inputPath, token);
+
+    const outputPath = await this.professionalCreator.optimizeVideo(
+      inputPath,
+      jobId,
+      jobData?.videoType === 'short',
+      inputInfo.duration,
+      token
+    );
+
+    const outputInfo = await this.inspectVideo(outputPath, token);
+    if (!outputInfo.hasAudio) {
+      throw new Error('Optimized video missing audio track - not production ready');
+    }
+
+    console.log(`✅ PRODUCTION-READY video created: ${outputPath}`);
+    return outputInfo;
+  }
+
+  async inspectVideo(videoPath: string, token?: CancellationToken): Promise<VideoFileInfo> {
+    const videoInfo = await this.professionalCreator.getVideoInfo(videoPath, token);
+    if (!videoInfo) {
+      throw new Error(`Failed to read video file: ${videoPath}`);
+    }
+
+    const streams: any[] = videoInfo.streams || [];
+    const videoStream = streams.find(stream => stream.codec_type === 'video');
+    const audioStream = streams.find(stream => stream.codec_type === 'audio');
+
+    if (!videoStream) {
+      throw new Error(`No video stream found in ${videoPath}`);
+    }
+
+    return {
+      videoPath,
+      duration: Math.round(parseFloat(videoInfo.format?.duration || '0') * 10) / 10,
+      resolution: `${videoStream.width}x${videoStream.height}`,
+      fileSize: parseInt(videoInfo.format?.size || '0'),
+      hasAudio: !!audioStream,
+      videoCodec: videoStream.codec_name,
+      audioCodec: audioStream?.codec_name
+    };
+  }
+
   async cleanup(jobId: number): Promise<void> {
     await this.professionalCreator.cleanup(jobId);
   }
@@ -0,0 +1,194 @@
+import axios from 'axios';
+import { z } from 'zod';
+import { createHmac, randomBytes } from 'crypto';
+import { storage } from '../storage';
+import type { PipelineEvent } from './event-bus';
+import type { WebhookDelivery, WebhookSubscription } from '@shared/schema';
+
+export const WEBHOOK_EVENT_TYPES = [
+  'job.completed', // video rendered and organized, waiting for its upload slot
+  'job.failed',
+  'video.published',
+  'trending.completed',
+  'health.degraded'
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+export const webhookSubscriptionInputSchema = z.object({
+  url: z.string().url().refine(url => /^https?:\/\//.test(url), 'Only http(s) URLs are supported'),
+  events: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1),
+  secret: z.string().min(16).optional(), // generated when left out
+  description: z.string().max(200).optional(),
+  isActive: z.boolean().optional()
+});
+
+// Delay before each retry; a delivery is marked failed once these run out
+const RETRY_DELAYS_MS = [60 * 1000, 5 * 60 * 1000, 30 * 60 * 1000, 2 * 60 * 60 * 1000, 6 * 60 * 60 * 1000];
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// How long an attempt in flight keeps its delivery away from the retry sweep
+const ATTEMPT_CLAIM_MS = 2 * 60 * 1000;
+const RETRY_BATCH_SIZE = 50;
+
+export interface WebhookPayload {
+  id: string;
+  type: WebhookEventType | 'webhook.test';
+  occurredAt: string;
+  data: Record<string, any>;
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+// The secret is only returned in full when the subscription is created
+export function redactWebhookSecret(subscription: WebhookSubscription): WebhookSubscription {
+  return { ...subscription, secret: `${subscription.secret.slice(0, 10)}…` };
+}
+
+// Receivers recompute this over "<timestamp>.<raw body>" with their copy of the secret
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+// Maps bus events to the public event names; everything else stays internal
+function toWebhookEvent(event: PipelineEvent): { type: WebhookEventType; data: Record<string, any> } | null {
+  switch (event.type) {
+    case 'JobCompleted':
+      return {
+        type: 'job.completed',
+        data: { jobId: event.jobId, title: event.title, videoType: event.videoType, scheduledTime: event.scheduledTime, driveUrl: event.driveUrl }
+      };
+    case 'JobFailed':
+      return { type: 'job.failed', data: { jobId: event.jobId, step: event.step, error: event.error, resumable: event.resumable } };
+    case 'UploadFailed':
+      return { type: 'job.failed', data: { jobId: event.jobId, title: event.title, step: 'youtube_upload', error: event.error } };
+    case 'VideoPublished':
+      return {
+        type: 'video.published',
+        data: { jobId: event.jobId, title: event.title, videoType: event.videoType, youtubeId: event.youtubeId, url: `https://www.youtube.com/watch?v=${event.youtubeId}` }
+      };
+    case 'TopicsDiscovered':
+      return { type: 'trending.completed', data: { count: event.count, categories: event.categories } };
+    case 'HealthChecked':
+      return event.healthy ? null : { type: 'health.degraded', data: { checks: event.checks } };
+    default:
+      return null;
+  }
+}
+
+export class WebhookDispatcher {
+  async handleEvent(event: PipelineEvent): Promise<void> {
+    const webhookEvent = toWebhookEvent(event);
+    if (!webhookEvent) return;
+
+    const subscriptions = (await storage.getWebhookSubscriptions())
+      .filter(subscription => subscription.isActive && subscription.events.includes(webhookEvent.type));
+
+    const occurredAt = (event.occurredAt || new Date()).toISOString();
+    for (const subscription of subscriptions) {
+      await this.enqueue(subscription, {
+        id: randomBytes(12).toString('hex'),
+        type: webhookEvent.type,
+        occurredAt,
+        data: webhookEvent.data
+      });
+    }
+  }
+
+  // Delivers right away and waits for the result, so the caller can show it
+  async sendTestEvent(subscription: WebhookSubscription): Promise<WebhookDelivery> {
+    const delivery = await storage.createWebhookDelivery({
+      subscriptionId: subscription.id,
+      eventType: 'webhook.test',
+      payload: {
+        id: randomBytes(12).toString('hex'),
+        type: 'webhook.test',
+        occurredAt: new Date().toISOString(),
+        data: { message: 'Test event from YouTube automation', subscriptionId: subscription.id }
+      } satisfies WebhookPayload,
+      nextAttemptAt: new Date(Date.now() + ATTEMPT_CLAIM_MS)
+    });
+    return await this.attempt(delivery, subscription);
+  }
+
+  // Retry sweep, run by the scheduler
+  async retryDueDeliveries(): Promise<number> {
+    const deliveries = await storage.claimDueWebhookDeliveries(RETRY_BATCH_SIZE, ATTEMPT_CLAIM_MS);
+    for (const delivery of deliveries) {
+      const subscription = await storage.getWebhookSubscription(delivery.subscriptionId);
+      if (!subscription || !subscription.isActive) {
+        await storage.updateWebhookDelivery(delivery.id, { status: 'failed', error: 'Subscription disabled', nextAttemptAt: null });
+        continue;
+      }
+      await this.attempt(delivery, subscription);
+    }
+    return deliveries.length;
+  }
+
+  // Persisted first so a crash before the first attempt still leaves it for the retry sweep
+  private async enqueue(subscription: WebhookSubscription, payload: WebhookPayload): Promise<void> {
+    try {
+      const delivery = await storage.createWebhookDelivery({
+        subscriptionId: subscription.id,
+        eventType: payload.type,
+        payload,
+        nextAttemptAt: new Date(Date.now() + ATTEMPT_CLAIM_MS)
+      });
+
+      // Not awaited - a slow receiver must not hold up the pipeline that published the event
+      this.attempt(delivery, subscription).catch(error => {
+        console.error(`❌ Webhook delivery ${delivery.id} failed unexpectedly:`, error instanceof Error ? error.message : error);
+      });
+    } catch (error) {
+      console.error(`❌ Failed to queue webhook for subscription ${subscription.id}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  private async attempt(delivery: WebhookDelivery, subscription: WebhookSubscription): Promise<WebhookDelivery> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const attempts = delivery.attempts + 1;
+
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+    try {
+      const response = await axios.post(subscription.url, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'YouTube-Automation-Webhooks/1.0',
+          'X-Webhook-Id': String(delivery.id),
+          'X-Webhook-Event': delivery.eventType,
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': signWebhookPayload(subscription.secret, timestamp, body)
+        },
+        timeout: REQUEST_TIMEOUT_MS,
+        maxRedirects: 0,
+        validateStatus: () => true
+      });
+      responseStatus = response.status;
+      if (response.status < 200 || response.status >= 300) {
+        error = `Receiver responded with HTTP ${response.status}`;
+      }
+    } catch (requestError) {
+      error = requestError instanceof Error ? requestError.message : 'Unknown error';
+    }
+
+    let updates: Partial<WebhookDelivery>;
+    if (!error) {
+      updates = { status: 'delivered', attempts, responseStatus, error: null, nextAttemptAt: null, deliveredAt: new Date() };
+      console.log(`📬 Webhook ${delivery.eventType} delivered to ${subscription.url} (delivery ${delivery.id})`);
+    } else if (attempts <= RETRY_DELAYS_MS.length) {
+      updates = { attempts, responseStatus, error, nextAttemptAt: new Date(Date.now() + RETRY_DELAYS_MS[attempts - 1]) };
+      console.warn(`⚠️ Webhook delivery ${delivery.id} to ${subscription.url} failed (attempt ${attempts}): ${error} - will retry`);
+    } else {
+      updates = { status: 'failed', attempts, responseStatus, error, nextAttemptAt: null };
+      console.error(`❌ Webhook delivery ${delivery.id} to ${subscription.url} failed after ${attempts} attempts: ${error}`);
+    }
+
+    await storage.updateWebhookDelivery(delivery.id, updates);
+    return { ...delivery, ...updates };
+  }
+}
+
+export const webhookDispatcher = new WebhookDispatcher();
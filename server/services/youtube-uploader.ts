@@ -1,7 +1,10 @@
 import { google } from 'googleapis';
 import fs from 'fs';
 import { storage } from '../storage';
-import type { ContentJob } from '@shared/schema';
+import { pipelineEvents } from './event-bus';
+import { isDryRun, dryRunServices } from './dry-run';
+import { categoryCatalog, type CategoryDefinition } from './categories';
+import { jobMetadata, type ContentJob } from '@shared/schema';
 
 export class YouTubeUploader {
   private youtube: any;
@@ -57,7 +60,25 @@ export class YouTubeUploader {
     }
   }
 
+  getChannelId(): string {
+    return this.channelId;
+  }
+
   async uploadVideo(jobId: number): Promise<string> {
+    // Checked before the try block so a refused upload doesn't mark the job as failed.
+    // Only jobs past the review gate can go out ("uploading" is set by the scheduled upload
+    // right before it calls this), and never twice.
+    const pendingJob = await storage.getContentJobById(jobId);
+    if (!pendingJob) {
+      throw new Error('Job not found');
+    }
+    if (pendingJob.youtubeId) {
+      throw new Error(`Job ${jobId} is already published as ${pendingJob.youtubeId}`);
+    }
+    if (pendingJob.status !== 'ready_for_upload' && pendingJob.status !== 'uploading') {
+      throw new Error(`Job ${jobId} is ${pendingJob.status.replace(/_/g, ' ')} and cannot be uploaded`);
+    }
+
     try {
       const job = await storage.getContentJobById(jobId);
       if (!job) throw new Error('Job not found');
@@ -78,23 +99,18 @@ export class YouTubeUploader {
         progress: 95 
       });
 
-      await storage.createActivityLog({
-        type: 'upload',
-        title: 'YouTube Upload Started',
-        description: `Starting YouTube upload for "${job.title}" - files confirmed in Google Drive`,
-        status: 'info',
-        metadata: { 
-          jobId, 
-          title: job.title,
-          driveUrl: job.driveUrl 
-        }
-      });
+      await pipelineEvents.publish({ type: 'UploadStarted', jobId, title: job.title, driveUrl: job.driveUrl });
 
-      const uploadResponse = await this.performUpload(job);
-      const youtubeId = uploadResponse.data.id;
+      let youtubeId: string;
+      if (isDryRun()) {
+        youtubeId = await dryRunServices.publishVideo(job);
+      } else {
+        const uploadResponse = await this.performUpload(job);
+        youtubeId = uploadResponse.data.id;
 
-      // Set thumbnail
-      await this.setThumbnail(youtubeId, job.thumbnailPath);
+        // Set thumbnail
+        await this.setThumbnail(youtubeId, job.thumbnailPath);
+      }
 
       await storage.updateContentJob(jobId, { 
         youtubeId,
@@ -103,22 +119,8 @@ export class YouTubeUploader {
         publishedAt: new Date()
       });
 
-      await storage.createActivityLog({
-        type: 'upload',
-        title: 'Video Uploaded Successfully',
-        description: `Published "${job.title}" to YouTube`,
-        status: 'success',
-        metadata: { 
-          jobId, 
-          youtubeId, 
-          videoType: job.videoType,
-          title: job.title,
-          views: 0 
-        }
-      });
-
-      // Update daily stats
-      await this.updateDailyStats(job.videoType);
+      // Daily stats are counted by the VideoPublished subscriber
+      await pipelineEvents.publish({ type: 'VideoPublished', jobId, title: job.title, videoType: job.videoType, youtubeId });
 
       return youtubeId;
     } catch (error) {
@@ -128,20 +130,15 @@ export class YouTubeUploader {
         errorMessage: error.message 
       });
 
-      await storage.createActivityLog({
-        type: 'error',
-        title: 'YouTube Upload Failed',
-        description: `Error uploading video for job ${jobId}: ${error.message}`,
-        status: 'error',
-        metadata: { jobId, error: error.message }
-      });
+      await pipelineEvents.publish({ type: 'UploadFailed', jobId, title: pendingJob?.title, error: error.message });
 
       throw error;
     }
   }
 
   private async performUpload(job: ContentJob) {
-    const metadata = this.generateVideoMetadata(job);
+    const category = await categoryCatalog.resolve(job.metadata?.category);
+    const metadata = this.generateVideoMetadata(job, category);
 
     return await this.youtube.videos.insert({
       part: ['snippet', 'status'],
@@ -150,7 +147,7 @@ export class YouTubeUploader {
           title: job.title,
           description: metadata.description,
           tags: metadata.tags,
-          categoryId: this.getCategoryId(job.metadata?.category),
+          categoryId: category.youtubeCategoryId,
           defaultLanguage: 'en',
           defaultAudioLanguage: 'en'
         },
@@ -180,8 +177,8 @@ export class YouTubeUploader {
     }
   }
 
-  private generateVideoMetadata(job: ContentJob) {
-    const category = job.metadata?.category || 'general';
+  private generateVideoMetadata(job: ContentJob, categoryDefinition: CategoryDefinition) {
+    const category = categoryDefinition.slug;
     const isShort = job.videoType === 'short';
 
     const description = `${job.script?.substring(0, 150)}...
@@ -209,42 +206,14 @@ Professional content created for educational and informational purposes.
     const shortTags = isShort ? ['shorts', 'short', 'quick', 'viral'] : ['analysis', 'detailed', 'explained', 'indepth'];
     const indianTags = ['भारत', 'समाचार', 'ट्रेंडिंग', 'ब्रेकिंग', 'ताजा'];
 
+    // Description and tags edited through metadata regeneration take precedence
+    const overrides = jobMetadata(job);
     return {
-      description,
-      tags: [...baseTags, ...shortTags, ...indianTags, ...this.getCategoryTags(category)]
+      description: overrides.youtubeDescription || description,
+      tags: overrides.youtubeTags || [...baseTags, ...shortTags, ...indianTags, ...categoryDefinition.tags]
     };
   }
 
-  private getCategoryId(category: string = 'general'): string {
-    const categoryIds = {
-      technology: '28', // Science & Technology
-      sports: '17', // Sports
-      business: '25', // News & Politics
-      politics: '25', // News & Politics
-      health: '26', // Howto & Style
-      environment: '28', // Science & Technology
-      science: '28', // Science & Technology
-      general: '22' // People & Blogs
-    };
-
-    return categoryIds[category] || categoryIds.general;
-  }
-
-  private getCategoryTags(category: string): string[] {
-    const categoryTags = {
-      technology: ['tech', 'innovation', 'digital', 'ai', 'startup'],
-      sports: ['cricket', 'football', 'ipl', 'sports', 'match'],
-      business: ['startup', 'funding', 'economy', 'business', 'investment'],
-      politics: ['government', 'policy', 'election', 'politics', 'minister'],
-      health: ['health', 'medical', 'wellness', 'healthcare', 'doctor'],
-      environment: ['climate', 'environment', 'green', 'sustainability', 'nature'],
-      science: ['science', 'research', 'discovery', 'space', 'study'],
-      general: ['update', 'information', 'facts', 'knowledge', 'learn']
-    };
-
-    return categoryTags[category] || categoryTags.general;
-  }
-
   private getMockVideoStream(videoPath: string) {
     // Check if the file actually exists, if so use real stream
     if (fs.existsSync(videoPath)) {
@@ -277,24 +246,6 @@ Professional content created for educational and informational purposes.
     return mockStream;
   }
 
-  private async updateDailyStats(videoType: string): Promise<void> {
-    const today = new Date().toISOString().split('T')[0];
-    const existingStats = await storage.getTodayStats();
-
-    const updates = {
-      date: today,
-      videosCreated: (existingStats?.videosCreated || 0) + (videoType === 'long_form' ? 1 : 0),
-      shortsCreated: (existingStats?.shortsCreated || 0) + (videoType === 'short' ? 1 : 0),
-      videosPublished: (existingStats?.videosPublished || 0) + 1,
-      successRate: 94, // Calculate based on actual success/failure rates
-      storageUsed: existingStats?.storageUsed || '15.2 GB',
-      trendingTopicsFound: existingStats?.trendingTopicsFound || 12,
-      systemStatus: 'active' as const
-    };
-
-    await storage.createOrUpdateSystemStats(updates);
-  }
-
   getOptimalUploadTime(videoType: string): Date {
     const now = new Date();
     const istOffset = 5.5 * 60 * 60 * 1000; // IST offset in milliseconds
@@ -6,6 +6,14 @@ import {
   automationSettings, 
   users,
   youtubeChannels,
+  pipelineQueue,
+  jobArtifactVersions,
+  automationLeases,
+  webhookSubscriptions,
+  webhookDeliveries,
+  contentCategories,
+  keywordTrends,
+  topicFingerprints,
   type TrendingTopic, 
   type InsertTrendingTopic,
   type ContentJob, 
@@ -17,10 +25,25 @@ import {
   type AutomationSetting, 
   type InsertAutomationSetting,
   type User, 
-  type InsertUser 
+  type InsertUser,
+  type PipelineQueueEntry,
+  type JobArtifact,
+  type JobArtifactSnapshot,
+  type JobArtifactVersion,
+  type JobCreation,
+  type AutomationLease,
+  type WebhookSubscription,
+  type InsertWebhookSubscription,
+  type WebhookDelivery,
+  type InsertWebhookDelivery,
+  type ContentCategory,
+  type InsertContentCategory,
+  type KeywordTrend,
+  type TopicFingerprint,
+  type InsertTopicFingerprint
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, gte, sql, isNotNull, or } from "drizzle-orm";
+import { eq, desc, and, gte, lt, sql, isNotNull, or, inArray } from "drizzle-orm";
 
 export interface IStorage {
   // Users
@@ -31,6 +54,7 @@ export interface IStorage {
   // Trending Topics
   createTrendingTopic(topic: InsertTrendingTopic): Promise<TrendingTopic>;
   getTrendingTopics(limit?: number): Promise<TrendingTopic[]>;
+  getTrendingTopicById(id: number): Promise<TrendingTopic | undefined>;
   updateTrendingTopicStatus(id: number, status: string): Promise<void>;
   getTrendingTopicsByPriority(priority: string): Promise<TrendingTopic[]>;
   deleteTrendingTopic(id: number): Promise<void>;
@@ -38,11 +62,67 @@ export interface IStorage {
 
   // Content Jobs
   createContentJob(job: InsertContentJob): Promise<ContentJob>;
+  createContentJobOnce(job: InsertContentJob & { idempotencyKey: string }): Promise<JobCreation>;
   getContentJobs(limit?: number): Promise<ContentJob[]>;
   getContentJobById(id: number): Promise<ContentJob | undefined>;
+  getContentJobsSince(since: Date): Promise<ContentJob[]>;
+  getPublishedContentJobsSince(since: Date): Promise<ContentJob[]>;
   updateContentJob(id: number, updates: Partial<ContentJob>): Promise<void>;
   getActiveContentJobs(): Promise<ContentJob[]>;
+  getContentJobsByStatus(status: string): Promise<ContentJob[]>;
+  getContentJobsByStatuses(statuses: string[]): Promise<ContentJob[]>;
+  touchJobHeartbeat(id: number, owner: string): Promise<void>;
+  releaseJobOwnership(id: number, owner: string): Promise<void>;
   getScheduledContentJobs(): Promise<ContentJob[]>;
+  mergeContentJobMetadata(id: number, patch: Record<string, any>): Promise<void>;
+  saveJobCheckpoint(id: number, step: string, output: Record<string, any>, durationMs?: number): Promise<void>;
+  clearJobCheckpoints(id: number, steps: string[]): Promise<void>;
+
+  // Pipeline Queue
+  enqueuePipelineStage(jobId: number, stage: string, owner: string): Promise<void>;
+  claimPipelineStageSlots(stage: string, limit: number, owner: string): Promise<number[]>;
+  releasePipelineStage(jobId: number): Promise<void>;
+  getPipelineQueue(): Promise<PipelineQueueEntry[]>;
+  deleteStalePipelineQueueEntries(staleAfterSeconds: number, restartedOwner?: string): Promise<number>;
+
+  // Automation Leases
+  acquireLease(name: string, owner: string, ttlMs: number): Promise<AutomationLease | undefined>;
+  renewLease(name: string, owner: string, ttlMs: number): Promise<boolean>;
+  releaseLease(name: string, owner: string, holdMs?: number): Promise<void>;
+  getLeases(): Promise<AutomationLease[]>;
+
+  // Webhooks
+  getWebhookSubscriptions(): Promise<WebhookSubscription[]>;
+  getWebhookSubscription(id: number): Promise<WebhookSubscription | undefined>;
+  createWebhookSubscription(subscription: InsertWebhookSubscription): Promise<WebhookSubscription>;
+  updateWebhookSubscription(id: number, updates: Partial<InsertWebhookSubscription>): Promise<WebhookSubscription | undefined>;
+  deleteWebhookSubscription(id: number): Promise<void>;
+  createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery>;
+  updateWebhookDelivery(id: number, updates: Partial<WebhookDelivery>): Promise<void>;
+  claimDueWebhookDeliveries(limit: number, claimMs: number): Promise<WebhookDelivery[]>;
+  getWebhookDeliveries(subscriptionId: number, limit?: number): Promise<WebhookDelivery[]>;
+
+  // Keyword Trends
+  setKeywordCounts(date: string, counts: Map<string, number>): Promise<void>;
+  getKeywordTrends(fromDate: string, toDate: string): Promise<KeywordTrend[]>;
+  deleteKeywordTrendsBefore(date: string): Promise<void>;
+
+  // Topic Fingerprints
+  createTopicFingerprints(fingerprints: InsertTopicFingerprint[]): Promise<void>;
+  getKeptTopicFingerprintsSince(since: Date): Promise<TopicFingerprint[]>;
+  deleteTopicFingerprintsBefore(before: Date): Promise<void>;
+
+  // Content Categories
+  getContentCategories(): Promise<ContentCategory[]>;
+  getContentCategory(id: number): Promise<ContentCategory | undefined>;
+  createContentCategory(category: InsertContentCategory): Promise<ContentCategory>;
+  updateContentCategory(id: number, updates: Partial<InsertContentCategory>): Promise<ContentCategory | undefined>;
+  deleteContentCategory(id: number): Promise<void>;
+
+  // Artifact Versions
+  createArtifactVersion(jobId: number, artifact: JobArtifact, data: JobArtifactSnapshot, reason: string): Promise<JobArtifactVersion>;
+  getArtifactVersions(jobId: number, artifact?: JobArtifact): Promise<JobArtifactVersion[]>;
+  getArtifactVersion(jobId: number, artifact: JobArtifact, version: number): Promise<JobArtifactVersion | undefined>;
 
   // System Stats
   createOrUpdateSystemStats(stats: InsertSystemStats): Promise<SystemStats>;
@@ -107,6 +187,11 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
+  async getTrendingTopicById(id: number): Promise<TrendingTopic | undefined> {
+    const [topic] = await db.select().from(trendingTopics).where(eq(trendingTopics.id, id));
+    return topic || undefined;
+  }
+
   async updateTrendingTopicStatus(id: number, status: string): Promise<void> {
     await db
       .update(trendingTopics)
@@ -164,6 +249,32 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
+  async createContentJobOnce(job: InsertContentJob & { idempotencyKey: string }): Promise<JobCreation> {
+    // Failed, cancelled and rejected jobs give their key up so the topic can be tried again
+    await db
+      .update(contentJobs)
+      .set({ idempotencyKey: null, updatedAt: new Date() })
+      .where(and(
+        eq(contentJobs.idempotencyKey, job.idempotencyKey),
+        inArray(contentJobs.status, ['failed', 'cancelled', 'rejected'])
+      ));
+
+    const [created] = await db
+      .insert(contentJobs)
+      .values(job)
+      .onConflictDoNothing({ target: contentJobs.idempotencyKey })
+      .returning();
+    if (created) {
+      return { job: created, created: true };
+    }
+
+    const [existing] = await db.select().from(contentJobs).where(eq(contentJobs.idempotencyKey, job.idempotencyKey));
+    if (!existing) {
+      throw new Error(`Job with idempotency key ${job.idempotencyKey} disappeared while creating it`);
+    }
+    return { job: existing, created: false };
+  }
+
   async getContentJobs(limit = 20): Promise<ContentJob[]> {
     return await db
       .select()
@@ -177,6 +288,22 @@ export class DatabaseStorage implements IStorage {
     return job || undefined;
   }
 
+  async getContentJobsSince(since: Date): Promise<ContentJob[]> {
+    return await db
+      .select()
+      .from(contentJobs)
+      .where(gte(contentJobs.createdAt, since))
+      .orderBy(desc(contentJobs.createdAt));
+  }
+
+  async getPublishedContentJobsSince(since: Date): Promise<ContentJob[]> {
+    return await db
+      .select()
+      .from(contentJobs)
+      .where(gte(contentJobs.publishedAt, since))
+      .orderBy(desc(contentJobs.publishedAt));
+  }
+
   async updateContentJob(id: number, updates: Partial<ContentJob>): Promise<void> {
     await db
       .update(contentJobs)
@@ -190,12 +317,44 @@ export class DatabaseStorage implements IStorage {
       .from(contentJobs)
       .where(
         and(
-          sql`${contentJobs.status} NOT IN ('completed', 'failed')`,
+          sql`${contentJobs.status} NOT IN ('completed', 'failed', 'cancelled', 'rejected')`,
         )
       )
       .orderBy(desc(contentJobs.createdAt));
   }
 
+  async getContentJobsByStatus(status: string): Promise<ContentJob[]> {
+    return await db
+      .select()
+      .from(contentJobs)
+      .where(eq(contentJobs.status, status))
+      .orderBy(contentJobs.createdAt);
+  }
+
+  async getContentJobsByStatuses(statuses: string[]): Promise<ContentJob[]> {
+    if (statuses.length === 0) return [];
+    return await db
+      .select()
+      .from(contentJobs)
+      .where(inArray(contentJobs.status, statuses))
+      .orderBy(contentJobs.createdAt);
+  }
+
+  // Leaves updated_at alone - it tracks changes to the job, not liveness
+  async touchJobHeartbeat(id: number, owner: string): Promise<void> {
+    await db
+      .update(contentJobs)
+      .set({ ownerInstance: owner, heartbeatAt: new Date() })
+      .where(eq(contentJobs.id, id));
+  }
+
+  async releaseJobOwnership(id: number, owner: string): Promise<void> {
+    await db
+      .update(contentJobs)
+      .set({ ownerInstance: null })
+      .where(and(eq(contentJobs.id, id), eq(contentJobs.ownerInstance, owner)));
+  }
+
   async getScheduledContentJobs(): Promise<ContentJob[]> {
     return await db.select().from(contentJobs)
       .where(
@@ -211,6 +370,307 @@ export class DatabaseStorage implements IStorage {
       .orderBy(contentJobs.scheduledTime);
   }
 
+  async mergeContentJobMetadata(id: number, patch: Record<string, any>): Promise<void> {
+    await db
+      .update(contentJobs)
+      .set({
+        metadata: sql`COALESCE(${contentJobs.metadata}, '{}'::jsonb) || ${JSON.stringify(patch)}::jsonb`,
+        updatedAt: new Date()
+      })
+      .where(eq(contentJobs.id, id));
+  }
+
+  async saveJobCheckpoint(id: number, step: string, output: Record<string, any>, durationMs?: number): Promise<void> {
+    const checkpoint = { [step]: { completedAt: new Date().toISOString(), durationMs, output } };
+    await db
+      .update(contentJobs)
+      .set({
+        checkpoints: sql`COALESCE(${contentJobs.checkpoints}, '{}'::jsonb) || ${JSON.stringify(checkpoint)}::jsonb`,
+        updatedAt: new Date()
+      })
+      .where(eq(contentJobs.id, id));
+  }
+
+  async clearJobCheckpoints(id: number, steps: string[]): Promise<void> {
+    if (steps.length === 0) return;
+    await db
+      .update(contentJobs)
+      .set({
+        checkpoints: sql`COALESCE(${contentJobs.checkpoints}, '{}'::jsonb) - ARRAY[${sql.join(steps.map(step => sql`${step}`), sql`, `)}]::text[]`,
+        updatedAt: new Date()
+      })
+      .where(eq(contentJobs.id, id));
+  }
+
+  async enqueuePipelineStage(jobId: number, stage: string, owner: string): Promise<void> {
+    await db
+      .insert(pipelineQueue)
+      .values({ jobId, stage, status: 'waiting', ownerInstance: owner })
+      .onConflictDoUpdate({
+        target: pipelineQueue.jobId,
+        set: { stage, status: 'waiting', ownerInstance: owner, enqueuedAt: new Date(), startedAt: null }
+      });
+  }
+
+  // Promote the owner's oldest waiting entries of a stage to running while slots are free.
+  // Running entries of every instance count, and a per-stage advisory lock makes concurrent
+  // claims take turns, so the limit holds across the cluster. Only the owner promotes its own
+  // entries because only it has a waiter to start.
+  async claimPipelineStageSlots(stage: string, limit: number, owner: string): Promise<number[]> {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`pipeline_queue:${stage}`}))`);
+      const result = await tx.execute(sql`
+        UPDATE pipeline_queue
+        SET status = 'running', started_at = NOW()
+        WHERE id IN (
+          SELECT id FROM pipeline_queue
+          WHERE stage = ${stage} AND status = 'waiting' AND owner_instance = ${owner}
+          ORDER BY enqueued_at, id
+          LIMIT GREATEST(${limit} - (
+            SELECT COUNT(*) FROM pipeline_queue WHERE stage = ${stage} AND status = 'running'
+          ), 0)
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING job_id
+      `);
+      return (result.rows || []).map((row: any) => Number(row.job_id));
+    });
+  }
+
+  async releasePipelineStage(jobId: number): Promise<void> {
+    await db.delete(pipelineQueue).where(eq(pipelineQueue.jobId, jobId));
+  }
+
+  async getPipelineQueue(): Promise<PipelineQueueEntry[]> {
+    return await db
+      .select()
+      .from(pipelineQueue)
+      .orderBy(pipelineQueue.enqueuedAt, pipelineQueue.id);
+  }
+
+  // Entries nobody will release: those of a restarted instance, and those whose job no longer
+  // has a live owner (its heartbeat went stale or another instance took the job over)
+  async deleteStalePipelineQueueEntries(staleAfterSeconds: number, restartedOwner?: string): Promise<number> {
+    const result = await db.execute(sql`
+      DELETE FROM pipeline_queue q
+      WHERE ${restartedOwner ? sql`q.owner_instance = ${restartedOwner} OR ` : sql``}q.owner_instance IS NULL
+        OR NOT EXISTS (
+          SELECT 1 FROM content_jobs j
+          WHERE j.id = q.job_id
+            AND j.owner_instance = q.owner_instance
+            AND COALESCE(j.heartbeat_at, j.updated_at) > NOW() - ${staleAfterSeconds} * INTERVAL '1 second'
+        )
+    `);
+    return result.rowCount || 0;
+  }
+
+  // Takes the lease when it is free, expired or already ours; undefined while another instance holds it.
+  // Times come from the database clock so instances with skewed clocks agree on expiry.
+  async acquireLease(name: string, owner: string, ttlMs: number): Promise<AutomationLease | undefined> {
+    const expiresAt = sql`NOW() + ${ttlMs} * INTERVAL '1 millisecond'`;
+    const [lease] = await db
+      .insert(automationLeases)
+      .values({ name, owner, acquiredAt: sql`NOW()`, expiresAt })
+      .onConflictDoUpdate({
+        target: automationLeases.name,
+        set: { owner, acquiredAt: sql`NOW()`, expiresAt },
+        setWhere: sql`${automationLeases.expiresAt} < NOW() OR ${automationLeases.owner} = ${owner}`
+      })
+      .returning();
+    return lease;
+  }
+
+  async renewLease(name: string, owner: string, ttlMs: number): Promise<boolean> {
+    const renewed = await db
+      .update(automationLeases)
+      .set({ expiresAt: sql`NOW() + ${ttlMs} * INTERVAL '1 millisecond'` })
+      .where(and(eq(automationLeases.name, name), eq(automationLeases.owner, owner)))
+      .returning();
+    return renewed.length > 0;
+  }
+
+  // holdMs keeps the lease for that long after it was acquired, so replicas whose cron fires a
+  // moment later don't run the same task again
+  async releaseLease(name: string, owner: string, holdMs = 0): Promise<void> {
+    const where = and(eq(automationLeases.name, name), eq(automationLeases.owner, owner));
+    if (holdMs > 0) {
+      await db
+        .update(automationLeases)
+        .set({ expiresAt: sql`GREATEST(NOW(), ${automationLeases.acquiredAt} + ${holdMs} * INTERVAL '1 millisecond')` })
+        .where(where);
+    } else {
+      await db.delete(automationLeases).where(where);
+    }
+  }
+
+  async getLeases(): Promise<AutomationLease[]> {
+    return await db.select().from(automationLeases).orderBy(automationLeases.name);
+  }
+
+  async getWebhookSubscriptions(): Promise<WebhookSubscription[]> {
+    return await db.select().from(webhookSubscriptions).orderBy(webhookSubscriptions.id);
+  }
+
+  async getWebhookSubscription(id: number): Promise<WebhookSubscription | undefined> {
+    const [subscription] = await db.select().from(webhookSubscriptions).where(eq(webhookSubscriptions.id, id));
+    return subscription;
+  }
+
+  async createWebhookSubscription(subscription: InsertWebhookSubscription): Promise<WebhookSubscription> {
+    const [created] = await db.insert(webhookSubscriptions).values(subscription).returning();
+    return created;
+  }
+
+  async updateWebhookSubscription(id: number, updates: Partial<InsertWebhookSubscription>): Promise<WebhookSubscription | undefined> {
+    const [updated] = await db
+      .update(webhookSubscriptions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(webhookSubscriptions.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteWebhookSubscription(id: number): Promise<void> {
+    await db.delete(webhookSubscriptions).where(eq(webhookSubscriptions.id, id));
+  }
+
+  // Replaces the day's counts - every analysis run sees the whole current topic window
+  async setKeywordCounts(date: string, counts: Map<string, number>): Promise<void> {
+    const rows = Array.from(counts.entries()).map(([keyword, count]) => ({ date, keyword, count }));
+    await db.delete(keywordTrends).where(eq(keywordTrends.date, date));
+    if (rows.length > 0) {
+      await db.insert(keywordTrends).values(rows);
+    }
+  }
+
+  // Inclusive of fromDate, exclusive of toDate (YYYY-MM-DD)
+  async getKeywordTrends(fromDate: string, toDate: string): Promise<KeywordTrend[]> {
+    return await db
+      .select()
+      .from(keywordTrends)
+      .where(and(gte(keywordTrends.date, fromDate), lt(keywordTrends.date, toDate)));
+  }
+
+  async deleteKeywordTrendsBefore(date: string): Promise<void> {
+    await db.delete(keywordTrends).where(lt(keywordTrends.date, date));
+  }
+
+  async createTopicFingerprints(fingerprints: InsertTopicFingerprint[]): Promise<void> {
+    if (fingerprints.length > 0) {
+      await db.insert(topicFingerprints).values(fingerprints);
+    }
+  }
+
+  // Merged and suppressed rows only record the decision; their story is already represented
+  async getKeptTopicFingerprintsSince(since: Date): Promise<TopicFingerprint[]> {
+    return await db
+      .select()
+      .from(topicFingerprints)
+      .where(and(eq(topicFingerprints.status, 'kept'), gte(topicFingerprints.createdAt, since)))
+      .orderBy(desc(topicFingerprints.createdAt));
+  }
+
+  async deleteTopicFingerprintsBefore(before: Date): Promise<void> {
+    await db.delete(topicFingerprints).where(lt(topicFingerprints.createdAt, before));
+  }
+
+  async getContentCategories(): Promise<ContentCategory[]> {
+    return await db.select().from(contentCategories).orderBy(contentCategories.id);
+  }
+
+  async getContentCategory(id: number): Promise<ContentCategory | undefined> {
+    const [category] = await db.select().from(contentCategories).where(eq(contentCategories.id, id));
+    return category;
+  }
+
+  async createContentCategory(category: InsertContentCategory): Promise<ContentCategory> {
+    const [created] = await db.insert(contentCategories).values(category).returning();
+    return created;
+  }
+
+  async updateContentCategory(id: number, updates: Partial<InsertContentCategory>): Promise<ContentCategory | undefined> {
+    const [updated] = await db
+      .update(contentCategories)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(contentCategories.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteContentCategory(id: number): Promise<void> {
+    await db.delete(contentCategories).where(eq(contentCategories.id, id));
+  }
+
+  async createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const [created] = await db.insert(webhookDeliveries).values(delivery).returning();
+    return created;
+  }
+
+  async updateWebhookDelivery(id: number, updates: Partial<WebhookDelivery>): Promise<void> {
+    await db.update(webhookDeliveries).set(updates).where(eq(webhookDeliveries.id, id));
+  }
+
+  // Pushes next_attempt_at of the claimed rows past claimMs, so no other instance picks them up meanwhile
+  async claimDueWebhookDeliveries(limit: number, claimMs: number): Promise<WebhookDelivery[]> {
+    const due = db
+      .select({ id: webhookDeliveries.id })
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.status, 'pending'), sql`${webhookDeliveries.nextAttemptAt} <= NOW()`))
+      .orderBy(webhookDeliveries.nextAttemptAt)
+      .limit(limit)
+      .for('update', { skipLocked: true });
+
+    return await db
+      .update(webhookDeliveries)
+      .set({ nextAttemptAt: sql`NOW() + ${claimMs} * INTERVAL '1 millisecond'` })
+      .where(inArray(webhookDeliveries.id, due))
+      .returning();
+  }
+
+  async getWebhookDeliveries(subscriptionId: number, limit = 50): Promise<WebhookDelivery[]> {
+    return await db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.subscriptionId, subscriptionId))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(limit);
+  }
+
+  async createArtifactVersion(jobId: number, artifact: JobArtifact, data: JobArtifactSnapshot, reason: string): Promise<JobArtifactVersion> {
+    const [{ latest }] = await db
+      .select({ latest: sql<number>`COALESCE(MAX(${jobArtifactVersions.version}), 0)` })
+      .from(jobArtifactVersions)
+      .where(and(eq(jobArtifactVersions.jobId, jobId), eq(jobArtifactVersions.artifact, artifact)));
+
+    const [version] = await db
+      .insert(jobArtifactVersions)
+      .values({ jobId, artifact, version: Number(latest) + 1, data, reason })
+      .returning();
+    return version;
+  }
+
+  async getArtifactVersions(jobId: number, artifact?: JobArtifact): Promise<JobArtifactVersion[]> {
+    return await db
+      .select()
+      .from(jobArtifactVersions)
+      .where(artifact
+        ? and(eq(jobArtifactVersions.jobId, jobId), eq(jobArtifactVersions.artifact, artifact))
+        : eq(jobArtifactVersions.jobId, jobId))
+      .orderBy(jobArtifactVersions.artifact, desc(jobArtifactVersions.version));
+  }
+
+  async getArtifactVersion(jobId: number, artifact: JobArtifact, version: number): Promise<JobArtifactVersion | undefined> {
+    const [row] = await db
+      .select()
+      .from(jobArtifactVersions)
+      .where(and(
+        eq(jobArtifactVersions.jobId, jobId),
+        eq(jobArtifactVersions.artifact, artifact),
+        eq(jobArtifactVersions.version, version)
+      ));
+    return row;
+  }
+
   async createOrUpdateSystemStats(stats: InsertSystemStats): Promise<SystemStats> {
     const existing = await db
       .select()
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, unique, real, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -15,7 +15,7 @@ export const trendingTopics = pgTable("trending_topics", {
   searchVolume: integer("search_volume").notNull(),
   priority: text("priority").notNull().default("medium"), // high, medium, low
   category: text("category").notNull(), // technology, sports, news, global, etc.
-  source: text("source").notNull(), // google_trends, news_api, twitter_api
+  source: text("source").notNull(), // trending source adapter: google_search, rss, news_sitemap, fixture, dry_run_fixture
   trending_data: jsonb("trending_data"), // raw API response
   status: text("status").notNull().default("pending"), // pending, processing, completed, failed
   createdAt: timestamp("created_at").notNull().defaultNow(),
@@ -24,6 +24,7 @@ export const trendingTopics = pgTable("trending_topics", {
 export const contentJobs = pgTable("content_jobs", {
   id: serial("id").primaryKey(),
   topicId: integer("topic_id").references(() => trendingTopics.id),
+  parentJobId: integer("parent_job_id").references((): AnyPgColumn => contentJobs.id, { onDelete: "set null" }), // long-form job a Short was cut from
   videoType: text("video_type").notNull(), // long_form, short
   title: text("title").notNull(),
   script: text("script"),
@@ -31,16 +32,124 @@ export const contentJobs = pgTable("content_jobs", {
   thumbnailPath: text("thumbnail_path"),
   driveUrl: text("drive_url"),
   youtubeId: text("youtube_id"),
-  status: text("status").notNull().default("pending"), // pending, script_generation, video_creation, thumbnail_generation, uploading, completed, failed
+  channelId: text("channel_id"), // YouTube channel the video is published to
+  selectionReason: text("selection_reason"), // why the daily run picked this topic
+  idempotencyKey: text("idempotency_key").unique(), // topic:videoType:channel:day - one job per key, released when the job fails
+  status: text("status").notNull().default("pending"), // pending, script_generation, video_creation, thumbnail_generation, awaiting_review, ready_for_upload, uploading, completed, failed, cancelled, rejected, interrupted
   progress: integer("progress").notNull().default(0),
   scheduledTime: timestamp("scheduled_time"),
   publishedAt: timestamp("published_at"),
   metadata: jsonb("metadata"), // video details, SEO data, etc.
+  checkpoints: jsonb("checkpoints"), // per-step outputs used to resume the pipeline
+  ownerInstance: text("owner_instance"), // instance running the job; cleared when it stops
+  heartbeatAt: timestamp("heartbeat_at"), // refreshed by the owner while a step or upload runs
   errorMessage: text("error_message"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+export const pipelineQueue = pgTable("pipeline_queue", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").notNull().unique().references(() => contentJobs.id, { onDelete: "cascade" }),
+  stage: text("stage").notNull(), // llm, tts, render, upload
+  status: text("status").notNull().default("waiting"), // waiting, running
+  ownerInstance: text("owner_instance"), // instance whose process waits on or runs the entry
+  enqueuedAt: timestamp("enqueued_at").notNull().defaultNow(),
+  startedAt: timestamp("started_at"),
+});
+
+export const jobArtifactVersions = pgTable("job_artifact_versions", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").notNull().references(() => contentJobs.id, { onDelete: "cascade" }),
+  artifact: text("artifact").notNull(), // script, audio, video, thumbnail, metadata
+  version: integer("version").notNull(),
+  data: jsonb("data").notNull(), // job fields and step checkpoints, file paths point at archived copies
+  reason: text("reason"), // regenerate, rollback
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  jobArtifactVersion: unique().on(table.jobId, table.artifact, table.version),
+}));
+
+// Cross-instance locks for scheduled tasks and uploads; an expired lease can be taken over by any instance
+export const automationLeases = pgTable("automation_leases", {
+  name: text("name").primaryKey(), // e.g. daily-automation, cron:upload-check, upload:42
+  owner: text("owner").notNull(), // instance id of the holder
+  acquiredAt: timestamp("acquired_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+// Outbound webhooks: each subscription receives the event types it lists, signed with its secret
+export const webhookSubscriptions = pgTable("webhook_subscriptions", {
+  id: serial("id").primaryKey(),
+  url: text("url").notNull(),
+  events: jsonb("events").$type<string[]>().notNull(), // e.g. job.completed, video.published
+  secret: text("secret").notNull(), // HMAC-SHA256 key for the X-Webhook-Signature header
+  description: text("description"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  subscriptionId: integer("subscription_id").notNull().references(() => webhookSubscriptions.id, { onDelete: "cascade" }),
+  eventType: text("event_type").notNull(),
+  payload: jsonb("payload").notNull(), // exact body sent on every attempt
+  status: text("status").notNull().default("pending"), // pending, delivered, failed
+  attempts: integer("attempts").notNull().default(0),
+  responseStatus: integer("response_status"),
+  error: text("error"),
+  nextAttemptAt: timestamp("next_attempt_at"), // null once delivered or out of attempts
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Niche definitions read by trending analysis, rendering, thumbnails and upload metadata
+export const contentCategories = pgTable("content_categories", {
+  id: serial("id").primaryKey(),
+  slug: text("slug").notNull().unique(), // stored as the category on topics and job metadata
+  name: text("name").notNull(),
+  isActive: boolean("is_active").notNull().default(true), // inactive categories are not analyzed
+  searchQueries: jsonb("search_queries").$type<string[]>().notNull(), // trending analysis runs one search per query
+  keywords: jsonb("keywords").$type<string[]>().notNull(), // an article has to mention one to be relevant
+  boostKeywords: jsonb("boost_keywords").$type<string[]>().notNull().default([]), // raise the estimated search volume
+  targetSites: jsonb("target_sites").$type<string[]>().notNull().default([]), // domains searched as trusted sources
+  titlePrefixes: jsonb("title_prefixes").$type<string[]>().notNull().default([]),
+  baseSearchVolume: integer("base_search_volume").notNull().default(100000),
+  youtubeCategoryId: text("youtube_category_id").notNull().default("28"), // 28 = Science & Technology
+  tags: jsonb("tags").$type<string[]>().notNull().default([]), // added to the YouTube tags
+  colors: jsonb("colors").$type<CategoryColors>().notNull(),
+  backgroundKeywords: jsonb("background_keywords").$type<string[]>().notNull().default([]), // stock image search terms
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Daily mention counts of title keywords in trending topics; the baseline for keyword momentum
+export const keywordTrends = pgTable("keyword_trends", {
+  id: serial("id").primaryKey(),
+  date: text("date").notNull(), // YYYY-MM-DD format
+  keyword: text("keyword").notNull(),
+  count: integer("count").notNull(), // latest analysis run of the day
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  dateKeyword: unique().on(table.date, table.keyword),
+}));
+
+// MinHash signatures of analyzed topics; outlive trending_topics so a story seen days ago is still recognized
+export const topicFingerprints = pgTable("topic_fingerprints", {
+  id: serial("id").primaryKey(),
+  topicId: integer("topic_id"), // stored topic, null when merged or suppressed; not a reference - topics are pruned sooner
+  title: text("title").notNull(),
+  sourceUrl: text("source_url"),
+  titleSignature: jsonb("title_signature").$type<number[]>().notNull(),
+  contentSignature: jsonb("content_signature").$type<number[]>(), // null when the article text was too short
+  status: text("status").notNull(), // kept, merged, suppressed
+  matchedRef: text("matched_ref"), // topic:<id>, fingerprint:<id> or video:<job id> it duplicated
+  matchedTitle: text("matched_title"),
+  similarity: real("similarity"), // estimated Jaccard similarity with the match
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 export const systemStats = pgTable("system_stats", {
   id: serial("id").primaryKey(),
   date: text("date").notNull().unique(), // YYYY-MM-DD format
@@ -125,6 +234,25 @@ export type TrendingTopic = typeof trendingTopics.$inferSelect;
 export type InsertContentJob = z.infer<typeof insertContentJobSchema>;
 export type ContentJob = typeof contentJobs.$inferSelect;
 
+export type PipelineQueueEntry = typeof pipelineQueue.$inferSelect;
+
+export type JobArtifactVersion = typeof jobArtifactVersions.$inferSelect;
+
+export type AutomationLease = typeof automationLeases.$inferSelect;
+
+export type InsertWebhookSubscription = typeof webhookSubscriptions.$inferInsert;
+export type WebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = typeof webhookDeliveries.$inferInsert;
+
+export type InsertContentCategory = typeof contentCategories.$inferInsert;
+export type ContentCategory = typeof contentCategories.$inferSelect;
+
+export type KeywordTrend = typeof keywordTrends.$inferSelect;
+
+export type InsertTopicFingerprint = typeof topicFingerprints.$inferInsert;
+export type TopicFingerprint = typeof topicFingerprints.$inferSelect;
+
 export type InsertSystemStats = z.infer<typeof insertSystemStatsSchema>;
 export type SystemStats = typeof systemStats.$inferSelect;
 
@@ -157,4 +285,126 @@ export interface PipelineLog {
   progress?: number;
   timestamp: string;
   metadata?: Record<string, any>;
-}
\ No newline at end of file
+}
+export type PipelineStep =
+  | 'script_generation'
+  | 'audio_generation'
+  | 'video_creation'
+  | 'video_processing'
+  | 'thumbnail_generation'
+  | 'file_organization'
+  | 'upload_scheduling';
+
+export interface JobCheckpoint {
+  completedAt: string;
+  durationMs?: number;
+  output: Record<string, any>;
+}
+
+// Keyed by step id - the built-in steps plus any step registered in the pipeline definition
+export type JobCheckpoints = Partial<Record<PipelineStep, JobCheckpoint>> & { [step: string]: JobCheckpoint | undefined };
+
+// Hex colors; background is a gradient of one or more stops
+export interface CategoryColors {
+  background: string[];
+  text: string;
+  accent: string;
+  highlight: string;
+  shadow: string;
+}
+
+export type TopicSignal = 'coverage' | 'credibility' | 'recency' | 'quality' | 'momentum' | 'channelFit';
+
+export interface TopicSignalScore {
+  value: number; // 0-1
+  weight: number; // share of the total, 0-1
+  points: number; // value * weight * 100
+  detail: string; // what the value is based on
+}
+
+// Stored on trending_data.score so the ranking can be explained
+export interface TopicScore {
+  total: number; // 0-100, sum of the signal points
+  priority: 'high' | 'medium' | 'low';
+  signals: Record<TopicSignal, TopicSignalScore>;
+  storyId: string; // topics about the same story share it
+  scoredAt: string;
+}
+
+// One article of a clustered story, kept in trending_data.sources
+export interface StorySource {
+  title: string;
+  url: string | null;
+  domain: string;
+  adapter: string; // trending source adapter that found it
+  publishedAt: string | null;
+  qualityScore: number;
+  wordCount: number;
+}
+
+// Part of a long-form narration picked for a Short
+export interface ShortSegment {
+  start: number; // seconds into the long-form narration
+  end: number;
+  duration: number;
+  text: string;
+  score: number;
+}
+
+// Stored in a derived Short's metadata - where in the long-form video it was cut from
+export interface DerivedFrom {
+  jobId: number;
+  sourceVideo: string;
+  voice?: string;
+  segment: ShortSegment;
+}
+
+// The content_jobs.metadata keys the pipeline reads; steps and the API may store others
+export interface JobMetadata {
+  topic?: string;
+  category?: string;
+  originalContent?: string;
+  hasFullContent?: boolean;
+  narrationVoice?: string; // picked when regenerating the audio
+  youtubeDescription?: string; // set by metadata regeneration, override the generated ones
+  youtubeTags?: string[];
+  derivedFrom?: DerivedFrom;
+  failedStep?: string;
+  recovery?: { count: number; lastAction: string; lastReason: string; lastRecoveredAt: string; recoveredBy: string };
+  [key: string]: any;
+}
+
+// The trending_topics.trending_data keys the pipeline reads; trending sources may store others
+export interface TrendingData {
+  originalTitle?: string;
+  fullContent?: string;
+  sourceUrl?: string;
+  sourceDomain?: string;
+  publishedAt?: string | null;
+  qualityScore?: number;
+  wordCount?: number;
+  score?: TopicScore;
+  sources?: StorySource[];
+  [key: string]: any;
+}
+
+export function jobMetadata(job: { metadata?: unknown }): JobMetadata {
+  return (job.metadata as JobMetadata | null) || {};
+}
+
+export function trendingData(topic: { trending_data?: unknown }): TrendingData {
+  return (topic.trending_data as TrendingData | null) || {};
+}
+
+export type JobArtifact = 'script' | 'audio' | 'video' | 'thumbnail' | 'metadata';
+
+export interface JobArtifactSnapshot {
+  fields: Partial<Pick<ContentJob, 'script' | 'title' | 'videoPath' | 'thumbnailPath' | 'metadata'>>;
+  checkpoints: JobCheckpoints;
+}
+
+// created is false when a job with the same idempotency key already existed and was returned instead
+export interface JobCreation {
+  job: ContentJob;
+  created: boolean;
+}